@@ -0,0 +1,173 @@
+// Error translation: upstream provider errors → Anthropic error types
+
+export type AnthropicErrorType =
+    | 'invalid_request_error'
+    | 'authentication_error'
+    | 'billing_error'
+    | 'permission_error'
+    | 'not_found_error'
+    | 'request_too_large'
+    | 'rate_limit_error'
+    | 'api_error'
+    | 'overloaded_error';
+
+export interface TranslatedError {
+    status: number;
+    type: AnthropicErrorType;
+    message: string;
+}
+
+/**
+ * A provider error recognised by status, error code or message.
+ * A rule matches if any of its conditions hold; the first matching rule wins.
+ * Messages are only trusted under `patternStatuses` (or without a status), so an
+ * unrelated error that happens to mention e.g. billing is not rewritten.
+ */
+interface ErrorRule {
+    status: number;
+    type: AnthropicErrorType;
+    statuses?: number[];
+    codes?: string[];
+    pattern?: RegExp;
+    patternStatuses?: number[];
+    formatMessage?: (message: string) => string;
+}
+
+const ERROR_RULES: ErrorRule[] = [
+    // Context window exceeded. Claude Code only auto-compacts on Anthropic's "prompt is too long"
+    {
+        status: 400,
+        type: 'invalid_request_error',
+        statuses: [413],
+        codes: ['context_length_exceeded', 'context_window_exceeded', 'model_max_prompt_tokens_exceeded', 'string_above_max_length'],
+        pattern: /context[ _](length|window)|prompt is too long|too many (input )?tokens|input (is )?too long|reduce the length|exceeds? the (model's )?max(imum)? (number of tokens|context|input|prompt)/i,
+        patternStatuses: [400, 413, 422],
+        formatMessage: formatPromptTooLong,
+    },
+    // Out of credits: reported as billing so Claude Code does not keep retrying
+    {
+        status: 402,
+        type: 'billing_error',
+        statuses: [402],
+        codes: ['insufficient_quota', 'insufficient_balance', 'billing_hard_limit_reached', 'payment_required'],
+        pattern: /insufficient[ _](quota|balance|credits?|funds)|exceeded your current quota|billing|credit balance|payment required/i,
+        patternStatuses: [400, 402, 403, 429],
+    },
+    {
+        status: 529,
+        type: 'overloaded_error',
+        statuses: [503, 529],
+        codes: ['overloaded', 'server_overloaded', 'engine_overloaded', 'model_overloaded'],
+        pattern: /overloaded|over capacity|at capacity/i,
+        patternStatuses: [429, 500, 502, 503, 529],
+    },
+    {
+        status: 400,
+        type: 'invalid_request_error',
+        codes: ['content_filter', 'content_policy_violation', 'content_filtered', 'data_inspection_failed'],
+        pattern: /content (management )?polic|content filter|safety system|flagged (as|by)/i,
+        patternStatuses: [400, 403, 422],
+        formatMessage: message => `Request blocked by the provider's content filter: ${message}`,
+    },
+];
+
+/**
+ * Anthropic error type for an HTTP status
+ */
+export function getErrorTypeForStatus(statusCode: number): AnthropicErrorType {
+    switch (statusCode) {
+        case 400:
+            return 'invalid_request_error';
+        case 401:
+            return 'authentication_error';
+        case 402:
+            return 'billing_error';
+        case 403:
+            return 'permission_error';
+        case 404:
+            return 'not_found_error';
+        case 413:
+            return 'request_too_large';
+        case 429:
+            return 'rate_limit_error';
+        case 503:
+        case 529:
+            return 'overloaded_error';
+        case 500:
+        default:
+            return 'api_error';
+    }
+}
+
+/**
+ * Translate an upstream error into the Anthropic status, type and message
+ */
+export function translateError(error: Error, status: number | undefined = getErrorStatus(error)): TranslatedError {
+    const statusCode = status ?? 500;
+    const codes = getErrorCodes(error);
+    const message = stripStatusPrefix(error.message);
+
+    for (const rule of ERROR_RULES) {
+        const trustsMessage = status === undefined || rule.patternStatuses?.includes(status);
+        const matches = (status !== undefined && rule.statuses?.includes(status))
+            || rule.codes?.some(code => codes.includes(code))
+            || (trustsMessage && rule.pattern?.test(message));
+
+        if (matches) {
+            return {
+                status: rule.status,
+                type: rule.type,
+                message: rule.formatMessage ? rule.formatMessage(message) : message,
+            };
+        }
+    }
+
+    return {
+        status: statusCode,
+        type: getErrorTypeForStatus(statusCode),
+        message,
+    };
+}
+
+/**
+ * HTTP status of an upstream error, or undefined if there is none
+ */
+function getErrorStatus(error: Error): number | undefined {
+    const status = (error as any).status;
+    return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Provider error codes and types, from the SDK error and its (possibly nested) body
+ */
+function getErrorCodes(error: Error): string[] {
+    const candidates = [error as any, (error as any).error, (error as any).error?.error];
+    const codes: string[] = [];
+
+    for (const candidate of candidates) {
+        if (!candidate || typeof candidate !== 'object') continue;
+        for (const value of [candidate.code, candidate.type]) {
+            if (typeof value === 'string') codes.push(value.toLowerCase());
+        }
+    }
+
+    return codes;
+}
+
+/**
+ * The OpenAI SDK prefixes messages with the status code ("400 This model's ...")
+ */
+function stripStatusPrefix(message: string): string {
+    return message.replace(/^\d{3} /, '');
+}
+
+/**
+ * Anthropic's format: "prompt is too long: 210000 tokens > 200000 maximum"
+ */
+function formatPromptTooLong(message: string): string {
+    const match = message.match(/maximum context length is (\d+) tokens.*?(?:resulted in|requested) (\d+) tokens/is);
+    if (match) {
+        return `prompt is too long: ${match[2]} tokens > ${match[1]} maximum`;
+    }
+    return `prompt is too long: ${message}`;
+}
@@ -0,0 +1,83 @@
+// Header conversion: OpenAI rate-limit headers → Anthropic rate-limit headers
+import { parseRetryAfter } from '../utils/retry';
+
+export type UpstreamHeaders = Record<string, string | null | undefined>;
+
+// OpenAI x-ratelimit-* suffix → Anthropic anthropic-ratelimit-* suffix
+const RATE_LIMIT_BUCKETS: Array<{ openai: string; anthropic: string }> = [
+    { openai: 'requests', anthropic: 'requests' },
+    { openai: 'tokens', anthropic: 'tokens' },
+];
+
+const DURATION_UNITS_MS: Record<string, number> = {
+    ms: 1,
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+};
+
+/**
+ * Translate upstream rate-limit and retry headers into the headers Claude Code paces itself by:
+ * - x-ratelimit-{limit,remaining}-{requests,tokens} → anthropic-ratelimit-{requests,tokens}-{limit,remaining}
+ * - x-ratelimit-reset-{requests,tokens} (a duration such as "6m0s") → anthropic-ratelimit-*-reset (RFC 3339)
+ * - retry-after / retry-after-ms → retry-after (whole seconds)
+ */
+export function convertRateLimitHeaders(headers: UpstreamHeaders | undefined, now: number = Date.now()): Record<string, string> {
+    const result: Record<string, string> = {};
+    if (!headers) return result;
+
+    for (const bucket of RATE_LIMIT_BUCKETS) {
+        const prefix = `anthropic-ratelimit-${bucket.anthropic}`;
+
+        const limit = headers[`x-ratelimit-limit-${bucket.openai}`];
+        if (limit) result[`${prefix}-limit`] = limit;
+
+        const remaining = headers[`x-ratelimit-remaining-${bucket.openai}`];
+        if (remaining) result[`${prefix}-remaining`] = remaining;
+
+        const resetMs = parseDuration(headers[`x-ratelimit-reset-${bucket.openai}`]);
+        if (resetMs !== null) result[`${prefix}-reset`] = new Date(now + resetMs).toISOString();
+    }
+
+    const retryAfterMs = parseRetryAfter(headers);
+    if (retryAfterMs !== null) {
+        result['retry-after'] = String(Math.ceil(retryAfterMs / 1000));
+    }
+
+    return result;
+}
+
+/**
+ * Convert a fetch Headers object into a plain lowercase-keyed record
+ */
+export function headersToRecord(headers: { forEach(callback: (value: string, key: string) => void): void }): UpstreamHeaders {
+    const record: UpstreamHeaders = {};
+    headers.forEach((value, key) => {
+        record[key.toLowerCase()] = value;
+    });
+    return record;
+}
+
+/**
+ * Parse OpenAI reset durations ("20ms", "1s", "6m0s", "1h2m3.5s") or plain seconds into milliseconds
+ */
+function parseDuration(value: string | null | undefined): number | null {
+    if (!value) return null;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return seconds * 1000;
+    }
+
+    const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+    let total = 0;
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(value)) !== null) {
+        total += parseFloat(match[1]) * DURATION_UNITS_MS[match[2]];
+        consumed += match[0].length;
+    }
+
+    return consumed === value.length && consumed > 0 ? Math.round(total) : null;
+}
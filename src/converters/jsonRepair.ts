@@ -0,0 +1,351 @@
+// Tolerant JSON repair for tool call arguments
+// Open models regularly produce almost-JSON: trailing commas, single quotes, unquoted keys,
+// raw newlines in strings, Python literals, or input cut off by max_tokens.
+import { logger } from '../utils/logger';
+
+const PYTHON_LITERALS: Record<string, string> = { True: 'true', False: 'false', None: 'null' };
+const JSON_LITERALS = new Set(['true', 'false', 'null']);
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const WORD_CHAR = /[\w.+\-$]/;
+const VALID_ESCAPES = new Set(['"', '\\', '/', 'b', 'f', 'n', 'r', 't']);
+const HEX_DIGIT = /[0-9a-fA-F]/;
+const CONTROL_ESCAPES: Record<string, string> = { '\n': '\\n', '\r': '\\r', '\t': '\\t' };
+
+type RepairMode = 'value' | 'string' | 'word' | 'done';
+
+/**
+ * Incremental JSON repairer: rewrites streamed almost-JSON into valid JSON as it arrives.
+ * Valid JSON passes through unchanged. Output is held back only where the next character
+ * decides it: a bare word until it ends, a comma until it is known not to be trailing,
+ * a backslash until the escaped character arrives, and `\u` until its four hex digits do.
+ * `flush` closes truncated input.
+ */
+export class JsonRepairStream {
+    private mode: RepairMode = 'value';
+    private stack: ('{' | '[')[] = [];
+    private expectKey = false;  // The next token in the current object is a key
+    private afterKey = false;  // A key was written but not its colon
+    private awaitingValue = false;  // After a colon, or an array element is expected
+    private started = false;  // The top-level value has begun
+    private quote = '"';
+    private escaping = false;
+    private unicodeDigits: string | null = null;  // Hex digits read after `\u`
+    private word = '';
+    private pendingComma = '';  // A comma plus following whitespace, dropped if a closer follows
+    private repairSet = new Set<string>();
+
+    /**
+     * Descriptions of the repairs made so far, for logging
+     */
+    get repairs(): string[] {
+        return [...this.repairSet];
+    }
+
+    /**
+     * Feed a chunk, returning the repaired output that is now final
+     */
+    push(chunk: string): string {
+        let out = '';
+        for (const char of chunk) {
+            out += this.step(char);
+        }
+        return out;
+    }
+
+    /**
+     * End of input: finish a bare word or string and close anything left open
+     */
+    flush(): string {
+        let out = '';
+
+        if (this.mode === 'string') {
+            this.repairSet.add('closed a truncated string');
+            out += this.takeInvalidUnicodeEscape() + '"';
+            this.mode = 'value';
+            this.endValue();
+        } else if (this.mode === 'word') {
+            out += this.finishWord();
+        }
+
+        if (this.pendingComma) {
+            this.repairSet.add('removed a trailing comma');
+            this.pendingComma = '';
+        }
+        out += this.fillMissingValue();
+        if (this.stack.length > 0) {
+            this.repairSet.add('closed truncated input');
+            out += this.stack.reverse().map(open => (open === '{' ? '}' : ']')).join('');
+        }
+
+        this.stack = [];
+        this.afterKey = false;
+        this.awaitingValue = false;
+        this.mode = 'done';
+        return out;
+    }
+
+    private step(char: string): string {
+        switch (this.mode) {
+            case 'string':
+                return this.stepString(char);
+            case 'word':
+                if (WORD_CHAR.test(char)) {
+                    this.word += char;
+                    return '';
+                }
+                return this.finishWord() + this.step(char);
+            case 'done':
+                if (!/\s/.test(char)) this.repairSet.add('removed text after the value');
+                return '';
+            default:
+                return this.stepValue(char);
+        }
+    }
+
+    private stepValue(char: string): string {
+        if (!this.started && char !== '{' && char !== '[') {
+            // Prose or a code fence before the value
+            if (!/\s/.test(char)) this.repairSet.add('removed text before the value');
+            return '';
+        }
+
+        if (/\s/.test(char)) {
+            if (this.pendingComma) {
+                this.pendingComma += char;
+                return '';
+            }
+            return char;
+        }
+
+        switch (char) {
+            case '{':
+            case '[': {
+                const out = (this.started ? this.beginValue() : '') + char;
+                this.started = true;
+                this.stack.push(char);
+                this.expectKey = char === '{';
+                this.awaitingValue = char === '[';
+                return out;
+            }
+            case '}':
+            case ']':
+                return this.closeContainer(char);
+            case ',':
+                if (this.pendingComma || this.expectKey || this.awaitingValue) {
+                    this.repairSet.add('removed an extra comma');
+                    return '';
+                }
+                this.pendingComma = ',';
+                this.expectKey = this.top() === '{';
+                this.awaitingValue = this.top() === '[';
+                return '';
+            case ':':
+                if (!this.afterKey) {
+                    this.repairSet.add('removed a stray colon');
+                    return '';
+                }
+                this.afterKey = false;
+                this.awaitingValue = true;
+                return ':';
+            case '"':
+            case '\'':
+                if (char === '\'') this.repairSet.add('replaced single quotes');
+                return this.beginValue() + this.openString(char);
+            default:
+                if (WORD_CHAR.test(char)) {
+                    const out = this.beginValue();
+                    this.mode = 'word';
+                    this.word = char;
+                    return out;
+                }
+                this.repairSet.add(`removed an unexpected "${char}"`);
+                return '';
+        }
+    }
+
+    private stepString(char: string): string {
+        if (this.unicodeDigits !== null) {
+            if (HEX_DIGIT.test(char)) {
+                this.unicodeDigits += char;
+                if (this.unicodeDigits.length < 4) return '';
+                const escape = '\\u' + this.unicodeDigits;
+                this.unicodeDigits = null;
+                return escape;
+            }
+            // Not a unicode escape after all, e.g. the \u of C:\users
+            return this.takeInvalidUnicodeEscape() + this.stepString(char);
+        }
+
+        if (this.escaping) {
+            this.escaping = false;
+            if (char === '\'') {
+                // \' is not a JSON escape in either quote style
+                if (this.quote === '"') this.repairSet.add('removed an invalid escape');
+                return '\'';
+            }
+            if (char === 'u') {
+                this.unicodeDigits = '';
+                return '';
+            }
+            if (VALID_ESCAPES.has(char)) return '\\' + char;
+            this.repairSet.add('escaped a stray backslash');
+            return '\\\\' + this.stepString(char);
+        }
+
+        if (char === '\\') {
+            this.escaping = true;
+            return '';
+        }
+        if (char === this.quote) {
+            this.mode = 'value';
+            this.endValue();
+            return '"';
+        }
+        if (char === '"') {
+            return '\\"';
+        }
+        if (char < ' ') {
+            this.repairSet.add('escaped a control character in a string');
+            return CONTROL_ESCAPES[char] ?? `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`;
+        }
+        return char;
+    }
+
+    /**
+     * A `\u` without four hex digits, written with its backslash escaped
+     */
+    private takeInvalidUnicodeEscape(): string {
+        if (this.unicodeDigits === null) return '';
+
+        this.repairSet.add('escaped a stray backslash');
+        const out = '\\\\u' + this.unicodeDigits;
+        this.unicodeDigits = null;
+        return out;
+    }
+
+    /**
+     * A string, word or container is starting where a value or key is expected
+     */
+    private beginValue(): string {
+        const out = this.takeComma();
+        if (this.afterKey) {
+            this.repairSet.add('inserted a missing colon');
+            this.afterKey = false;
+            return out + ':';
+        }
+        if (this.stack.length > 0 && !this.expectKey && !this.awaitingValue) {
+            // Two values in a row, e.g. a missing comma between members
+            this.repairSet.add('inserted a missing comma');
+            this.expectKey = this.top() === '{';
+            return out + ',';
+        }
+        this.awaitingValue = false;
+        return out;
+    }
+
+    /**
+     * An object member cut off after its key or colon gets a null value
+     */
+    private fillMissingValue(): string {
+        if (this.top() !== '{' || !(this.afterKey || this.awaitingValue)) return '';
+
+        this.repairSet.add('filled in a missing value');
+        return this.afterKey ? ':null' : 'null';
+    }
+
+    private openString(quote: string): string {
+        this.mode = 'string';
+        this.quote = quote;
+        return '"';
+    }
+
+    private finishWord(): string {
+        const word = this.word;
+        this.word = '';
+        this.mode = 'value';
+
+        let out: string;
+        if (this.top() === '{' && this.expectKey) {
+            this.repairSet.add('quoted an unquoted key');
+            out = JSON.stringify(word);
+        } else if (word in PYTHON_LITERALS) {
+            this.repairSet.add('converted a Python literal');
+            out = PYTHON_LITERALS[word];
+        } else if (JSON_LITERALS.has(word) || NUMBER_PATTERN.test(word)) {
+            out = word;
+        } else {
+            this.repairSet.add('quoted a bare word');
+            out = JSON.stringify(word);
+        }
+
+        this.endValue();
+        return out;
+    }
+
+    /**
+     * A key or value has just been written
+     */
+    private endValue(): void {
+        if (this.top() === '{' && this.expectKey) {
+            this.expectKey = false;
+            this.afterKey = true;
+        } else {
+            this.awaitingValue = false;
+            if (this.stack.length === 0) this.mode = 'done';
+        }
+    }
+
+    private closeContainer(char: string): string {
+        if (this.pendingComma) {
+            this.repairSet.add('removed a trailing comma');
+            this.pendingComma = this.pendingComma.substring(1);
+        }
+        let out = this.pendingComma;
+        this.pendingComma = '';
+
+        const open = this.top();
+        if (!open) {
+            this.repairSet.add(`removed an unmatched "${char}"`);
+            return out;
+        }
+
+        const close = open === '{' ? '}' : ']';
+        if (close !== char) this.repairSet.add(`replaced "${char}" with "${close}"`);
+
+        out += this.fillMissingValue();
+        this.stack.pop();
+        this.afterKey = false;
+        this.expectKey = false;
+
+        out += close;
+        this.endValue();
+        return out;
+    }
+
+    private takeComma(): string {
+        const comma = this.pendingComma;
+        this.pendingComma = '';
+        return comma;
+    }
+
+    private top(): '{' | '[' | undefined {
+        return this.stack[this.stack.length - 1];
+    }
+}
+
+/**
+ * Repair a complete JSON text, returning the repaired text and what was changed
+ */
+export function repairJson(text: string): { json: string; repairs: string[] } {
+    const stream = new JsonRepairStream();
+    const json = stream.push(text) + stream.flush();
+    return { json, repairs: stream.repairs };
+}
+
+/**
+ * Note in the debug log that a tool call's arguments needed repair
+ */
+export function logToolArgumentRepairs(toolName: string, repairs: string[]): void {
+    if (repairs.length === 0) return;
+    logger.debug('Repaired tool call arguments', { tool: toolName, repairs });
+}
@@ -3,19 +3,26 @@ import {
     AnthropicMessageRequest,
     AnthropicMessage,
     AnthropicContentBlock,
+    AnthropicImageBlock,
     AnthropicToolUseBlock,
     AnthropicToolResultBlock,
     AnthropicSystemContent,
+    AnthropicThinkingConfig,
 } from '../types/anthropic';
 import {
     OpenAIChatRequest,
+    OpenAIReasoningEffort,
     OpenAIMessage,
     OpenAIUserContentPart,
+    OpenAIImageContentPart,
     OpenAIToolMessage,
 } from '../types/openai';
 import { convertToolsToOpenAI, convertToolChoiceToOpenAI } from './tools';
-import { generateXmlToolInstructions } from './xmlPrompt';
+import { getToolDialect, ToolDialect } from './toolDialects';
+import { splitStopSequences } from './stopSequences';
+import { ThinkingConfig, ToolDialectName } from '../types/config';
 import { getCachedUpdateInfo } from '../utils/update';
+import { DEFAULT_CAPABILITIES, ResolvedCapabilities } from '../utils/capabilities';
 import { version } from '../../package.json';
 
 // Claude Code system prompt identifier to detect and rebrand
@@ -43,15 +50,39 @@ function modifySystemPromptForClaudeAdapter(systemContent: string): string {
 }
 
 /**
- * Convert Anthropic Messages API request to OpenAI Chat Completions format
+ * Optional settings that shape the converted request
+ */
+export interface RequestConversionOptions {
+    thinking?: ThinkingConfig;
+    toolDialect?: ToolDialectName;  // XML mode only; default: 'tool_code'
+    capabilities?: ResolvedCapabilities;  // What the provider accepts; default: DEFAULT_CAPABILITIES
+}
+
+// Thinking budgets below these thresholds map to low/medium reasoning effort
+const LOW_EFFORT_BUDGET_LIMIT = 8192;
+const MEDIUM_EFFORT_BUDGET_LIMIT = 24576;
+
+// XML mode asks for deterministic output so tool calls follow the format
+const XML_MODE_TEMPERATURE = 0;
+
+/**
+ * Convert Anthropic Messages API request to OpenAI Chat Completions format.
+ * The older `(request, model, toolFormat, isAzureOpenAI, options)` form is still
+ * accepted but deprecated: pass `capabilities` in the options instead.
  */
 export function convertRequestToOpenAI(
     anthropicRequest: AnthropicMessageRequest,
     targetModel: string,
     toolFormat: 'native' | 'xml' = 'native',
-    isAzureOpenAI = false
+    optionsOrIsAzure: RequestConversionOptions | boolean = {},
+    legacyOptions: RequestConversionOptions = {}
 ): OpenAIChatRequest {
+    const options = typeof optionsOrIsAzure === 'boolean'
+        ? withLegacyAzureCapabilities(optionsOrIsAzure, legacyOptions)
+        : optionsOrIsAzure;
     const messages: OpenAIMessage[] = [];
+    const dialect = getToolDialect(options.toolDialect);
+    const capabilities = options.capabilities ?? DEFAULT_CAPABILITIES;
 
     // Handle system prompt - becomes first message with role: system
     if (anthropicRequest.system) {
@@ -70,7 +101,7 @@ export function convertRequestToOpenAI(
 
     // XML mode: inject tool instructions into system prompt
     if (toolFormat === 'xml' && anthropicRequest.tools && anthropicRequest.tools.length > 0) {
-        const xmlInstructions = generateXmlToolInstructions(anthropicRequest.tools);
+        const xmlInstructions = dialect.generateInstructions(anthropicRequest.tools);
         if (messages.length > 0 && messages[0].role === 'system') {
             // Append to existing system message
             messages[0].content += '\n\n' + xmlInstructions;
@@ -89,12 +120,17 @@ export function convertRequestToOpenAI(
     };
 
     // Convert messages with shared deduplication context
-    // Convert messages with shared deduplication context
+    const reinjectThinking = options.thinking?.history === 'reinject';
     for (const msg of anthropicRequest.messages) {
-        const converted = convertMessage(msg, idDeduplication, toolFormat);
+        const converted = convertMessage(msg, idDeduplication, toolFormat, dialect, reinjectThinking);
         messages.push(...converted);
     }
 
+    if (!capabilities.images) {
+        replaceImages(messages);
+    }
+    applySystemRole(messages, capabilities.systemRole);
+
     // Ensure at least one message survived conversion. If all input messages had
     // missing content (e.g., only hook injections), the resulting array would be
     // empty and the upstream provider would reject it with a cryptic error.
@@ -104,50 +140,41 @@ export function convertRequestToOpenAI(
         );
     }
 
-    // Azure OpenAI enforces strict validation on max_tokens.
-    // Claude Code uses max_tokens: 1 for prompt caching optimization,
-    // but this causes 400 errors with Azure OpenAI. Convert to 32 to allow
-    // at least a brief acknowledgment or the start of a tool call.
-    const maxTokens = anthropicRequest.max_tokens === 1 ? 32 : anthropicRequest.max_tokens;
-
     const openaiRequest: OpenAIChatRequest = {
         model: targetModel,
         messages,
         stream: anthropicRequest.stream,
     };
 
-    if (isAzureOpenAI) {
-        openaiRequest.max_completion_tokens = maxTokens;
-    } else {
-        openaiRequest.max_tokens = maxTokens;
-    }
+    // Keep max_tokens within what the provider accepts
+    const maxTokens = Math.min(Math.max(anthropicRequest.max_tokens, capabilities.minOutputTokens), capabilities.maxOutputTokens);
+    openaiRequest[capabilities.tokenParam] = maxTokens;
 
     // specific handling for streaming requests to include usage data
-    if (anthropicRequest.stream) {
+    if (anthropicRequest.stream && capabilities.streamOptions) {
         openaiRequest.stream_options = { include_usage: true };
     }
 
     // Optional parameters
-    if (anthropicRequest.temperature !== undefined) {
-        openaiRequest.temperature = anthropicRequest.temperature;
+    applySamplingParams(openaiRequest, anthropicRequest, toolFormat, capabilities);
+    const { upstream: stop } = splitStopSequences(anthropicRequest.stop_sequences, capabilities.maxStopSequences);
+    if (stop.length > 0) {
+        openaiRequest.stop = stop;
     }
-
-    // XML mode: Force temperature=0 for deterministic output
-    if (toolFormat === 'xml') {
-        openaiRequest.temperature = 0;
+    if (anthropicRequest.thinking) {
+        applyThinkingConfig(openaiRequest, anthropicRequest.thinking, options.thinking?.format ?? capabilities.thinkingFormat);
     }
-    if (anthropicRequest.top_p !== undefined) {
-        openaiRequest.top_p = anthropicRequest.top_p;
+    // Providers that reject unknown parameters (e.g., Mistral) do not get `user`
+    if (capabilities.userField && anthropicRequest.metadata?.user_id) {
+        openaiRequest.user = anthropicRequest.metadata.user_id;
     }
-    if (anthropicRequest.stop_sequences) {
-        openaiRequest.stop = anthropicRequest.stop_sequences;
-    }
-    // Note: metadata.user_id is intentionally NOT mapped to OpenAI's 'user' field
-    // because some providers (e.g., Mistral) strictly reject unsupported parameters
 
     // Convert tools (only in native mode)
     if (toolFormat === 'native' && anthropicRequest.tools && anthropicRequest.tools.length > 0) {
         openaiRequest.tools = convertToolsToOpenAI(anthropicRequest.tools);
+        if (anthropicRequest.tool_choice?.disable_parallel_tool_use && capabilities.parallelToolCalls) {
+            openaiRequest.parallel_tool_calls = false;
+        }
     }
     if (toolFormat === 'native' && anthropicRequest.tool_choice) {
         openaiRequest.tool_choice = convertToolChoiceToOpenAI(anthropicRequest.tool_choice);
@@ -156,12 +183,128 @@ export function convertRequestToOpenAI(
     return openaiRequest;
 }
 
+/**
+ * Options for the deprecated `isAzureOpenAI` argument, which only chose the token parameter
+ */
+function withLegacyAzureCapabilities(isAzureOpenAI: boolean, options: RequestConversionOptions): RequestConversionOptions {
+    if (!isAzureOpenAI || options.capabilities) return options;
+    return { ...options, capabilities: { ...DEFAULT_CAPABILITIES, tokenParam: 'max_completion_tokens' } };
+}
+
+/**
+ * Map sampling parameters onto what the provider accepts, dropping those it rejects
+ */
+function applySamplingParams(
+    openaiRequest: OpenAIChatRequest,
+    anthropicRequest: AnthropicMessageRequest,
+    toolFormat: 'native' | 'xml',
+    capabilities: ResolvedCapabilities
+): void {
+    const temperature = toolFormat === 'xml' ? XML_MODE_TEMPERATURE : anthropicRequest.temperature;
+    if (temperature !== undefined && capabilities.temperatureRange) {
+        const [min, max] = capabilities.temperatureRange;
+        openaiRequest.temperature = Math.min(Math.max(temperature * capabilities.temperatureScale, min), max);
+    }
+    if (anthropicRequest.top_p !== undefined && capabilities.topP) {
+        openaiRequest.top_p = anthropicRequest.top_p;
+    }
+    if (anthropicRequest.top_k !== undefined && capabilities.topK) {
+        openaiRequest.top_k = anthropicRequest.top_k;
+    }
+}
+
+/**
+ * Send the system prompt in the role the provider accepts
+ */
+function applySystemRole(messages: OpenAIMessage[], role: ResolvedCapabilities['systemRole']): void {
+    const system = messages[0];
+    if (system?.role !== 'system' || role === 'system') return;
+
+    if (role === 'developer') {
+        messages[0] = { role: 'developer', content: system.content };
+        return;
+    }
+
+    // No system role: the prompt leads the first user message instead
+    messages.shift();
+    const firstUser = messages.find(message => message.role === 'user');
+    if (!firstUser) {
+        messages.unshift({ role: 'user', content: system.content });
+    } else if (typeof firstUser.content === 'string') {
+        firstUser.content = `${system.content}\n\n${firstUser.content}`;
+    } else {
+        firstUser.content = [{ type: 'text', text: `${system.content}\n\n` }, ...firstUser.content];
+    }
+}
+
+/**
+ * Replace image parts with text placeholders for providers without image input
+ */
+function replaceImages(messages: OpenAIMessage[]): void {
+    for (const message of messages) {
+        if (message.role !== 'user' || typeof message.content === 'string') continue;
+
+        message.content = message.content
+            .map(part => (part.type === 'text' ? part.text : createImagePlaceholder(part, 'this model does not accept images')))
+            .join('');
+    }
+}
+
+/**
+ * Translate the Anthropic thinking parameter into the provider's reasoning controls
+ */
+function applyThinkingConfig(
+    openaiRequest: OpenAIChatRequest,
+    thinking: AnthropicThinkingConfig,
+    format: NonNullable<ThinkingConfig['format']>
+): void {
+    // Adaptive or unknown types leave the provider's default in place
+    if (thinking.type !== 'enabled' && thinking.type !== 'disabled') return;
+
+    const enabled = thinking.type === 'enabled';
+    const budget = thinking.type === 'enabled' ? thinking.budget_tokens : 0;
+
+    switch (format) {
+        case 'reasoning_effort':
+            if (enabled) {
+                openaiRequest.reasoning_effort = mapBudgetToEffort(budget);
+            }
+            break;
+        case 'openrouter':
+            if (enabled) {
+                openaiRequest.reasoning = { max_tokens: budget };
+            }
+            break;
+        case 'qwen':
+            openaiRequest.enable_thinking = enabled;
+            if (enabled) {
+                openaiRequest.thinking_budget = budget;
+            }
+            break;
+        case 'thinking':
+            openaiRequest.thinking = { type: enabled ? 'enabled' : 'disabled' };
+            break;
+        case 'none':
+        default:
+            break;
+    }
+}
+
+/**
+ * Bucket a thinking token budget into an OpenAI reasoning effort level
+ */
+function mapBudgetToEffort(budgetTokens: number): OpenAIReasoningEffort {
+    if (budgetTokens < LOW_EFFORT_BUDGET_LIMIT) return 'low';
+    if (budgetTokens < MEDIUM_EFFORT_BUDGET_LIMIT) return 'medium';
+    return 'high';
+}
+
 /**
  * Check if content is an assistant prefill token (JSON starter)
  * Anthropic supports prefilling assistant responses, but other providers don't
  */
-function isAssistantPrefill(content: string): boolean {
-    const prefillTokens = ['{', '[', '```', '{"', '[{', '<', '<tool_code', '<tool_code>'];
+function isAssistantPrefill(content: string, dialect: ToolDialect): boolean {
+    const prefillTokens = ['{', '[', '```', '{"', '[{', '<'];
     const trimmed = content.trim();
 
     // Check against common prefill tokens or very short content
@@ -170,11 +313,12 @@ function isAssistantPrefill(content: string): boolean {
     }
 
     // Special handling for XML tool calling prefill:
-    // Capture cases where client prefills the opening tag (e.g., '<tool_code name="foo">')
+    // Capture cases where client prefills the dialect's opening marker (e.g., '<tool_code name="foo">')
     // but expects the model to complete it. We must strip this so the model generates
-    // the tool call from scratch, ensuring the streaming parser detects the full tag.
-    if (trimmed.startsWith('<tool_code') && !trimmed.includes('</tool_code>')) {
-        return true;
+    // the tool call from scratch, ensuring the streaming parser detects the full call.
+    if (trimmed.startsWith(dialect.callOpen)) {
+        const rest = trimmed.slice(dialect.callOpen.length);
+        return !dialect.callClose || !rest.includes(dialect.callClose);
     }
 
     return false;
@@ -196,7 +340,9 @@ interface IdDeduplicationContext {
 function convertMessage(
     msg: AnthropicMessage,
     ctx: IdDeduplicationContext,
-    toolFormat: 'native' | 'xml'
+    toolFormat: 'native' | 'xml',
+    dialect: ToolDialect,
+    reinjectThinking = false
 ): OpenAIMessage[] {
     const result: OpenAIMessage[] = [];
 
@@ -216,7 +362,7 @@ function convertMessage(
             // These are Anthropic-specific and cause 400 errors with other providers.
             // Note: unknown roles also fall into this branch and are treated as assistant
             // for forward compatibility when Claude Code introduces new message types.
-            if (isAssistantPrefill(msg.content)) {
+            if (isAssistantPrefill(msg.content, dialect)) {
                 return result; // Return empty - skip this message
             }
             result.push({ role: 'assistant', content: msg.content });
@@ -230,22 +376,24 @@ function convertMessage(
                 // XML Mode: Flatten tool results into the user message text
                 const contentParts: string[] = [];
 
-                // Add regular user text
+                // Add regular user text. Images cannot be embedded in the flattened
+                // string, so they are replaced with a text placeholder.
                 for (const part of userContent) {
                     if (part.type === 'text') {
                         contentParts.push(part.text);
+                    } else {
+                        contentParts.push(createXmlImagePlaceholder(part));
                     }
-                    // Images sent as text in XML mode (fallback) or omitted if not supported
-                    // For now, we only handle text
                 }
 
                 let flatContent = contentParts.join('');
 
-                // Add tool results as XML blocks
+                // Add tool results in the dialect's format (images become placeholders)
                 if (toolResults.length > 0) {
-                    const xmlResults = toolResults.map(t =>
-                        `<tool_output>\n${t.content}\n</tool_output>`
-                    ).join('\n\n');
+                    const xmlResults = dialect.formatToolResults(toolResults.map(t => {
+                        const parts = [t.message.content, ...t.images.map(createXmlImagePlaceholder)];
+                        return parts.filter(p => p.length > 0).join('\n');
+                    }));
 
                     if (flatContent) flatContent += '\n\n';
                     flatContent += xmlResults;
@@ -257,7 +405,15 @@ function convertMessage(
             } else {
                 // Native Mode: Standard separation
                 // Add tool results as separate tool messages
-                result.push(...toolResults);
+                result.push(...toolResults.map(t => t.message));
+
+                // OpenAI tool messages only accept strings, so images returned by tools
+                // are forwarded in a synthetic user message placed after all tool
+                // messages (keeping every tool_call_id directly after its tool call)
+                const toolImageContent = createToolResultImageContent(toolResults);
+                if (toolImageContent.length > 0) {
+                    result.push({ role: 'user', content: toolImageContent });
+                }
 
                 // Add user content if any
                 if (userContent.length > 0) {
@@ -273,22 +429,22 @@ function convertMessage(
             // Assistant message with content blocks
             // Note: We still use processAssistantContentBlocks for deduplication logic, 
             // even if we don't use the tool_calls output in XML mode (to keep state consistent)
-            const { textContent, toolCalls } = processAssistantContentBlocks(msg.content, ctx);
+            const { textContent, thinkingContent, toolCalls } = processAssistantContentBlocks(msg.content, ctx);
+            const thinking = reinjectThinking ? thinkingContent : '';
 
             // Skip assistant prefill messages when content is just a JSON starter
-            if (toolCalls.length === 0 && textContent && isAssistantPrefill(textContent)) {
+            if (toolCalls.length === 0 && textContent && isAssistantPrefill(textContent, dialect)) {
                 return result; // Return empty - skip this message
             }
 
             if (toolFormat === 'xml') {
-                // XML Mode: Reconstruct XML tags from tool calls
-                let fullContent = textContent || '';
+                // XML Mode: Reconstruct tool calls in the dialect's format
+                // Re-injected thinking uses the inline <think> format of reasoning models
+                let fullContent = thinking ? `<think>\n${thinking}\n</think>\n\n` : '';
+                fullContent += textContent || '';
 
                 if (toolCalls.length > 0) {
-                    const xmlToolCalls = toolCalls.map(tc => {
-                        const args = tc.function.arguments;
-                        return `<tool_code name="${tc.function.name}">\n${args}\n</tool_code>`;
-                    }).join('\n\n');
+                    const xmlToolCalls = dialect.formatToolCalls(toolCalls.map(tc => tc.function));
 
                     if (fullContent) fullContent += '\n\n';
                     fullContent += xmlToolCalls;
@@ -308,6 +464,9 @@ function convertMessage(
                 if (toolCalls.length > 0) {
                     (assistantMsg as any).tool_calls = toolCalls;
                 }
+                if (thinking) {
+                    (assistantMsg as any).reasoning_content = thinking;
+                }
 
                 result.push(assistantMsg);
             }
@@ -317,6 +476,31 @@ function convertMessage(
     return result;
 }
 
+/**
+ * A converted tool_result block: the tool message plus any images it returned
+ */
+interface ConvertedToolResult {
+    message: OpenAIToolMessage;
+    images: OpenAIImageContentPart[];
+}
+
+/**
+ * Build the content of the synthetic user message carrying tool result images.
+ * Each group of images is labelled with the tool call it belongs to.
+ */
+function createToolResultImageContent(toolResults: ConvertedToolResult[]): OpenAIUserContentPart[] {
+    const content: OpenAIUserContentPart[] = [];
+
+    for (const { message, images } of toolResults) {
+        if (images.length === 0) continue;
+
+        content.push({ type: 'text', text: `Images returned by tool call ${message.tool_call_id}:` });
+        content.push(...images);
+    }
+
+    return content;
+}
+
 /**
  * Process user content blocks, separating tool results from regular content
  */
@@ -325,17 +509,20 @@ function processUserContentBlocks(
     ctx: IdDeduplicationContext
 ): {
     userContent: OpenAIUserContentPart[];
-    toolResults: OpenAIToolMessage[];
+    toolResults: ConvertedToolResult[];
 } {
     const userContent: OpenAIUserContentPart[] = [];
-    const toolResults: OpenAIToolMessage[] = [];
+    const toolResults: ConvertedToolResult[] = [];
 
     for (const block of blocks) {
         if (block.type === 'text') {
             userContent.push({ type: 'text', text: block.text });
+        } else if (block.type === 'image') {
+            userContent.push(convertImageBlock(block as AnthropicImageBlock));
         } else if (block.type === 'tool_result') {
             const toolResult = block as AnthropicToolResultBlock;
             let content: string;
+            let images: OpenAIImageContentPart[] = [];
 
             if (typeof toolResult.content === 'string') {
                 content = toolResult.content;
@@ -344,6 +531,15 @@ function processUserContentBlocks(
                     .filter((c): c is { type: 'text'; text: string } => c.type === 'text')
                     .map(c => c.text)
                     .join('\n');
+                images = toolResult.content
+                    .filter((c): c is AnthropicImageBlock => c.type === 'image')
+                    .map(convertImageBlock);
+
+                // Some providers reject empty tool messages, so image-only results
+                // point the model at the images that follow
+                if (!content && images.length > 0) {
+                    content = `[${images.length} image(s) returned; see the following message]`;
+                }
             } else {
                 content = '';
             }
@@ -360,19 +556,49 @@ function processUserContentBlocks(
             }
 
             toolResults.push({
-                role: 'tool',
-                tool_call_id: toolCallId,
-                content: toolResult.is_error ? `Error: ${content}` : content,
+                message: {
+                    role: 'tool',
+                    tool_call_id: toolCallId,
+                    content: toolResult.is_error ? `Error: ${content}` : content,
+                },
+                images,
             });
         }
-        // Images would need special handling for vision models - not implemented here
     }
 
     return { userContent, toolResults };
 }
 
 /**
- * Process assistant content blocks, extracting text and tool calls
+ * Convert an Anthropic image block to an OpenAI image_url content part.
+ * Base64 sources become data URLs; URL sources are passed through unchanged.
+ */
+function convertImageBlock(block: AnthropicImageBlock): OpenAIImageContentPart {
+    const url = block.source.type === 'base64'
+        ? `data:${block.source.media_type};base64,${block.source.data}`
+        : block.source.url;
+
+    return { type: 'image_url', image_url: { url } };
+}
+
+/**
+ * Build the text placeholder used for images in XML mode.
+ * XML mode flattens user content into a single string, so images are not
+ * forwarded; the placeholder tells the model an image was attached.
+ */
+function createXmlImagePlaceholder(part: OpenAIImageContentPart): string {
+    return createImagePlaceholder(part, 'images are not supported in XML tool mode');
+}
+
+function createImagePlaceholder(part: OpenAIImageContentPart, reason: string): string {
+    const url = part.image_url.url;
+    const match = url.match(/^data:([^;]+);base64,/);
+    const label = match ? match[1] : url;
+    return `[Image omitted (${label}): ${reason}]`;
+}
+
+/**
+ * Process assistant content blocks, extracting text, thinking and tool calls
  * Deduplicates tool IDs to prevent errors with providers that reject duplicates
  */
 function processAssistantContentBlocks(
@@ -380,14 +606,18 @@ function processAssistantContentBlocks(
     ctx: IdDeduplicationContext
 ): {
     textContent: string;
+    thinkingContent: string;
     toolCalls: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
 } {
     let textContent = '';
+    let thinkingContent = '';
     const toolCalls: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }> = [];
 
     for (const block of blocks) {
         if (block.type === 'text') {
             textContent += block.text;
+        } else if (block.type === 'thinking') {
+            thinkingContent += block.thinking;
         } else if (block.type === 'tool_use') {
             const toolUse = block as AnthropicToolUseBlock;
             let idToUse = toolUse.id;
@@ -432,5 +662,5 @@ function processAssistantContentBlocks(
         }
     }
 
-    return { textContent, toolCalls };
+    return { textContent, thinkingContent, toolCalls };
 }
@@ -2,43 +2,103 @@
 import {
     AnthropicMessageResponse,
     AnthropicContentBlock,
+    AnthropicStopReason,
     AnthropicUsage,
 } from '../types/anthropic';
 import {
     OpenAIChatResponse,
     OpenAIToolCall,
 } from '../types/openai';
+import { extractThinkTags, ThinkTagMode } from './thinkTags';
+import { getErrorTypeForStatus } from './errors';
+import { logToolArgumentRepairs, repairJson } from './jsonRepair';
+import { detectStopSequence, StopSequenceScanner } from './stopSequences';
+
+/**
+ * Signature attached to thinking blocks. Upstream providers do not sign their
+ * reasoning, but Claude Code expects every thinking block to carry a signature.
+ */
+export const THINKING_SIGNATURE_PLACEHOLDER = 'claude-adapter-unsigned-thinking';
+
+/**
+ * Extract reasoning text from a message or stream delta.
+ * Providers use either `reasoning_content` or `reasoning` for the same data.
+ */
+export function extractReasoning(source: {
+    reasoning_content?: string | null;
+    reasoning?: string | null;
+}): string {
+    return source.reasoning_content || source.reasoning || '';
+}
+
+/**
+ * Optional settings for response conversion
+ */
+export interface ResponseConversionOptions {
+    thinkTags?: ThinkTagMode;  // Default: 'thinking'
+    stopSequences?: string[];  // The request's stop_sequences, to report which one matched
+    localStopSequences?: string[];  // Stop sequences not sent upstream; output is cut at the first one
+}
 
 /**
  * Convert OpenAI Chat Completion response to Anthropic Messages format
  */
 export function convertResponseToAnthropic(
     openaiResponse: OpenAIChatResponse,
-    originalModelRequested: string
+    originalModelRequested: string,
+    options: ResponseConversionOptions = {}
 ): AnthropicMessageResponse {
     const choice = openaiResponse.choices[0];
     const message = choice.message;
+    const thinkTags = options.thinkTags ?? 'thinking';
 
     // Build content blocks
     const content: AnthropicContentBlock[] = [];
 
+    // Generation would have ended at a stop sequence the provider was not sent, tool calls included
+    const localStop = new StopSequenceScanner(options.localStopSequences ?? []).push(message.content ?? '');
+    const toolCalls = localStop.matched === null ? message.tool_calls ?? [] : [];
+
+    // Separate inline <think> reasoning from the visible answer
+    let text = localStop.matched === null ? message.content : localStop.text;
+    let inlineThinking = '';
+    if (text && thinkTags !== 'text' && /<\/?think>/.test(text)) {
+        const extracted = extractThinkTags(text);
+        text = extracted.text;
+        inlineThinking = thinkTags === 'thinking' ? extracted.thinking : '';
+    }
+
+    // Add reasoning as a thinking block first, as Claude models do
+    const reasoning = [extractReasoning(message), inlineThinking].filter(Boolean).join('\n\n');
+    if (reasoning) {
+        content.push({
+            type: 'thinking',
+            thinking: reasoning,
+            signature: THINKING_SIGNATURE_PLACEHOLDER,
+        });
+    }
+
     // Add text content if present
-    if (message.content) {
+    if (text) {
         content.push({
             type: 'text',
-            text: message.content,
+            text,
         });
     }
 
     // Add tool use blocks if present
-    if (message.tool_calls && message.tool_calls.length > 0) {
-        for (const toolCall of message.tool_calls) {
-            content.push(convertToolCallToToolUse(toolCall));
-        }
+    for (const toolCall of toolCalls) {
+        content.push(convertToolCallToToolUse(toolCall));
     }
 
-    // Map finish reason
-    const stopReason = mapFinishReason(choice.finish_reason);
+    // Map finish reason, telling a matched stop sequence apart from a natural end
+    let stopReason = mapFinishReason(choice.finish_reason, toolCalls.length > 0);
+    const stopSequence = localStop.matched ?? (choice.finish_reason === 'stop' && toolCalls.length === 0
+        ? detectStopSequence(options.stopSequences, choice)
+        : null);
+    if (stopSequence !== null) {
+        stopReason = 'stop_sequence';
+    }
 
     // Build usage
     const usage: AnthropicUsage = {
@@ -54,7 +114,7 @@ export function convertResponseToAnthropic(
         content,
         model: originalModelRequested,
         stop_reason: stopReason,
-        stop_sequence: null,
+        stop_sequence: stopSequence,
         usage,
     };
 }
@@ -63,11 +123,19 @@ export function convertResponseToAnthropic(
  * Convert OpenAI tool call to Anthropic tool_use block
  */
 function convertToolCallToToolUse(toolCall: OpenAIToolCall): AnthropicContentBlock {
+    const args = toolCall.function.arguments;
     let input: Record<string, unknown>;
     try {
-        input = JSON.parse(toolCall.function.arguments);
+        input = args.trim() ? JSON.parse(args) : {};
     } catch {
-        input = { raw: toolCall.function.arguments };
+        // Models often produce almost-JSON; only give up on what cannot be repaired
+        const { json, repairs } = repairJson(args);
+        try {
+            input = JSON.parse(json);
+            logToolArgumentRepairs(toolCall.function.name, repairs);
+        } catch {
+            input = { raw: args };
+        }
     }
 
     return {
@@ -79,24 +147,17 @@ function convertToolCallToToolUse(toolCall: OpenAIToolCall): AnthropicContentBlo
 }
 
 /**
- * Map OpenAI finish_reason to Anthropic stop_reason
+ * Map OpenAI finish_reason to Anthropic stop_reason, for both streaming and non-streaming responses
  */
-function mapFinishReason(
-    finishReason: string | null
-): 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | null {
-    if (!finishReason) return null;
-
+export function mapFinishReason(finishReason: string | null | undefined, hasToolUse: boolean): AnthropicStopReason {
     switch (finishReason) {
-        case 'stop':
-            return 'end_turn';
         case 'length':
             return 'max_tokens';
-        case 'tool_calls':
-            return 'tool_use';
         case 'content_filter':
-            return 'end_turn'; // Map to end_turn as closest equivalent
+            return 'refusal';
         default:
-            return 'end_turn';
+            // Providers (and XML mode) may report 'stop' for tool calls, so the content decides
+            return hasToolUse ? 'tool_use' : 'end_turn';
     }
 }
 
@@ -109,27 +170,9 @@ export function createErrorResponse(
 ): { error: { type: string; message: string }; status: number } {
     return {
         error: {
-            type: mapErrorType(statusCode),
+            type: getErrorTypeForStatus(statusCode),
             message: error.message,
         },
         status: statusCode,
     };
 }
-
-function mapErrorType(statusCode: number): string {
-    switch (statusCode) {
-        case 400:
-            return 'invalid_request_error';
-        case 401:
-            return 'authentication_error';
-        case 403:
-            return 'permission_error';
-        case 404:
-            return 'not_found_error';
-        case 429:
-            return 'rate_limit_error';
-        case 500:
-        default:
-            return 'api_error';
-    }
-}
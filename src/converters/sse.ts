@@ -0,0 +1,259 @@
+// Anthropic SSE writer shared by the streaming converters
+import {
+    AnthropicContentBlockDeltaEvent,
+    AnthropicMessageDeltaEvent,
+    AnthropicStreamEvent,
+} from '../types/anthropic';
+import { translateError } from './errors';
+
+// Default time between keepalive pings
+export const DEFAULT_PING_INTERVAL_MS = 10000;
+
+export type StreamBlockType = 'text' | 'thinking' | 'tool_use';
+
+export type StreamDelta = AnthropicContentBlockDeltaEvent['delta'];
+
+export type StopReason = AnthropicMessageDeltaEvent['delta']['stop_reason'];
+
+export interface StreamUsage {
+    inputTokens: number;
+    outputTokens: number;
+    cachedInputTokens: number;
+}
+
+// The block type each delta type may be sent to
+const DELTA_BLOCK_TYPES: Record<StreamDelta['type'], StreamBlockType> = {
+    text_delta: 'text',
+    thinking_delta: 'thinking',
+    signature_delta: 'thinking',
+    input_json_delta: 'tool_use',
+};
+
+type WriterPhase = 'idle' | 'streaming' | 'finished';
+
+/**
+ * Writes one Anthropic message as Server-Sent Events.
+ *
+ * Block indexes are allocated here, so converters never compute them. The event
+ * grammar is enforced: message_start comes first, one block is open at a time,
+ * deltas only go to the open block of a matching type, every started block is
+ * stopped exactly once before the next starts, and nothing but the final
+ * message_delta/message_stop (or an error) follows. A violation throws instead of sending Claude Code a stream it cannot parse.
+ *
+ * Writes report backpressure through `raw.write`; converters await `drain()`
+ * between upstream chunks so a slow client slows down reading from the upstream.
+ */
+export class AnthropicSseWriter {
+    private phase: WriterPhase = 'idle';
+    private nextIndex = 0;
+    private openBlocks = new Map<number, StreamBlockType>();
+    private backpressure = false;
+
+    constructor(private raw: any) {}
+
+    /**
+     * Set the SSE headers and send message_start. Called before the first upstream
+     * chunk arrives, so the input token count is the local estimate; the real count
+     * follows in message_delta.
+     */
+    start(messageId: string, model: string, inputTokens: number): void {
+        if (this.phase !== 'idle') {
+            throw new Error('message_start has already been sent');
+        }
+
+        this.raw.setHeader('Content-Type', 'text/event-stream');
+        this.raw.setHeader('Cache-Control', 'no-cache');
+        this.raw.setHeader('Connection', 'keep-alive');
+        this.raw.setHeader('X-Accel-Buffering', 'no');
+
+        this.phase = 'streaming';
+        this.send({
+            type: 'message_start',
+            message: {
+                id: messageId,
+                type: 'message',
+                role: 'assistant',
+                content: [],
+                model,
+                stop_reason: null,
+                stop_sequence: null,
+                usage: {
+                    input_tokens: inputTokens,
+                    output_tokens: 0,
+                },
+            },
+        });
+    }
+
+    /**
+     * Start a content block, returning its index. Blocks are sequential, so the
+     * previous block must be stopped first.
+     */
+    startBlock(type: 'text' | 'thinking'): number;
+    startBlock(type: 'tool_use', id: string, name: string): number;
+    startBlock(type: StreamBlockType, id?: string, name?: string): number {
+        this.assertStreaming('content_block_start');
+        if (this.openBlocks.size > 0) {
+            const [openIndex, openType] = [...this.openBlocks][0];
+            throw new Error(`content_block_start while ${openType} block ${openIndex} is still open`);
+        }
+
+        const index = this.nextIndex++;
+        this.openBlocks.set(index, type);
+
+        let contentBlock: any;
+        if (type === 'text') {
+            contentBlock = { type: 'text', text: '' };
+        } else if (type === 'thinking') {
+            contentBlock = { type: 'thinking', thinking: '' };
+        } else {
+            contentBlock = { type: 'tool_use', id, name, input: {} };
+        }
+
+        this.send({ type: 'content_block_start', index, content_block: contentBlock });
+        return index;
+    }
+
+    /**
+     * Send a delta to an open block
+     */
+    delta(index: number, delta: StreamDelta): void {
+        this.assertStreaming('content_block_delta');
+
+        const blockType = this.openBlocks.get(index);
+        if (blockType === undefined) {
+            throw new Error(`content_block_delta for block ${index}, which is not open`);
+        }
+        if (DELTA_BLOCK_TYPES[delta.type] !== blockType) {
+            throw new Error(`${delta.type} sent to ${blockType} block ${index}`);
+        }
+
+        this.send({ type: 'content_block_delta', index, delta });
+    }
+
+    /**
+     * Stop an open block
+     */
+    stopBlock(index: number): void {
+        this.assertStreaming('content_block_stop');
+
+        if (!this.openBlocks.delete(index)) {
+            throw new Error(`content_block_stop for block ${index}, which is not open`);
+        }
+
+        this.send({ type: 'content_block_stop', index });
+    }
+
+    isOpen(index: number): boolean {
+        return this.openBlocks.has(index);
+    }
+
+    /**
+     * Stop any blocks still open, then send message_delta and message_stop and end the response
+     */
+    finish(stopReason: StopReason, usage: StreamUsage, stopSequence: string | null = null): void {
+        this.assertStreaming('message_delta');
+
+        for (const index of [...this.openBlocks.keys()].sort((a, b) => a - b)) {
+            this.stopBlock(index);
+        }
+
+        this.send({
+            type: 'message_delta',
+            delta: {
+                stop_reason: stopReason,
+                stop_sequence: stopSequence,
+            },
+            usage: {
+                input_tokens: usage.inputTokens,
+                output_tokens: usage.outputTokens,
+                cache_read_input_tokens: usage.cachedInputTokens,
+            },
+        });
+        this.send({ type: 'message_stop' });
+
+        this.phase = 'finished';
+        this.raw.end();
+    }
+
+    /**
+     * Send an upstream failure as an Anthropic error event and end the response
+     */
+    error(error: Error): void {
+        if (this.phase === 'finished') {
+            throw new Error('error event after the message has finished');
+        }
+
+        const { type, message } = translateError(error);
+        this.send({ type: 'error', error: { type, message } });
+
+        this.phase = 'finished';
+        this.raw.end();
+    }
+
+    /**
+     * Send a keepalive ping; skipped once the response is over
+     */
+    ping(): void {
+        if (this.phase === 'finished' || this.isClosed()) return;
+        this.send({ type: 'ping' });
+    }
+
+    /**
+     * Send `ping` events at a fixed interval so slow upstreams (e.g. reasoning models
+     * thinking silently) don't leave the connection idle long enough for the client
+     * or an intermediary to time out. Returns a function that stops the pings.
+     */
+    startPings(intervalMs: number = DEFAULT_PING_INTERVAL_MS): () => void {
+        if (intervalMs <= 0) {
+            return () => {};
+        }
+
+        const timer = setInterval(() => this.ping(), intervalMs);
+
+        // Never keep the process alive just to ping
+        timer.unref?.();
+
+        return () => clearInterval(timer);
+    }
+
+    /**
+     * Resolve once the client has taken the buffered output (or gone away)
+     */
+    async drain(): Promise<void> {
+        if (!this.backpressure) return;
+        this.backpressure = false;
+        if (this.isClosed() || typeof this.raw.once !== 'function') return;
+
+        await new Promise<void>(resolve => {
+            const done = () => {
+                this.raw.removeListener('drain', done);
+                this.raw.removeListener('close', done);
+                resolve();
+            };
+            this.raw.once('drain', done);
+            this.raw.once('close', done);
+        });
+    }
+
+    private assertStreaming(eventType: string): void {
+        if (this.phase === 'idle') {
+            throw new Error(`${eventType} before message_start`);
+        }
+        if (this.phase === 'finished') {
+            throw new Error(`${eventType} after the message has finished`);
+        }
+    }
+
+    private isClosed(): boolean {
+        return Boolean(this.raw.writableEnded || this.raw.destroyed);
+    }
+
+    private send(event: AnthropicStreamEvent): void {
+        const eventOk = this.raw.write(`event: ${event.type}\n`);
+        const dataOk = this.raw.write(`data: ${JSON.stringify(event)}\n\n`);
+        if (eventOk === false || dataOk === false) {
+            this.backpressure = true;
+        }
+    }
+}
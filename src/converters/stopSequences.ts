@@ -0,0 +1,113 @@
+// Stop sequence detection: which of the request's stop_sequences ended generation
+// OpenAI's finish_reason is just 'stop' either way, so the matched sequence has to be
+// read from provider extensions, or found locally for sequences the provider was not sent.
+
+// Entries OpenAI accepts in `stop`; any further sequences are enforced locally
+export const DEFAULT_MAX_STOP_SEQUENCES = 4;
+
+/**
+ * Fields some providers add to a choice to name the stop that ended generation:
+ * vLLM `stop_reason` and SGLang `matched_stop`. Numbers are stop token IDs.
+ */
+export interface ProviderStopFields {
+    stop_reason?: string | number | null;
+    matched_stop?: string | number | null;
+}
+
+/**
+ * The stop sequence that ended a response with finish_reason 'stop', or null for a natural end.
+ * Only provider fields are trusted: text that merely ends like a sequence is not proof of a match.
+ */
+export function detectStopSequence(
+    stopSequences: string[] | undefined,
+    fields: ProviderStopFields | undefined
+): string | null {
+    if (!stopSequences?.length) return null;
+
+    for (const value of [fields?.matched_stop, fields?.stop_reason]) {
+        if (typeof value === 'string' && stopSequences.includes(value)) {
+            return value;
+        }
+    }
+    return null;
+}
+
+/**
+ * Split stop sequences into those sent upstream and those enforced locally
+ */
+export function splitStopSequences(stopSequences: string[] | undefined, maxUpstream: number): { upstream: string[]; local: string[] } {
+    const sequences = stopSequences ?? [];
+    return {
+        upstream: sequences.slice(0, maxUpstream),
+        local: sequences.slice(maxUpstream),
+    };
+}
+
+/**
+ * Enforces stop sequences the provider was not sent by scanning the generated text.
+ * Text that could be the start of a sequence is held back until the next chunk decides it.
+ */
+export class StopSequenceScanner {
+    private sequences: string[];
+    private held = '';
+
+    constructor(sequences: string[]) {
+        this.sequences = sequences.filter(sequence => sequence.length > 0);
+    }
+
+    /**
+     * Feed a chunk, returning the text that is now safe to emit and the sequence
+     * that matched, if any. Nothing after a match should be emitted.
+     */
+    push(chunk: string): { text: string; matched: string | null } {
+        const buffer = this.held + chunk;
+        this.held = '';
+
+        // Generation stops at the first sequence to be completed, so compare end positions
+        let matched: string | null = null;
+        let matchStart = 0;
+        let matchEnd = Infinity;
+        for (const sequence of this.sequences) {
+            const start = buffer.indexOf(sequence);
+            if (start === -1) continue;
+            const end = start + sequence.length;
+            if (end < matchEnd || (end === matchEnd && start < matchStart)) {
+                matched = sequence;
+                matchStart = start;
+                matchEnd = end;
+            }
+        }
+        if (matched !== null) {
+            return { text: buffer.slice(0, matchStart), matched };
+        }
+
+        const keep = this.partialMatchLength(buffer);
+        this.held = buffer.slice(buffer.length - keep);
+        return { text: buffer.slice(0, buffer.length - keep), matched: null };
+    }
+
+    /**
+     * End of input: release the held text
+     */
+    flush(): string {
+        const text = this.held;
+        this.held = '';
+        return text;
+    }
+
+    /**
+     * Length of the longest end of the buffer that is the start of a sequence
+     */
+    private partialMatchLength(buffer: string): number {
+        let longest = 0;
+        for (const sequence of this.sequences) {
+            for (let length = Math.min(sequence.length - 1, buffer.length); length > longest; length--) {
+                if (buffer.endsWith(sequence.slice(0, length))) {
+                    longest = length;
+                    break;
+                }
+            }
+        }
+        return longest;
+    }
+}
@@ -3,12 +3,21 @@ import { FastifyReply } from 'fastify';
 import { Stream } from 'openai/streaming';
 import {
     AnthropicMessageResponse,
+    AnthropicStopReason,
     AnthropicUsage,
 } from '../types/anthropic';
-import { OpenAIStreamChunk, OpenAIStreamToolCall } from '../types/openai';
-import { generateToolUseId } from './tools';
+import { OpenAIMessage, OpenAIStreamChunk, OpenAIStreamToolCall } from '../types/openai';
+import { ToolDialectName } from '../types/config';
+import { extractReasoning, mapFinishReason, THINKING_SIGNATURE_PLACEHOLDER } from './response';
+import { ThinkTagMode, ThinkTagParser, ThinkTagSegment } from './thinkTags';
+import { AnthropicSseWriter, StreamUsage } from './sse';
+import { JsonRepairStream, logToolArgumentRepairs } from './jsonRepair';
+import { buildNativeFollowUp, formatValidationFailure, StreamToolValidation } from './toolValidation';
+import { detectStopSequence, ProviderStopFields, StopSequenceScanner } from './stopSequences';
 import { recordUsage } from '../utils/tokenUsage';
 import { recordError } from '../utils/errorLog';
+import { estimateTextTokens } from '../utils/tokenCounter';
+import { logger } from '../utils/logger';
 
 // Global counter and set for unique tool IDs within this process
 let toolIdCounter = 0;
@@ -37,24 +46,75 @@ function generateUniqueToolId(): string {
     return id;
 }
 
+interface StreamingToolCall {
+    id: string;
+    name: string;
+    arguments: string;
+    blockIndex: number | null;  // Null until the block starts; validated calls are held until complete
+    repair: JsonRepairStream;  // Arguments are repaired as they stream
+}
+
 interface StreamingState {
     messageId: string;
     model: string;
     responseModel: string;
     provider: string;
-    contentBlockIndex: number;
-    currentToolCalls: Map<number, {
-        id: string;
-        name: string;
-        arguments: string;
-        blockIndex: number;
-    }>;
+    currentToolCalls: Map<number, StreamingToolCall>;
+    toolCallsEmitted: number;
     inputTokens: number;
     outputTokens: number;
     cachedInputTokens: number;
-    hasStarted: boolean;
     textContent: string;
-    textBlockOpen: boolean;
+    textBlockIndex: number | null;  // Index of the open text block
+    thinkingBlockIndex: number | null;  // Index of the open thinking block
+    thinkTags: ThinkTagMode;
+    thinkTagParser: ThinkTagParser;
+    generatedText: string;  // Everything received, for estimating usage of aborted streams
+    toolValidation?: StreamToolValidation;
+    attemptText: string;  // Text of the current upstream request, replayed if it is re-queried
+    followUp: OpenAIMessage[];  // Messages appended by re-queries so far
+    priorUsage: StreamUsage;  // Usage of earlier re-queried upstream requests
+    stopSequences?: string[];
+    finishReason: string | null;
+    providerStop: ProviderStopFields;  // Provider fields naming the matched stop, if any
+    stopScanner: StopSequenceScanner | null;  // Enforces stop sequences the provider was not sent
+    localStop: string | null;  // The locally enforced stop sequence that ended the stream
+}
+
+/**
+ * What a streaming converter knows about how its stream ended
+ */
+interface StreamStopState {
+    toolCallsEmitted: number;
+    finishReason: string | null;
+    stopSequences?: string[];
+    providerStop: ProviderStopFields;
+    localStop: string | null;
+}
+
+/**
+ * Optional settings shared by the streaming converters
+ */
+export interface StreamConversionOptions {
+    thinkTags?: ThinkTagMode;  // Default: 'thinking'
+    implicitThinkOpen?: boolean;  // Output starts inside a <think> block opened by the chat template
+    signal?: AbortSignal;  // Aborted when the client disconnects
+    inputTokens?: number;  // Estimated prompt tokens, reported in message_start
+    pingIntervalMs?: number;  // 0 disables pings; default: DEFAULT_PING_INTERVAL_MS
+    toolDialect?: ToolDialectName;  // XML mode only; default: 'tool_code'
+    toolValidation?: StreamToolValidation;  // Default: tool calls are passed through unchecked
+    stopSequences?: string[];  // The request's stop_sequences, to report which one matched
+    localStopSequences?: string[];  // Stop sequences not sent upstream; output is cut at the first one
+    continuation?: StreamContinuation;  // XML mode only; default: truncated tool calls end the message
+}
+
+/**
+ * Continuation of a tool call cut off by max_tokens. `requery` continues the upstream
+ * request with the follow-up messages appended and returns the new stream.
+ */
+export interface StreamContinuation {
+    maxContinuations: number;
+    requery: (followUp: OpenAIMessage[]) => Promise<AsyncIterable<OpenAIStreamChunk>>;
 }
 
 /**
@@ -64,54 +124,152 @@ export async function streamOpenAIToAnthropic(
     openaiStream: Stream<OpenAIStreamChunk>,
     reply: FastifyReply,
     originalModel: string,
-    provider: string = ''
+    provider: string = '',
+    options: StreamConversionOptions = {}
 ): Promise<void> {
     const state: StreamingState = {
         messageId: `msg_${Date.now().toString(36)}`,
         model: originalModel,
         responseModel: '',
         provider,
-        contentBlockIndex: 0,
         currentToolCalls: new Map(),
+        toolCallsEmitted: 0,
         inputTokens: 0,
         outputTokens: 0,
         cachedInputTokens: 0,
-        hasStarted: false,
         textContent: '',
-        textBlockOpen: false,
+        textBlockIndex: null,
+        thinkingBlockIndex: null,
+        thinkTags: options.thinkTags ?? 'thinking',
+        thinkTagParser: new ThinkTagParser({ implicitOpen: options.implicitThinkOpen }),
+        generatedText: '',
+        toolValidation: options.toolValidation,
+        attemptText: '',
+        followUp: [],
+        priorUsage: { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0 },
+        stopSequences: options.stopSequences,
+        finishReason: null,
+        providerStop: {},
+        stopScanner: options.localStopSequences?.length ? new StopSequenceScanner(options.localStopSequences) : null,
+        localStop: null,
     };
 
-    // Access the underlying Node.js response for SSE streaming
-    const raw = reply.raw;
+    // Write to the underlying Node.js response for SSE streaming
+    const writer = new AnthropicSseWriter(reply.raw);
 
-    // Set SSE headers
-    raw.setHeader('Content-Type', 'text/event-stream');
-    raw.setHeader('Cache-Control', 'no-cache');
-    raw.setHeader('Connection', 'keep-alive');
-    raw.setHeader('X-Accel-Buffering', 'no');
+    // Start the message right away and keep the connection alive until the stream ends
+    writer.start(state.messageId, state.model, options.inputTokens ?? 0);
+    const stopPings = writer.startPings(options.pingIntervalMs);
 
     try {
-        for await (const chunk of openaiStream) {
-            processChunk(chunk, state, raw);
+        let stream: AsyncIterable<OpenAIStreamChunk> = openaiStream;
+        for (;;) {
+            for await (const chunk of stream) {
+                if (options.signal?.aborted) break;
+                state.generatedText += getChunkText(chunk);
+                processChunk(chunk, state, writer);
+                await writer.drain();
+                // Leaving the loop cancels the upstream request
+                if (state.localStop !== null) break;
+            }
+
+            if (options.signal?.aborted) {
+                recordAbortedUsage(state);
+                return;
+            }
+
+            // Emit any text held back by the stop sequence scanner and the think tag parser
+            processContent(state.stopScanner?.flush() ?? '', state, writer);
+            processContentSegments(state.thinkTagParser.flush(), state, writer);
+
+            // Generation ended at the stop sequence, so there is nothing to re-query
+            if (state.localStop !== null) {
+                estimateStoppedUsage(state, options.inputTokens ?? 0);
+                break;
+            }
+
+            // Invalid tool calls may be sent back to the model, continuing the same message
+            const followUp = settleToolCalls(state, writer);
+            if (!followUp) break;
+            stream = await state.toolValidation!.requery(followUp);
         }
 
         // Send final events
-        finishStream(state, raw);
+        finishStream(state, writer);
     } catch (error) {
-        sendErrorEvent(error as Error, state, raw);
+        // The client is gone; there is no one to send the error to
+        if (options.signal?.aborted) {
+            recordAbortedUsage(state);
+            return;
+        }
+        sendErrorEvent(error as Error, state, writer);
+    } finally {
+        stopPings();
     }
 }
 
+/**
+ * Stop reason and matched stop sequence for the end of a stream
+ */
+export function resolveStreamStop(state: StreamStopState): { stopReason: AnthropicStopReason; stopSequence: string | null } {
+    const hasToolUse = state.toolCallsEmitted > 0;
+    const stopSequence = hasToolUse ? null
+        : state.localStop ?? (state.finishReason === 'stop'
+            ? detectStopSequence(state.stopSequences, state.providerStop)
+            : null);
+
+    return {
+        stopReason: stopSequence !== null ? 'stop_sequence' : mapFinishReason(state.finishReason, hasToolUse),
+        stopSequence,
+    };
+}
+
+/**
+ * All generated text in a chunk: content, reasoning and tool call arguments
+ */
+export function getChunkText(chunk: OpenAIStreamChunk): string {
+    const delta = chunk.choices[0]?.delta;
+    if (!delta) return '';
+
+    const toolArguments = delta.tool_calls?.map(toolCall => toolCall.function?.arguments ?? '').join('') ?? '';
+    return (delta.content ?? '') + extractReasoning(delta) + toolArguments;
+}
+
+/**
+ * A stream cancelled at a local stop sequence never gets its usage chunk, so usage is estimated
+ */
+function estimateStoppedUsage(state: StreamingState, estimatedInputTokens: number): void {
+    state.inputTokens = state.inputTokens || estimatedInputTokens;
+    state.outputTokens = Math.max(state.outputTokens, estimateTextTokens(state.generatedText));
+}
+
+/**
+ * Record usage for a stream the client disconnected from.
+ * Providers only report usage in the final chunk, so output is estimated from what was received.
+ */
+function recordAbortedUsage(state: StreamingState): void {
+    recordUsage({
+        provider: state.provider,
+        modelName: state.model,
+        model: state.responseModel || undefined,
+        inputTokens: state.inputTokens,
+        outputTokens: state.outputTokens || estimateTextTokens(state.generatedText),
+        cachedInputTokens: state.cachedInputTokens || undefined,
+        streaming: true,
+        aborted: true
+    });
+}
+
 function processChunk(
     chunk: OpenAIStreamChunk,
     state: StreamingState,
-    raw: any
+    writer: AnthropicSseWriter
 ): void {
     // Update usage if present
     if (chunk.usage) {
-        state.inputTokens = chunk.usage.prompt_tokens;
-        state.outputTokens = chunk.usage.completion_tokens;
-        state.cachedInputTokens = chunk.usage.prompt_tokens_details?.cached_tokens ?? 0;
+        state.inputTokens = state.priorUsage.inputTokens + chunk.usage.prompt_tokens;
+        state.outputTokens = state.priorUsage.outputTokens + chunk.usage.completion_tokens;
+        state.cachedInputTokens = state.priorUsage.cachedInputTokens + (chunk.usage.prompt_tokens_details?.cached_tokens ?? 0);
     }
 
     // Capture response model from chunk
@@ -122,62 +280,121 @@ function processChunk(
     const choice = chunk.choices[0];
     if (!choice) return;
 
-    // Send message_start on first chunk
-    if (!state.hasStarted) {
-        sendMessageStart(state, raw);
-        state.hasStarted = true;
-    }
-
     const delta = choice.delta;
 
-    // Handle text content
+    // Handle reasoning content from reasoning models
+    const reasoning = extractReasoning(delta);
+    if (reasoning) {
+        processThinkingDelta(reasoning, state, writer);
+    }
+
+    // Handle text content, cut at a locally enforced stop sequence
     if (delta.content) {
-        if (!state.textBlockOpen) {
-            sendContentBlockStart(state.contentBlockIndex, 'text', '', raw);
-            state.textBlockOpen = true;
+        if (state.stopScanner) {
+            const { text, matched } = state.stopScanner.push(delta.content);
+            processContent(text, state, writer);
+            if (matched !== null) {
+                logger.debug('Stop sequence matched locally, cancelling upstream', { stopSequence: matched });
+                state.localStop = matched;
+                return;
+            }
+        } else {
+            processContent(delta.content, state, writer);
         }
-
-        state.textContent += delta.content;
-        sendTextDelta(state.contentBlockIndex, delta.content, raw);
     }
 
     // Handle tool calls
     if (delta.tool_calls) {
         for (const toolCall of delta.tool_calls) {
-            processToolCallDelta(toolCall, state, raw);
+            processToolCallDelta(toolCall, state, writer);
         }
     }
 
     // Handle finish reason
     if (choice.finish_reason) {
-        if (state.textBlockOpen) {
-            sendContentBlockStop(state.contentBlockIndex, raw);
-            state.textBlockOpen = false;
-            state.textContent = '';
-            state.contentBlockIndex++;
+        state.finishReason = choice.finish_reason;
+        state.providerStop = { stop_reason: choice.stop_reason, matched_stop: choice.matched_stop };
+        processContent(state.stopScanner?.flush() ?? '', state, writer);
+        processContentSegments(state.thinkTagParser.flush(), state, writer);
+        closeOpenBlocks(state, writer);
+    }
+}
+
+/**
+ * Close the thinking, text and tool call blocks that are still open
+ */
+function closeOpenBlocks(state: StreamingState, writer: AnthropicSseWriter): void {
+    closeThinkingBlock(state, writer);
+    closeTextBlock(state, writer);
+    closeToolCallBlock(state, writer);
+
+    // Calls still waiting for their block are sent whole
+    if (state.toolValidation) return;
+    for (const toolCall of state.currentToolCalls.values()) {
+        if (toolCall.blockIndex === null) {
+            startToolCallBlock(toolCall, state, writer);
+            closeToolCallBlock(state, writer);
         }
+    }
+}
 
-        for (const toolCall of state.currentToolCalls.values()) {
-            sendContentBlockStop(toolCall.blockIndex, raw);
+/**
+ * Handle text content, splitting out inline <think> reasoning
+ */
+function processContent(content: string, state: StreamingState, writer: AnthropicSseWriter): void {
+    if (!content) return;
+
+    const segments: ThinkTagSegment[] = state.thinkTags === 'text'
+        ? [{ type: 'text', text: content }]
+        : state.thinkTagParser.push(content);
+    processContentSegments(segments, state, writer);
+}
+
+function processContentSegments(segments: ThinkTagSegment[], state: StreamingState, writer: AnthropicSseWriter): void {
+    for (const segment of segments) {
+        if (segment.type === 'text') {
+            processTextDelta(segment.text, state, writer);
+        } else if (state.thinkTags === 'thinking') {
+            processThinkingDelta(segment.text, state, writer);
         }
     }
 }
 
+function processThinkingDelta(thinking: string, state: StreamingState, writer: AnthropicSseWriter): void {
+    closeTextBlock(state, writer);
+    if (state.thinkingBlockIndex === null) {
+        state.thinkingBlockIndex = writer.startBlock('thinking');
+    }
+
+    writer.delta(state.thinkingBlockIndex, { type: 'thinking_delta', thinking });
+}
+
+function processTextDelta(text: string, state: StreamingState, writer: AnthropicSseWriter): void {
+    closeThinkingBlock(state, writer);
+    if (state.textBlockIndex === null) {
+        state.textBlockIndex = writer.startBlock('text');
+    }
+
+    state.textContent += text;
+    state.attemptText += text;
+    writer.delta(state.textBlockIndex, { type: 'text_delta', text });
+}
+
 function processToolCallDelta(
     toolCall: OpenAIStreamToolCall,
     state: StreamingState,
-    raw: any
+    writer: AnthropicSseWriter
 ): void {
     const index = toolCall.index;
 
     // Check if this is a new tool call
     if (!state.currentToolCalls.has(index)) {
-        if (state.textBlockOpen) {
-            sendContentBlockStop(state.contentBlockIndex, raw);
-            state.textBlockOpen = false;
-            state.textContent = '';
-            state.contentBlockIndex++;
-        }
+        // Text held back by the stop sequence scanner and think tag parser belongs before the tool call
+        processContent(state.stopScanner?.flush() ?? '', state, writer);
+        processContentSegments(state.thinkTagParser.flush(), state, writer);
+
+        closeThinkingBlock(state, writer);
+        closeTextBlock(state, writer);
 
         // IMPORTANT: Use the original OpenAI tool ID to maintain consistency
         // This ID must match when tool results are sent back
@@ -190,16 +407,20 @@ function processToolCallDelta(
             toolId = generateUniqueToolId();
         }
 
-        const blockIndex = state.contentBlockIndex + index;
-        const newToolCall = {
+        const newCall: StreamingToolCall = {
             id: toolId,
             name: toolCall.function?.name || '',
             arguments: '',
-            blockIndex,
+            blockIndex: null,
+            repair: new JsonRepairStream(),
         };
-        state.currentToolCalls.set(index, newToolCall);
+        state.currentToolCalls.set(index, newCall);
 
-        sendContentBlockStart(blockIndex, 'tool_use', newToolCall.name, raw, newToolCall.id);
+        // Validated calls are sent whole once they are complete; a parallel call
+        // waits for its block until the open one is done
+        if (!state.toolValidation && !hasOpenToolCallBlock(state, writer)) {
+            startToolCallBlock(newCall, state, writer);
+        }
     }
 
     // Update tool call data
@@ -209,97 +430,120 @@ function processToolCallDelta(
         currentCall.name = toolCall.function.name;
     }
 
-    if (toolCall.function?.arguments) {
-        currentCall.arguments += toolCall.function.arguments;
-        sendInputJsonDelta(currentCall.blockIndex, toolCall.function.arguments, raw);
+    const fragment = toolCall.function?.arguments;
+    if (!fragment) return;
+
+    currentCall.arguments += fragment;
+    if (state.toolValidation) return;
+
+    if (currentCall.blockIndex === null) {
+        // Arguments for a waiting call mean the open one is complete
+        closeToolCallBlock(state, writer);
+        startToolCallBlock(currentCall, state, writer);
+    } else if (writer.isOpen(currentCall.blockIndex)) {
+        const json = currentCall.repair.push(fragment);
+        if (json) {
+            writer.delta(currentCall.blockIndex, { type: 'input_json_delta', partial_json: json });
+        }
+    } else {
+        logger.warn('Dropped arguments for a tool call that was already sent', { tool: currentCall.name, id: currentCall.id });
     }
 }
 
-function sendMessageStart(state: StreamingState, raw: any): void {
-    const event = {
-        type: 'message_start',
-        message: {
-            id: state.messageId,
-            type: 'message',
-            role: 'assistant',
-            content: [],
-            model: state.model,
-            stop_reason: null,
-            stop_sequence: null,
-            usage: {
-                input_tokens: state.inputTokens,
-                output_tokens: state.outputTokens,
-                cache_read_input_tokens: state.cachedInputTokens,
-            },
-        },
-    };
-    sendSSE(event, raw);
+/**
+ * Start a tool call's block, sending the arguments received so far
+ */
+function startToolCallBlock(toolCall: StreamingToolCall, state: StreamingState, writer: AnthropicSseWriter): void {
+    toolCall.blockIndex = writer.startBlock('tool_use', toolCall.id, toolCall.name);
+    state.toolCallsEmitted++;
+
+    const json = toolCall.repair.push(toolCall.arguments);
+    if (json) {
+        writer.delta(toolCall.blockIndex, { type: 'input_json_delta', partial_json: json });
+    }
 }
 
-function sendContentBlockStart(
-    index: number,
-    type: 'text' | 'tool_use',
-    textOrName: string,
-    raw: any,
-    id?: string
-): void {
-    let contentBlock: any;
+function hasOpenToolCallBlock(state: StreamingState, writer: AnthropicSseWriter): boolean {
+    return [...state.currentToolCalls.values()]
+        .some(toolCall => toolCall.blockIndex !== null && writer.isOpen(toolCall.blockIndex));
+}
 
-    if (type === 'text') {
-        contentBlock = { type: 'text', text: '' };
-    } else {
-        contentBlock = {
-            type: 'tool_use',
-            id: id || generateToolUseId(),
-            name: textOrName,
-            input: {},
-        };
+/**
+ * Close the open tool call block, completing its repaired arguments
+ */
+function closeToolCallBlock(state: StreamingState, writer: AnthropicSseWriter): void {
+    for (const toolCall of state.currentToolCalls.values()) {
+        if (toolCall.blockIndex !== null && writer.isOpen(toolCall.blockIndex)) {
+            const json = toolCall.repair.flush();
+            if (json) {
+                writer.delta(toolCall.blockIndex, { type: 'input_json_delta', partial_json: json });
+            }
+            logToolArgumentRepairs(toolCall.name, toolCall.repair.repairs);
+            writer.stopBlock(toolCall.blockIndex);
+        }
     }
-
-    const event = {
-        type: 'content_block_start',
-        index,
-        content_block: contentBlock,
-    };
-    sendSSE(event, raw);
 }
 
-function sendTextDelta(index: number, text: string, raw: any): void {
-    const event = {
-        type: 'content_block_delta',
-        index,
-        delta: {
-            type: 'text_delta',
-            text,
-        },
-    };
-    sendSSE(event, raw);
+/**
+ * Validate the tool calls held back during this upstream request and send the valid ones.
+ * Returns the follow-up messages to re-query with, or null once the message is complete.
+ */
+function settleToolCalls(state: StreamingState, writer: AnthropicSseWriter): OpenAIMessage[] | null {
+    const validation = state.toolValidation;
+    if (!validation || state.currentToolCalls.size === 0) return null;
+
+    const checks = [...state.currentToolCalls.values()]
+        .map(call => validation.validator.check(call.id, call.name, call.arguments));
+    state.currentToolCalls.clear();
+
+    closeThinkingBlock(state, writer);
+    closeTextBlock(state, writer);
+
+    for (const check of checks.filter(check => check.errors.length === 0)) {
+        const blockIndex = writer.startBlock('tool_use', check.id, check.name);
+        writer.delta(blockIndex, { type: 'input_json_delta', partial_json: JSON.stringify(check.input) });
+        writer.stopBlock(blockIndex);
+        state.toolCallsEmitted++;
+    }
+
+    const failed = checks.filter(check => check.errors.length > 0);
+    if (failed.length === 0) return null;
+
+    if (validation.validator.takeRequery()) {
+        state.followUp.push(...buildNativeFollowUp(state.attemptText, checks));
+        state.attemptText = '';
+        state.priorUsage = { inputTokens: state.inputTokens, outputTokens: state.outputTokens, cachedInputTokens: state.cachedInputTokens };
+        return state.followUp;
+    }
+
+    const textBlockIndex = writer.startBlock('text');
+    writer.delta(textBlockIndex, { type: 'text_delta', text: formatValidationFailure(failed) });
+    writer.stopBlock(textBlockIndex);
+    return null;
 }
 
-function sendInputJsonDelta(index: number, partialJson: string, raw: any): void {
-    const event = {
-        type: 'content_block_delta',
-        index,
-        delta: {
-            type: 'input_json_delta',
-            partial_json: partialJson,
-        },
-    };
-    sendSSE(event, raw);
+function closeTextBlock(state: StreamingState, writer: AnthropicSseWriter): void {
+    if (state.textBlockIndex === null) return;
+
+    writer.stopBlock(state.textBlockIndex);
+    state.textBlockIndex = null;
+    state.textContent = '';
 }
 
-function sendContentBlockStop(index: number, raw: any): void {
-    const event = {
-        type: 'content_block_stop',
-        index,
-    };
-    sendSSE(event, raw);
+/**
+ * Close the open thinking block, attaching the signature Claude Code expects
+ */
+function closeThinkingBlock(state: StreamingState, writer: AnthropicSseWriter): void {
+    if (state.thinkingBlockIndex === null) return;
+
+    writer.delta(state.thinkingBlockIndex, { type: 'signature_delta', signature: THINKING_SIGNATURE_PLACEHOLDER });
+    writer.stopBlock(state.thinkingBlockIndex);
+    state.thinkingBlockIndex = null;
 }
 
-function finishStream(state: StreamingState, raw: any): void {
+function finishStream(state: StreamingState, writer: AnthropicSseWriter): void {
     // Determine stop reason
-    const hasToolCalls = state.currentToolCalls.size > 0;
-    const stopReason = hasToolCalls ? 'tool_use' : 'end_turn';
+    const { stopReason, stopSequence } = resolveStreamStop(state);
 
     // Record token usage
     recordUsage({
@@ -312,27 +556,12 @@ function finishStream(state: StreamingState, raw: any): void {
         streaming: true
     });
 
-    // Send message_delta
-    const deltaEvent = {
-        type: 'message_delta',
-        delta: {
-            stop_reason: stopReason,
-            stop_sequence: null,
-        },
-        usage: {
-            output_tokens: state.outputTokens,
-            cache_read_input_tokens: state.cachedInputTokens,
-        },
-    };
-    sendSSE(deltaEvent, raw);
-
-    // Send message_stop
-    sendSSE({ type: 'message_stop' }, raw);
-
-    raw.end();
+    // Streams that end without a finish_reason still close their blocks properly
+    closeOpenBlocks(state, writer);
+    writer.finish(stopReason, state, stopSequence);
 }
 
-function sendErrorEvent(error: Error, state: StreamingState, raw: any): void {
+function sendErrorEvent(error: Error, state: StreamingState, writer: AnthropicSseWriter): void {
     // Record error to file
     recordError(error, {
         requestId: state.messageId,
@@ -341,18 +570,5 @@ function sendErrorEvent(error: Error, state: StreamingState, raw: any): void {
         streaming: true
     });
 
-    const event = {
-        type: 'error',
-        error: {
-            type: 'api_error',
-            message: error.message,
-        },
-    };
-    sendSSE(event, raw);
-    raw.end();
-}
-
-function sendSSE(data: any, raw: any): void {
-    raw.write(`event: ${data.type}\n`);
-    raw.write(`data: ${JSON.stringify(data)}\n\n`);
+    writer.error(error);
 }
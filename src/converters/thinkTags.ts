@@ -0,0 +1,144 @@
+// Think tag extraction: inline <think>...</think> reasoning → thinking blocks
+// Many open reasoning models (DeepSeek-R1 distills, QwQ, etc.) emit their
+// reasoning inline in the content instead of a separate reasoning field.
+
+/**
+ * How inline <think> tags are surfaced to Claude Code:
+ * - thinking: converted to thinking content blocks
+ * - text: left in place as visible text
+ * - hide: removed from the output
+ */
+export type ThinkTagMode = 'thinking' | 'text' | 'hide';
+
+export interface ThinkTagSegment {
+    type: 'thinking' | 'text';
+    text: string;
+}
+
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+/**
+ * Incremental parser that splits streamed text into thinking and text segments.
+ * Partial tags at the end of a chunk are held back until the next chunk decides them.
+ * A <think> block that is never closed is treated as thinking until the stream ends.
+ * With `implicitOpen`, output starts inside a think block whose opening tag is part of
+ * the chat template, so reasoning before the first </think> streams as thinking.
+ */
+export class ThinkTagParser {
+    private buffer = '';
+    private inThink: boolean;
+    private afterThink = false;  // Whitespace separating reasoning from the answer is dropped
+    private leadingOpenTag: boolean;  // An explicit <think> may still open the implicit block
+
+    constructor(options: { implicitOpen?: boolean } = {}) {
+        this.inThink = options.implicitOpen ?? false;
+        this.leadingOpenTag = this.inThink;
+    }
+
+    /**
+     * Feed a chunk of text, returning the segments that are now complete
+     */
+    push(chunk: string): ThinkTagSegment[] {
+        this.buffer += chunk;
+        const segments: ThinkTagSegment[] = [];
+
+        if (this.leadingOpenTag) {
+            const start = this.buffer.trimStart();
+            if (start.length < OPEN_TAG.length && OPEN_TAG.startsWith(start)) {
+                return segments;
+            }
+            if (start.startsWith(OPEN_TAG)) {
+                this.buffer = start.substring(OPEN_TAG.length);
+            }
+            this.leadingOpenTag = false;
+        }
+
+        while (this.buffer.length > 0) {
+            const openIndex = this.inThink ? -1 : this.buffer.indexOf(OPEN_TAG);
+            const closeIndex = this.buffer.indexOf(CLOSE_TAG);
+
+            if (openIndex !== -1 && (closeIndex === -1 || openIndex < closeIndex)) {
+                this.emit(segments, this.buffer.substring(0, openIndex));
+                this.buffer = this.buffer.substring(openIndex + OPEN_TAG.length);
+                this.inThink = true;
+                continue;
+            }
+
+            if (closeIndex !== -1) {
+                // A stray closing tag outside a think block is simply dropped
+                this.emit(segments, this.buffer.substring(0, closeIndex));
+                this.buffer = this.buffer.substring(closeIndex + CLOSE_TAG.length);
+                this.afterThink = this.inThink;
+                this.inThink = false;
+                continue;
+            }
+
+            // Emit everything except a trailing partial tag
+            const holdBack = Math.max(partialTagLength(this.buffer, OPEN_TAG), partialTagLength(this.buffer, CLOSE_TAG));
+            this.emit(segments, this.buffer.substring(0, this.buffer.length - holdBack));
+            this.buffer = this.buffer.substring(this.buffer.length - holdBack);
+            break;
+        }
+
+        return segments;
+    }
+
+    /**
+     * Flush any held-back text at the end of the stream
+     */
+    flush(): ThinkTagSegment[] {
+        const segments: ThinkTagSegment[] = [];
+        this.emit(segments, this.buffer);
+        this.buffer = '';
+        return segments;
+    }
+
+    private emit(segments: ThinkTagSegment[], text: string): void {
+        if (!this.inThink && this.afterThink) {
+            text = text.replace(/^\s+/, '');
+            if (text.length > 0) this.afterThink = false;
+        }
+        if (text.length === 0) return;
+
+        const type = this.inThink ? 'thinking' : 'text';
+        const last = segments[segments.length - 1];
+        if (last && last.type === type) {
+            last.text += text;
+        } else {
+            segments.push({ type, text });
+        }
+    }
+}
+
+/**
+ * Length of the longest suffix of `text` that is a proper prefix of `tag`
+ */
+function partialTagLength(text: string, tag: string): number {
+    for (let len = Math.min(tag.length - 1, text.length); len > 0; len--) {
+        if (text.endsWith(tag.substring(0, len))) {
+            return len;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Split complete (non-streamed) content into thinking and visible text.
+ * Also handles the leading block some distills emit without an opening tag
+ * (the chat template already contains it): text before a stray </think> is thinking.
+ */
+export function extractThinkTags(content: string): { thinking: string; text: string } {
+    let source = content;
+    if (!source.includes(OPEN_TAG) && source.includes(CLOSE_TAG)) {
+        source = OPEN_TAG + source;
+    }
+
+    const parser = new ThinkTagParser();
+    const segments = [...parser.push(source), ...parser.flush()];
+
+    return {
+        thinking: segments.filter(s => s.type === 'thinking').map(s => s.text.trim()).join('\n\n'),
+        text: segments.filter(s => s.type === 'text').map(s => s.text).join('').trim(),
+    };
+}
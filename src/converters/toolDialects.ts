@@ -0,0 +1,191 @@
+// Tool call dialects for XML mode: how tools are described, replayed in history and parsed
+// Open models are often fine-tuned on one specific text format for tool calls and follow
+// it far more reliably than the adapter's own <tool_code> format.
+import { AnthropicToolDefinition } from '../types/anthropic';
+import { ToolDialectName } from '../types/config';
+import {
+    generateXmlToolInstructions,
+    generateHermesToolInstructions,
+    generateQwenToolInstructions,
+    generateMistralToolInstructions,
+    generateLlamaToolInstructions,
+    generateJsonFenceToolInstructions,
+} from './xmlPrompt';
+import {
+    DelimitedToolCallParser,
+    ParsedToolCall,
+    ToolCallStreamParser,
+    XmlToolCallParser,
+    findJsonEnd,
+    parseToolCallJson,
+} from './xmlToolParser';
+
+export const DEFAULT_TOOL_DIALECT: ToolDialectName = 'tool_code';
+
+/**
+ * A text format for tool calls
+ */
+export interface ToolDialect {
+    name: string;
+    /** Text that opens a tool call, and closes it if the format has an end marker */
+    callOpen: string;
+    callClose?: string;
+    /** Instructions appended to the system prompt */
+    generateInstructions(tools: AnthropicToolDefinition[]): string;
+    /** Earlier assistant tool calls, as the model would have written them */
+    formatToolCalls(calls: ParsedToolCall[]): string;
+    /** Tool results, flattened into the user message */
+    formatToolResults(outputs: string[]): string;
+    /** Parser for the model's streamed output */
+    createParser(): ToolCallStreamParser;
+}
+
+const dialects = new Map<string, ToolDialect>();
+
+/**
+ * Add or replace a dialect
+ */
+export function registerToolDialect(dialect: ToolDialect): void {
+    dialects.set(dialect.name, dialect);
+}
+
+/**
+ * Look up a dialect by name
+ */
+export function getToolDialect(name: string = DEFAULT_TOOL_DIALECT): ToolDialect {
+    const dialect = dialects.get(name);
+    if (!dialect) {
+        throw new Error(`Unknown tool dialect "${name}". Available: ${[...dialects.keys()].join(', ')}`);
+    }
+    return dialect;
+}
+
+/**
+ * Hermes-style call object: {"name": ..., "arguments": {...}}
+ */
+function toCallJson(call: ParsedToolCall, argumentsKey: 'arguments' | 'parameters' = 'arguments'): string {
+    return JSON.stringify({ name: call.name, [argumentsKey]: parseArguments(call.arguments) });
+}
+
+function parseArguments(args: string): unknown {
+    try {
+        return JSON.parse(args);
+    } catch {
+        return args;
+    }
+}
+
+/**
+ * Mistral calls may also use the newer `name[ARGS]{...}` form
+ */
+function parseMistralCalls(content: string): ParsedToolCall[] | null {
+    const named = content.match(/^\s*([\w.-]+)\[ARGS\]([\s\S]*)$/);
+    if (!named) {
+        return parseToolCallJson(content);
+    }
+
+    const args = named[2].trim();
+    const parsed = parseArguments(args);
+    return parsed && typeof parsed === 'object' ? [{ name: named[1], arguments: args }] : null;
+}
+
+function findMistralEnd(content: string): number | null {
+    // Wait while a `name[ARGS]` prefix may still be arriving
+    if (/^\s*[\w.-]*(\[(A(R(G(S\]?)?)?)?)?)?$/.test(content)) return null;
+
+    const named = content.match(/^\s*[\w.-]+\[ARGS\]/);
+    return findJsonEnd(content, named ? named[0].length : 0);
+}
+
+registerToolDialect({
+    name: 'tool_code',
+    callOpen: '<tool_code',
+    callClose: '</tool_code>',
+    generateInstructions: generateXmlToolInstructions,
+    formatToolCalls: calls => calls
+        .map(call => `<tool_code name="${call.name}">\n${call.arguments}\n</tool_code>`)
+        .join('\n\n'),
+    formatToolResults: outputs => outputs
+        .map(output => `<tool_output>\n${output}\n</tool_output>`)
+        .join('\n\n'),
+    createParser: () => new XmlToolCallParser(),
+});
+
+const hermesSpec = { open: '<tool_call>', close: '</tool_call>', parse: parseToolCallJson };
+
+registerToolDialect({
+    name: 'hermes',
+    callOpen: '<tool_call>',
+    callClose: '</tool_call>',
+    generateInstructions: generateHermesToolInstructions,
+    formatToolCalls: calls => calls
+        .map(call => `<tool_call>\n${toCallJson(call)}\n</tool_call>`)
+        .join('\n'),
+    formatToolResults: outputs => outputs
+        .map(output => `<tool_response>\n${output}\n</tool_response>`)
+        .join('\n'),
+    createParser: () => new DelimitedToolCallParser(hermesSpec),
+});
+
+registerToolDialect({
+    name: 'qwen',
+    callOpen: '<tool_call>',
+    callClose: '</tool_call>',
+    generateInstructions: generateQwenToolInstructions,
+    formatToolCalls: calls => calls
+        .map(call => `<tool_call>\n${toCallJson(call)}\n</tool_call>`)
+        .join('\n'),
+    formatToolResults: outputs => outputs
+        .map(output => `<tool_response>\n${output}\n</tool_response>`)
+        .join('\n'),
+    createParser: () => new DelimitedToolCallParser(hermesSpec),
+});
+
+registerToolDialect({
+    name: 'mistral',
+    callOpen: '[TOOL_CALLS]',
+    generateInstructions: generateMistralToolInstructions,
+    formatToolCalls: calls => `[TOOL_CALLS][${calls.map(call => toCallJson(call)).join(', ')}]`,
+    formatToolResults: outputs => outputs
+        .map(output => `[TOOL_RESULTS]${JSON.stringify({ content: output })}[/TOOL_RESULTS]`)
+        .join('\n'),
+    createParser: () => new DelimitedToolCallParser({
+        open: '[TOOL_CALLS]',
+        findEnd: findMistralEnd,
+        parse: parseMistralCalls,
+    }),
+});
+
+registerToolDialect({
+    name: 'llama3',
+    callOpen: '<|python_tag|>',
+    generateInstructions: generateLlamaToolInstructions,
+    formatToolCalls: calls => calls
+        .map(call => `<|python_tag|>${toCallJson(call, 'parameters')}`)
+        .join('\n'),
+    formatToolResults: outputs => outputs
+        .map(output => `Tool response:\n${output}`)
+        .join('\n\n'),
+    createParser: () => new DelimitedToolCallParser({
+        open: '<|python_tag|>',
+        parse: parseToolCallJson,
+    }),
+});
+
+registerToolDialect({
+    name: 'json_fence',
+    callOpen: '```json',
+    callClose: '```',
+    generateInstructions: generateJsonFenceToolInstructions,
+    formatToolCalls: calls => calls
+        .map(call => '```json\n' + toCallJson(call) + '\n```')
+        .join('\n\n'),
+    formatToolResults: outputs => outputs
+        .map(output => 'Tool result:\n```\n' + output + '\n```')
+        .join('\n\n'),
+    createParser: () => new DelimitedToolCallParser({
+        open: '```json',
+        close: '```',
+        parse: parseToolCallJson,
+    }),
+});
@@ -0,0 +1,344 @@
+// Tool call validation: arguments are checked against the tool's input_schema
+// Weaker models often leave out required fields or send "10" where a number belongs.
+// Trivially fixable values are coerced; calls that still fail are re-queried or reported.
+import { isDeepStrictEqual } from 'util';
+import {
+    AnthropicContentBlock,
+    AnthropicMessageResponse,
+    AnthropicToolDefinition,
+} from '../types/anthropic';
+import { ToolValidationConfig } from '../types/config';
+import { OpenAIMessage, OpenAIStreamChunk } from '../types/openai';
+import { repairJson } from './jsonRepair';
+import { ToolDialect } from './toolDialects';
+import { logger } from '../utils/logger';
+
+type JsonSchema = Record<string, any>;
+
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+// Result given to the model for valid calls made alongside an invalid one
+const ACCEPTED_RESULT = 'Accepted. Its result will be returned together with the results of the other tool calls.';
+
+/**
+ * Outcome of validating one tool call
+ */
+export interface ToolCallCheck {
+    id: string;
+    name: string;
+    arguments: string;  // As the model wrote them, repaired if possible
+    input: Record<string, unknown>;  // Coerced input; only meaningful when there are no errors
+    errors: string[];
+}
+
+/**
+ * Coerce and validate a value against a JSON Schema subset: type, enum, const,
+ * properties, required, additionalProperties, items, anyOf and oneOf
+ */
+export function coerceToSchema(schema: JsonSchema, value: unknown, path: string = 'input'): { value: unknown; errors: string[] } {
+    const errors: string[] = [];
+    const coerced = checkValue(schema, value, path, errors);
+    return { value: coerced, errors };
+}
+
+/**
+ * Validates tool calls against the tools of one request and tracks its re-query budget
+ */
+export class ToolCallValidator {
+    private schemas = new Map<string, JsonSchema>();
+    private requeries = 0;
+    readonly onFailure: 'requery' | 'message';
+    private maxRequeries: number;
+
+    constructor(tools: AnthropicToolDefinition[], config: ToolValidationConfig = {}) {
+        for (const tool of tools) {
+            this.schemas.set(tool.name, tool.input_schema);
+        }
+        this.onFailure = config.onFailure ?? 'requery';
+        this.maxRequeries = config.maxRequeries ?? 1;
+    }
+
+    /**
+     * Check one call; arguments may be the raw JSON text or an already parsed object
+     */
+    check(id: string, name: string, args: string | Record<string, unknown>): ToolCallCheck {
+        const input = typeof args === 'string' ? parseArguments(args) : args;
+        const text = input === undefined ? args as string : JSON.stringify(input);
+        const result: ToolCallCheck = { id, name, arguments: text, input: {}, errors: [] };
+
+        const schema = this.schemas.get(name);
+        if (!schema) {
+            result.errors.push(`There is no tool named "${name}". Available tools: ${[...this.schemas.keys()].join(', ')}`);
+        } else if (!isPlainObject(input)) {
+            result.errors.push('The arguments must be a JSON object');
+        } else {
+            const { value, errors } = coerceToSchema(schema, input);
+            result.input = value as Record<string, unknown>;
+            result.errors = errors;
+        }
+
+        if (result.errors.length > 0) {
+            logger.debug('Tool call failed validation', { tool: name, errors: result.errors });
+        }
+        return result;
+    }
+
+    /**
+     * Use up one re-query, returning false when failures should be reported instead
+     */
+    takeRequery(): boolean {
+        if (this.onFailure !== 'requery' || this.requeries >= this.maxRequeries) {
+            return false;
+        }
+        this.requeries++;
+        return true;
+    }
+}
+
+/**
+ * Tool call validation for the streaming converters. `requery` continues the upstream
+ * request with the follow-up messages appended and returns the new stream.
+ */
+export interface StreamToolValidation {
+    validator: ToolCallValidator;
+    requery: (followUp: OpenAIMessage[]) => Promise<AsyncIterable<OpenAIStreamChunk>>;
+}
+
+/**
+ * Text shown to the user in place of tool calls that could not be validated
+ */
+export function formatValidationFailure(failed: ToolCallCheck[]): string {
+    return failed
+        .map(check => `Tool call ${check.name} was not run because its arguments do not match the tool's input schema:\n${formatErrors(check)}`)
+        .join('\n\n');
+}
+
+/**
+ * Messages that replay the model's tool calls with native tool results: the errors
+ * for invalid calls, and an acknowledgement for the valid ones already passed on
+ */
+export function buildNativeFollowUp(text: string, checks: ToolCallCheck[]): OpenAIMessage[] {
+    return [
+        {
+            role: 'assistant',
+            content: text || null,
+            tool_calls: checks.map(check => ({
+                id: check.id,
+                type: 'function' as const,
+                function: { name: check.name, arguments: check.arguments },
+            })),
+        },
+        ...checks.map(check => ({
+            role: 'tool' as const,
+            tool_call_id: check.id,
+            content: formatToolResult(check),
+        })),
+    ];
+}
+
+/**
+ * The same follow-up for XML mode, written in the tool dialect's text format
+ */
+export function buildDialectFollowUp(text: string, checks: ToolCallCheck[], dialect: ToolDialect): OpenAIMessage[] {
+    const toolCalls = dialect.formatToolCalls(checks.map(check => ({ name: check.name, arguments: check.arguments })));
+    return [
+        { role: 'assistant', content: [text, toolCalls].filter(Boolean).join('\n\n') },
+        { role: 'user', content: dialect.formatToolResults(checks.map(formatToolResult)) },
+    ];
+}
+
+/**
+ * Validate the tool calls of a non-streaming response. Invalid calls are re-queried
+ * while the budget allows, with the new output appended to the same message;
+ * whatever is still invalid is replaced by an explanatory text block.
+ */
+export async function validateResponseToolCalls(
+    response: AnthropicMessageResponse,
+    validator: ToolCallValidator,
+    requery: (followUp: OpenAIMessage[]) => Promise<AnthropicMessageResponse>
+): Promise<AnthropicMessageResponse> {
+    const content: AnthropicContentBlock[] = [];
+    const followUp: OpenAIMessage[] = [];
+    const usage = { ...response.usage };
+    let current = response;
+
+    for (;;) {
+        const checks: ToolCallCheck[] = [];
+        let text = '';
+
+        for (const block of current.content) {
+            if (block.type !== 'tool_use') {
+                content.push(block);
+                if (block.type === 'text') text += block.text;
+                continue;
+            }
+
+            const check = validator.check(block.id, block.name, block.input);
+            checks.push(check);
+            if (check.errors.length === 0) {
+                content.push({ ...block, input: check.input });
+            }
+        }
+
+        const failed = checks.filter(check => check.errors.length > 0);
+        if (failed.length === 0) break;
+
+        if (!validator.takeRequery()) {
+            content.push({ type: 'text', text: formatValidationFailure(failed) });
+            break;
+        }
+
+        followUp.push(...buildNativeFollowUp(text, checks));
+        current = await requery(followUp);
+        usage.input_tokens += current.usage.input_tokens;
+        usage.output_tokens += current.usage.output_tokens;
+        if (current.usage.cache_read_input_tokens) {
+            usage.cache_read_input_tokens = (usage.cache_read_input_tokens ?? 0) + current.usage.cache_read_input_tokens;
+        }
+    }
+
+    const hasToolUse = content.some(block => block.type === 'tool_use');
+    const stopReason = hasToolUse ? 'tool_use' : current.stop_reason === 'tool_use' ? 'end_turn' : current.stop_reason;
+
+    return { ...response, content, stop_reason: stopReason, stop_sequence: current.stop_sequence, usage };
+}
+
+function formatToolResult(check: ToolCallCheck): string {
+    if (check.errors.length === 0) {
+        return ACCEPTED_RESULT;
+    }
+    return `Error: the arguments for ${check.name} do not match its input schema:\n${formatErrors(check)}\nCall ${check.name} again with corrected arguments.`;
+}
+
+function formatErrors(check: ToolCallCheck): string {
+    return check.errors.map(error => `- ${error}`).join('\n');
+}
+
+function parseArguments(args: string): unknown {
+    if (!args.trim()) return {};
+
+    try {
+        return JSON.parse(args);
+    } catch {
+        try {
+            return JSON.parse(repairJson(args).json);
+        } catch {
+            return undefined;
+        }
+    }
+}
+
+function checkValue(schema: JsonSchema, value: unknown, path: string, errors: string[]): unknown {
+    if (!isPlainObject(schema)) return value;
+
+    const branches = schema.anyOf ?? schema.oneOf;
+    if (Array.isArray(branches)) {
+        for (const branch of branches) {
+            const branchErrors: string[] = [];
+            const coerced = checkValue(branch, value, path, branchErrors);
+            if (branchErrors.length === 0) return coerced;
+        }
+        errors.push(`${path} does not match any of the allowed schemas`);
+        return value;
+    }
+
+    if (schema.type !== undefined) {
+        const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(value, type))) {
+            const coerced = coerceValue(value, types);
+            if (coerced === undefined) {
+                errors.push(`${path} must be ${types.join(' or ')}, got ${describeType(value)}`);
+                return value;
+            }
+            value = coerced.value;
+        }
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => isDeepStrictEqual(option, value))) {
+        errors.push(`${path} must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`);
+    }
+    if ('const' in schema && !isDeepStrictEqual(schema.const, value)) {
+        errors.push(`${path} must be ${JSON.stringify(schema.const)}`);
+    }
+
+    if (isPlainObject(value)) {
+        const properties: JsonSchema = isPlainObject(schema.properties) ? schema.properties : {};
+        const result: Record<string, unknown> = { ...value };
+
+        for (const name of Array.isArray(schema.required) ? schema.required : []) {
+            if (result[name] === undefined) {
+                errors.push(`${path}.${name} is required`);
+            }
+        }
+        for (const [name, item] of Object.entries(result)) {
+            if (name in properties) {
+                result[name] = checkValue(properties[name], item, `${path}.${name}`, errors);
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}.${name} is not an allowed property`);
+            } else if (isPlainObject(schema.additionalProperties)) {
+                result[name] = checkValue(schema.additionalProperties, item, `${path}.${name}`, errors);
+            }
+        }
+        return result;
+    }
+
+    if (Array.isArray(value) && isPlainObject(schema.items)) {
+        return value.map((item, index) => checkValue(schema.items, item, `${path}[${index}]`, errors));
+    }
+
+    return value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+        case 'string': return typeof value === 'string';
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        case 'integer': return typeof value === 'number' && Number.isInteger(value);
+        case 'boolean': return typeof value === 'boolean';
+        case 'null': return value === null;
+        case 'array': return Array.isArray(value);
+        case 'object': return isPlainObject(value);
+        default: return true;
+    }
+}
+
+/**
+ * Convert a value to the first type it trivially fits, or undefined if none
+ */
+function coerceValue(value: unknown, types: string[]): { value: unknown } | undefined {
+    for (const type of types) {
+        if (typeof value === 'string') {
+            const text = value.trim();
+            if (type === 'boolean' && /^(true|false)$/i.test(text)) {
+                return { value: text.toLowerCase() === 'true' };
+            }
+            if ((type === 'number' || type === 'integer') && NUMBER_PATTERN.test(text)) {
+                const number = Number(text);
+                if (type === 'number' || Number.isInteger(number)) return { value: number };
+            }
+            if (type === 'array' || type === 'object') {
+                // Double-encoded JSON
+                try {
+                    const parsed = JSON.parse(text);
+                    if (matchesType(parsed, type)) return { value: parsed };
+                } catch {
+                    // Not JSON
+                }
+            }
+        } else if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+            return { value: String(value) };
+        }
+    }
+    return undefined;
+}
+
+function describeType(value: unknown): string {
+    if (value === undefined) return 'nothing';
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
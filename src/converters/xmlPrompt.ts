@@ -1,5 +1,6 @@
 // XML Prompt Generator for models without native tool calling
 import { AnthropicToolDefinition } from '../types/anthropic';
+import { convertToolsToOpenAI } from './tools';
 
 /**
  * Escape special XML characters in a string
@@ -80,6 +81,128 @@ ${toolDefinitions}
 `;
 }
 
+/**
+ * Hermes 2 Pro / Hermes 3 format: <tool_call>{"name", "arguments"}</tool_call>
+ */
+export function generateHermesToolInstructions(tools: AnthropicToolDefinition[]): string {
+    if (!tools || tools.length === 0) {
+        return '';
+    }
+
+    return `
+You are a function calling AI model. You are provided with function signatures within <tools></tools> XML tags. You may call one or more functions to assist with the user query. Don't make assumptions about what values to plug into functions. Here are the available tools:
+<tools>
+${formatToolSignatures(tools)}
+</tools>
+
+For each function call return a json object with function name and arguments within <tool_call></tool_call> XML tags as follows:
+<tool_call>
+{"name": <function-name>, "arguments": <args-dict>}
+</tool_call>
+
+Function results will be provided to you within <tool_response></tool_response> XML tags.
+`;
+}
+
+/**
+ * Qwen 2.5 / Qwen 3 format: Hermes-style calls with Qwen's own system prompt wording
+ */
+export function generateQwenToolInstructions(tools: AnthropicToolDefinition[]): string {
+    if (!tools || tools.length === 0) {
+        return '';
+    }
+
+    return `
+# Tools
+
+You may call one or more functions to assist with the user query.
+
+You are provided with function signatures within <tools></tools> XML tags:
+<tools>
+${formatToolSignatures(tools)}
+</tools>
+
+For each function call, return a json object with function name and arguments within <tool_call></tool_call> XML tags:
+<tool_call>
+{"name": <function-name>, "arguments": <args-json-object>}
+</tool_call>
+
+Function results will be provided to you within <tool_response></tool_response> XML tags.
+`;
+}
+
+/**
+ * Mistral format: [TOOL_CALLS] followed by a JSON array of calls
+ */
+export function generateMistralToolInstructions(tools: AnthropicToolDefinition[]): string {
+    if (!tools || tools.length === 0) {
+        return '';
+    }
+
+    return `
+[AVAILABLE_TOOLS]${JSON.stringify(convertToolsToOpenAI(tools))}[/AVAILABLE_TOOLS]
+
+To call one or more tools, output [TOOL_CALLS] followed by a JSON array of calls:
+[TOOL_CALLS][{"name": "TOOL_NAME", "arguments": {"argument_name": "value"}}]
+
+Tool results will be provided to you as [TOOL_RESULTS]{"content": ...}[/TOOL_RESULTS].
+`;
+}
+
+/**
+ * Llama 3.1+ format: <|python_tag|> followed by {"name", "parameters"}
+ */
+export function generateLlamaToolInstructions(tools: AnthropicToolDefinition[]): string {
+    if (!tools || tools.length === 0) {
+        return '';
+    }
+
+    return `
+You have access to the following functions:
+
+${formatToolSignatures(tools)}
+
+To call a function, respond with <|python_tag|> followed by a JSON object of the form
+{"name": function name, "parameters": dictionary of argument name and its value}
+Call one function per <|python_tag|>. Do not use variables.
+
+Function results will be provided to you after "Tool response:".
+`;
+}
+
+/**
+ * Fenced JSON format for models that only reliably produce Markdown code blocks
+ */
+export function generateJsonFenceToolInstructions(tools: AnthropicToolDefinition[]): string {
+    if (!tools || tools.length === 0) {
+        return '';
+    }
+
+    return `
+# TOOL CALLING FORMAT
+
+To invoke a tool, output a fenced code block tagged json containing the tool name and its arguments:
+
+\`\`\`json
+{"name": "TOOL_NAME", "arguments": {"argument_name": "value"}}
+\`\`\`
+
+Use one code block per tool call. The arguments MUST be valid JSON matching the tool's parameters.
+Tool results will be provided to you after "Tool result:".
+
+## Available Tools:
+
+${formatToolSignatures(tools)}
+`;
+}
+
+/**
+ * One OpenAI-style function signature per line, as the open model chat templates list them
+ */
+function formatToolSignatures(tools: AnthropicToolDefinition[]): string {
+    return convertToolsToOpenAI(tools).map(tool => JSON.stringify(tool)).join('\n');
+}
+
 /**
  * Check if a system prompt already contains XML tool instructions
  */
@@ -1,88 +1,214 @@
 // XML Streaming Converter: OpenAI text stream → Anthropic SSE with XML tool call detection
-// Uses buffered approach: accumulates complete tool calls before emitting
+// Text and tool input are streamed incrementally as the XML parser releases them
 
 import { FastifyReply } from 'fastify';
 import { Stream } from 'openai/streaming';
-import { OpenAIStreamChunk } from '../types/openai';
+import { OpenAIMessage, OpenAIStreamChunk } from '../types/openai';
 import { generateToolUseId } from './tools';
+import { extractReasoning, THINKING_SIGNATURE_PLACEHOLDER } from './response';
+import { StreamContinuation, StreamConversionOptions, getChunkText, resolveStreamStop } from './streaming';
+import { ThinkTagMode, ThinkTagParser, ThinkTagSegment } from './thinkTags';
+import { AnthropicSseWriter, StreamUsage } from './sse';
+import { ToolCallStreamParser, XmlToolEvent } from './xmlToolParser';
+import { getToolDialect, ToolDialect } from './toolDialects';
+import { JsonRepairStream, logToolArgumentRepairs } from './jsonRepair';
+import { ProviderStopFields, StopSequenceScanner } from './stopSequences';
+import {
+    buildDialectFollowUp,
+    formatValidationFailure,
+    StreamToolValidation,
+    ToolCallCheck,
+} from './toolValidation';
 import { recordUsage } from '../utils/tokenUsage';
 import { recordError } from '../utils/errorLog';
+import { estimateTextTokens } from '../utils/tokenCounter';
+import { logger } from '../utils/logger';
 
-interface BufferedState {
+// Sent after the partial output of a response that max_tokens cut off mid tool call
+const CONTINUATION_PROMPT = 'Your response was cut off by the output token limit in the middle of a tool call. '
+    + 'Continue exactly where it stopped, starting with the next character, without repeating anything.';
+
+interface XmlStreamingState {
     messageId: string;
     model: string;
     responseModel: string;
     provider: string;
-    contentBlockIndex: number;
     inputTokens: number;
     outputTokens: number;
     cachedInputTokens: number;
-    hasStarted: boolean;
-    buffer: string;  // Accumulates all text
+    dialect: ToolDialect;
+    xmlParser: ToolCallStreamParser;
     toolCallsEmitted: number;  // Count of tool calls emitted
+    textBlockIndex: number | null;  // Index of the open text block
+    toolBlockIndex: number | null;  // Index of the tool call being streamed
+    toolName: string;
+    toolInputRepair: JsonRepairStream;  // Repairs the input of the tool call being streamed
+    thinkingBlockIndex: number | null;  // Reasoning is streamed as it arrives
+    deferredThinking: string;  // Reasoning that arrived in the middle of a tool call
+    thinkTags: ThinkTagMode;
+    thinkTagParser: ThinkTagParser;
+    generatedText: string;  // Everything received, for estimating usage of aborted streams
+    toolValidation?: StreamToolValidation;
+    heldToolCall: { name: string; arguments: string } | null;  // Validated calls are sent once complete
+    attemptChecks: ToolCallCheck[];  // Tool calls of the current upstream request
+    attemptText: string;  // Text of the current upstream request, replayed if it is re-queried
+    followUp: OpenAIMessage[];  // Messages appended by re-queries so far
+    priorUsage: StreamUsage;  // Usage of earlier re-queried upstream requests
+    stopSequences?: string[];
+    finishReason: string | null;
+    providerStop: ProviderStopFields;  // Provider fields naming the matched stop, if any
+    stopScanner: StopSequenceScanner | null;  // Enforces stop sequences the provider was not sent
+    localStop: string | null;  // The locally enforced stop sequence that ended the stream
+    continuation?: StreamContinuation;
+    continuations: number;  // Continuation requests made so far
+    attemptOutput: string;  // Raw output of the current upstream request, replayed if it is continued
 }
 
-// Regex patterns
-const THINK_BLOCK_PATTERN = /<think>[\s\S]*?<\/think>/g;
-const TOOL_CODE_PATTERN = /<tool_code\s+name\s*=\s*"([^"]+)"\s*>([\s\S]*?)<\/\s*tool_code\s*>/i;
-const NESTED_TOOL_PATTERN = /<tool\s+name="[^"]*">\s*/g;
-const CLOSE_TOOL_PATTERN = /<\/tool>\s*/g;
-
 /**
  * Transform OpenAI streaming response (with XML tool calls) to Anthropic SSE format.
- * Uses BUFFERED approach: waits for complete tool calls before emitting.
+ * Text is streamed once it cannot be part of a tag; a tool_use block opens as soon as
+ * its <tool_code name="..."> tag is complete and the JSON input streams into it.
  */
 export async function streamXmlOpenAIToAnthropic(
     openaiStream: Stream<OpenAIStreamChunk>,
     reply: FastifyReply,
     originalModel: string,
-    provider: string = ''
+    provider: string = '',
+    options: StreamConversionOptions = {}
 ): Promise<void> {
-    const state: BufferedState = {
+    const dialect = getToolDialect(options.toolDialect);
+    const state: XmlStreamingState = {
         messageId: `msg_${Date.now().toString(36)}`,
         model: originalModel,
         responseModel: '',
         provider,
-        contentBlockIndex: 0,
         inputTokens: 0,
         outputTokens: 0,
         cachedInputTokens: 0,
-        hasStarted: false,
-        buffer: '',
+        dialect,
+        xmlParser: dialect.createParser(),
         toolCallsEmitted: 0,
+        textBlockIndex: null,
+        toolBlockIndex: null,
+        toolName: '',
+        toolInputRepair: new JsonRepairStream(),
+        thinkingBlockIndex: null,
+        deferredThinking: '',
+        thinkTags: options.thinkTags ?? 'thinking',
+        thinkTagParser: new ThinkTagParser({ implicitOpen: options.implicitThinkOpen }),
+        generatedText: '',
+        toolValidation: options.toolValidation,
+        heldToolCall: null,
+        attemptChecks: [],
+        attemptText: '',
+        followUp: [],
+        priorUsage: { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0 },
+        stopSequences: options.stopSequences,
+        finishReason: null,
+        providerStop: {},
+        stopScanner: options.localStopSequences?.length ? new StopSequenceScanner(options.localStopSequences) : null,
+        localStop: null,
+        continuation: options.continuation,
+        continuations: 0,
+        attemptOutput: '',
     };
 
-    const raw = reply.raw;
+    const writer = new AnthropicSseWriter(reply.raw);
 
-    // Set SSE headers
-    raw.setHeader('Content-Type', 'text/event-stream');
-    raw.setHeader('Cache-Control', 'no-cache');
-    raw.setHeader('Connection', 'keep-alive');
-    raw.setHeader('X-Accel-Buffering', 'no');
+    // Start the message right away and keep the connection alive until the stream ends
+    writer.start(state.messageId, state.model, options.inputTokens ?? 0);
+    const stopPings = writer.startPings(options.pingIntervalMs);
 
     try {
-        for await (const chunk of openaiStream) {
-            processChunk(chunk, state, raw);
+        let stream: AsyncIterable<OpenAIStreamChunk> = openaiStream;
+        for (;;) {
+            for await (const chunk of stream) {
+                if (options.signal?.aborted) break;
+                state.generatedText += getChunkText(chunk);
+                processChunk(chunk, state, writer);
+                await writer.drain();
+                // Leaving the loop cancels the upstream request
+                if (state.localStop !== null) break;
+            }
+
+            if (options.signal?.aborted) {
+                recordAbortedUsage(state);
+                return;
+            }
+
+            // A tool call cut off by max_tokens is continued where it stopped, keeping the parsers' state
+            const continuation = continueTruncatedToolCall(state);
+            if (continuation) {
+                stream = await state.continuation!.requery(continuation);
+                continue;
+            }
+
+            // Final flush - emit any remaining text
+            processContent(state.stopScanner?.flush() ?? '', state, writer);
+            processContentSegments(state.thinkTagParser.flush(), state, writer);
+            processXmlEvents(state.xmlParser.flush(), state, writer);
+
+            // Generation ended at the stop sequence, so there is nothing to re-query
+            if (state.localStop !== null) {
+                estimateStoppedUsage(state, options.inputTokens ?? 0);
+                break;
+            }
+
+            // Invalid tool calls may be sent back to the model, continuing the same message
+            const followUp = settleToolCalls(state, writer);
+            if (!followUp) break;
+            stream = await state.toolValidation!.requery(followUp);
         }
 
-        // Final flush - emit any remaining text
-        flushRemainingContent(state, raw);
-        finishStream(state, raw);
+        closeThinkingBlock(state, writer);
+        closeTextBlock(state, writer);
+        finishStream(state, writer);
     } catch (error) {
-        sendErrorEvent(error as Error, state, raw);
+        // The client is gone; there is no one to send the error to
+        if (options.signal?.aborted) {
+            recordAbortedUsage(state);
+            return;
+        }
+        sendErrorEvent(error as Error, state, writer);
+    } finally {
+        stopPings();
     }
 }
 
+/**
+ * A stream cancelled at a local stop sequence never gets its usage chunk, so usage is estimated
+ */
+function estimateStoppedUsage(state: XmlStreamingState, estimatedInputTokens: number): void {
+    state.inputTokens = state.inputTokens || estimatedInputTokens;
+    state.outputTokens = Math.max(state.outputTokens, estimateTextTokens(state.generatedText));
+}
+
+/**
+ * Record usage for a stream the client disconnected from, estimating output from what was received
+ */
+function recordAbortedUsage(state: XmlStreamingState): void {
+    recordUsage({
+        provider: state.provider,
+        modelName: state.model,
+        model: state.responseModel || undefined,
+        inputTokens: state.inputTokens,
+        outputTokens: state.outputTokens || estimateTextTokens(state.generatedText),
+        cachedInputTokens: state.cachedInputTokens || undefined,
+        streaming: true,
+        aborted: true
+    });
+}
+
 function processChunk(
     chunk: OpenAIStreamChunk,
-    state: BufferedState,
-    raw: any
+    state: XmlStreamingState,
+    writer: AnthropicSseWriter
 ): void {
     // Update usage if present
     if (chunk.usage) {
-        state.inputTokens = chunk.usage.prompt_tokens;
-        state.outputTokens = chunk.usage.completion_tokens;
-        state.cachedInputTokens = chunk.usage.prompt_tokens_details?.cached_tokens ?? 0;
+        state.inputTokens = state.priorUsage.inputTokens + chunk.usage.prompt_tokens;
+        state.outputTokens = state.priorUsage.outputTokens + chunk.usage.completion_tokens;
+        state.cachedInputTokens = state.priorUsage.cachedInputTokens + (chunk.usage.prompt_tokens_details?.cached_tokens ?? 0);
     }
 
     // Capture response model
@@ -93,175 +219,211 @@ function processChunk(
     const choice = chunk.choices[0];
     if (!choice) return;
 
-    // Send message_start on first chunk
-    if (!state.hasStarted) {
-        sendMessageStart(state, raw);
-        state.hasStarted = true;
+    if (choice.finish_reason) {
+        state.finishReason = choice.finish_reason;
+        state.providerStop = { stop_reason: choice.stop_reason, matched_stop: choice.matched_stop };
+    }
+
+    // Reasoning is not part of the XML protocol, so it is streamed immediately
+    const reasoning = choice.delta ? extractReasoning(choice.delta) : '';
+    if (reasoning) {
+        emitThinkingDelta(reasoning, state, writer);
     }
 
     const textDelta = choice.delta?.content || '';
     if (!textDelta) return;
+    state.attemptOutput += textDelta;
 
-    // Add to buffer
-    state.buffer += textDelta;
-
-    // Process buffer for complete tool calls
-    processBuffer(state, raw);
+    // Cut the text at a locally enforced stop sequence
+    if (!state.stopScanner) {
+        processContent(textDelta, state, writer);
+        return;
+    }
+    const { text, matched } = state.stopScanner.push(textDelta);
+    processContent(text, state, writer);
+    if (matched !== null) {
+        logger.debug('Stop sequence matched locally, cancelling upstream', { stopSequence: matched });
+        state.localStop = matched;
+    }
 }
 
-function processBuffer(state: BufferedState, raw: any): void {
-    // Keep processing until no more complete tool calls are found
-    while (true) {
-        // Remove <think> blocks from consideration
-        const cleanBuffer = state.buffer.replace(THINK_BLOCK_PATTERN, '');
-
-        // Check for complete tool call
-        const toolMatch = cleanBuffer.match(TOOL_CODE_PATTERN);
-
-        if (!toolMatch) {
-            // No complete tool call found, exit loop
-            break;
-        }
-
-        const [fullMatch, toolName, rawArgs] = toolMatch;
-        const matchStart = cleanBuffer.indexOf(fullMatch);
+/**
+ * Split out inline <think> reasoning before looking for tool calls
+ */
+function processContent(content: string, state: XmlStreamingState, writer: AnthropicSseWriter): void {
+    if (!content) return;
 
-        // Get text BEFORE the tool call
-        const textBeforeTool = cleanBuffer.substring(0, matchStart);
-        const cleanText = textBeforeTool.trim();
+    const segments: ThinkTagSegment[] = state.thinkTags === 'text'
+        ? [{ type: 'text', text: content }]
+        : state.thinkTagParser.push(content);
+    processContentSegments(segments, state, writer);
+}
 
-        // Emit text block if there's content
-        if (cleanText.length > 0) {
-            emitTextBlock(cleanText, state, raw);
+function processContentSegments(segments: ThinkTagSegment[], state: XmlStreamingState, writer: AnthropicSseWriter): void {
+    for (const segment of segments) {
+        if (segment.type === 'text') {
+            processXmlEvents(state.xmlParser.push(segment.text), state, writer);
+        } else if (state.thinkTags === 'thinking') {
+            emitThinkingDelta(segment.text, state, writer);
         }
-
-        // Clean and emit tool use block
-        const cleanArgs = cleanToolArgs(rawArgs);
-        emitToolUseBlock(toolName, cleanArgs, state, raw);
-
-        // Update buffer: remove everything up to and including the tool call
-        // We need to find the position in the ORIGINAL buffer (with think blocks)
-        const originalMatchEnd = state.buffer.indexOf('</tool_code>') + '</tool_code>'.length;
-        state.buffer = state.buffer.substring(originalMatchEnd);
     }
 }
 
-function flushRemainingContent(state: BufferedState, raw: any): void {
-    // Clean remaining buffer
-    const cleanBuffer = state.buffer.replace(THINK_BLOCK_PATTERN, '').trim();
-
-    // Get any remaining text
-    const remainingText = cleanBuffer.trim();
-
-    if (remainingText.length > 0) {
-        emitTextBlock(remainingText, state, raw);
+function processXmlEvents(events: XmlToolEvent[], state: XmlStreamingState, writer: AnthropicSseWriter): void {
+    for (const event of events) {
+        switch (event.type) {
+            case 'text':
+                closeThinkingBlock(state, writer);
+                if (state.textBlockIndex === null) {
+                    state.textBlockIndex = writer.startBlock('text');
+                }
+                writer.delta(state.textBlockIndex, { type: 'text_delta', text: event.text });
+                state.attemptText += event.text;
+                break;
+
+            case 'tool_start':
+                closeThinkingBlock(state, writer);
+                closeTextBlock(state, writer);
+                if (state.toolValidation) {
+                    state.heldToolCall = { name: event.name, arguments: '' };
+                    break;
+                }
+                state.toolBlockIndex = writer.startBlock('tool_use', generateToolUseId(), event.name);
+                state.toolName = event.name;
+                state.toolInputRepair = new JsonRepairStream();
+                break;
+
+            case 'tool_input':
+                if (state.heldToolCall) {
+                    state.heldToolCall.arguments += event.json;
+                    break;
+                }
+                emitToolInput(state.toolInputRepair.push(event.json), state, writer);
+                break;
+
+            case 'tool_end':
+                if (state.heldToolCall) {
+                    emitCheckedToolCall(state.heldToolCall, state, writer);
+                    state.heldToolCall = null;
+                } else {
+                    emitToolInput(state.toolInputRepair.flush(), state, writer);
+                    logToolArgumentRepairs(state.toolName, state.toolInputRepair.repairs);
+                    writer.stopBlock(state.toolBlockIndex!);
+                    state.toolBlockIndex = null;
+                    state.toolCallsEmitted++;
+                }
+
+                if (state.deferredThinking) {
+                    const thinking = state.deferredThinking;
+                    state.deferredThinking = '';
+                    emitThinkingDelta(thinking, state, writer);
+                }
+                break;
+        }
     }
 }
 
-function cleanToolArgs(args: string): string {
-    let cleaned = args;
-
-    // Remove nested <tool name="..."> tags
-    cleaned = cleaned.replace(NESTED_TOOL_PATTERN, '');
+/**
+ * Validate a complete tool call, sending it whole if it is valid
+ */
+function emitCheckedToolCall(call: { name: string; arguments: string }, state: XmlStreamingState, writer: AnthropicSseWriter): void {
+    const check = state.toolValidation!.validator.check(generateToolUseId(), call.name, call.arguments);
+    state.attemptChecks.push(check);
+    if (check.errors.length > 0) return;
+
+    const blockIndex = writer.startBlock('tool_use', check.id, check.name);
+    writer.delta(blockIndex, { type: 'input_json_delta', partial_json: JSON.stringify(check.input) });
+    writer.stopBlock(blockIndex);
+    state.toolCallsEmitted++;
+}
 
-    // Remove </tool> closing tags
-    cleaned = cleaned.replace(CLOSE_TOOL_PATTERN, '');
+/**
+ * At the end of an upstream request, re-query or report the tool calls that failed validation.
+ * Returns the follow-up messages to re-query with, or null once the message is complete.
+ */
+function settleToolCalls(state: XmlStreamingState, writer: AnthropicSseWriter): OpenAIMessage[] | null {
+    const checks = state.attemptChecks;
+    const failed = checks.filter(check => check.errors.length > 0);
+    state.attemptChecks = [];
+    if (!state.toolValidation || failed.length === 0) return null;
+
+    closeThinkingBlock(state, writer);
+
+    if (state.toolValidation.validator.takeRequery()) {
+        state.followUp.push(...buildDialectFollowUp(state.attemptText, checks, state.dialect));
+        state.attemptText = '';
+        state.attemptOutput = '';
+        state.priorUsage = { inputTokens: state.inputTokens, outputTokens: state.outputTokens, cachedInputTokens: state.cachedInputTokens };
+        state.xmlParser = state.dialect.createParser();
+        return state.followUp;
+    }
 
-    // Remove any leading ToolName\n pattern
-    cleaned = cleaned.replace(/^[A-Za-z_][A-Za-z0-9_]*\s*\n/, '');
+    closeTextBlock(state, writer);
+    const textBlockIndex = writer.startBlock('text');
+    writer.delta(textBlockIndex, { type: 'text_delta', text: formatValidationFailure(failed) });
+    writer.stopBlock(textBlockIndex);
+    return null;
+}
 
-    return cleaned.trim();
+/**
+ * Ask the model to continue a tool call that max_tokens cut off, while continuations remain.
+ * Returns the follow-up messages to re-query with, or null if the stream is finished.
+ */
+function continueTruncatedToolCall(state: XmlStreamingState): OpenAIMessage[] | null {
+    const inToolCall = state.toolBlockIndex !== null || state.heldToolCall !== null;
+    if (state.finishReason !== 'length' || !inToolCall || !state.continuation) return null;
+    if (state.continuations >= state.continuation.maxContinuations) return null;
+
+    state.continuations++;
+    state.followUp.push(
+        { role: 'assistant', content: state.attemptOutput },
+        { role: 'user', content: CONTINUATION_PROMPT },
+    );
+    state.attemptOutput = '';
+    state.finishReason = null;
+    state.priorUsage = { inputTokens: state.inputTokens, outputTokens: state.outputTokens, cachedInputTokens: state.cachedInputTokens };
+    return state.followUp;
 }
 
-function emitTextBlock(text: string, state: BufferedState, raw: any): void {
-    // Start text block
-    const startEvent = {
-        type: 'content_block_start',
-        index: state.contentBlockIndex,
-        content_block: { type: 'text', text: '' },
-    };
-    sendSSE(startEvent, raw);
+function emitToolInput(json: string, state: XmlStreamingState, writer: AnthropicSseWriter): void {
+    if (json) {
+        writer.delta(state.toolBlockIndex!, { type: 'input_json_delta', partial_json: json });
+    }
+}
 
-    // Send text delta
-    const deltaEvent = {
-        type: 'content_block_delta',
-        index: state.contentBlockIndex,
-        delta: { type: 'text_delta', text },
-    };
-    sendSSE(deltaEvent, raw);
+function emitThinkingDelta(thinking: string, state: XmlStreamingState, writer: AnthropicSseWriter): void {
+    // A tool_use block cannot be interrupted, so reasoning waits until the call ends
+    if (state.toolBlockIndex !== null || state.heldToolCall !== null) {
+        state.deferredThinking += thinking;
+        return;
+    }
 
-    // Stop text block
-    const stopEvent = {
-        type: 'content_block_stop',
-        index: state.contentBlockIndex,
-    };
-    sendSSE(stopEvent, raw);
+    closeTextBlock(state, writer);
+    if (state.thinkingBlockIndex === null) {
+        state.thinkingBlockIndex = writer.startBlock('thinking');
+    }
 
-    state.contentBlockIndex++;
+    writer.delta(state.thinkingBlockIndex, { type: 'thinking_delta', thinking });
 }
 
-function emitToolUseBlock(toolName: string, args: string, state: BufferedState, raw: any): void {
-    const toolId = generateToolUseId();
-
-    // Start tool_use block
-    const startEvent = {
-        type: 'content_block_start',
-        index: state.contentBlockIndex,
-        content_block: {
-            type: 'tool_use',
-            id: toolId,
-            name: toolName,
-            input: {},
-        },
-    };
-    sendSSE(startEvent, raw);
-
-    // Send complete input as single delta
-    const deltaEvent = {
-        type: 'content_block_delta',
-        index: state.contentBlockIndex,
-        delta: {
-            type: 'input_json_delta',
-            partial_json: args,
-        },
-    };
-    sendSSE(deltaEvent, raw);
-
-    // Stop tool_use block
-    const stopEvent = {
-        type: 'content_block_stop',
-        index: state.contentBlockIndex,
-    };
-    sendSSE(stopEvent, raw);
+function closeTextBlock(state: XmlStreamingState, writer: AnthropicSseWriter): void {
+    if (state.textBlockIndex === null) return;
 
-    state.contentBlockIndex++;
-    state.toolCallsEmitted++;
+    writer.stopBlock(state.textBlockIndex);
+    state.textBlockIndex = null;
 }
 
-function sendMessageStart(state: BufferedState, raw: any): void {
-    const event = {
-        type: 'message_start',
-        message: {
-            id: state.messageId,
-            type: 'message',
-            role: 'assistant',
-            content: [],
-            model: state.model,
-            stop_reason: null,
-            stop_sequence: null,
-            usage: {
-                input_tokens: state.inputTokens,
-                output_tokens: state.outputTokens,
-                cache_read_input_tokens: state.cachedInputTokens,
-            },
-        },
-    };
-    sendSSE(event, raw);
+function closeThinkingBlock(state: XmlStreamingState, writer: AnthropicSseWriter): void {
+    if (state.thinkingBlockIndex === null) return;
+
+    writer.delta(state.thinkingBlockIndex, { type: 'signature_delta', signature: THINKING_SIGNATURE_PLACEHOLDER });
+    writer.stopBlock(state.thinkingBlockIndex);
+    state.thinkingBlockIndex = null;
 }
 
-function finishStream(state: BufferedState, raw: any): void {
+function finishStream(state: XmlStreamingState, writer: AnthropicSseWriter): void {
     // Determine stop reason
-    const stopReason = state.toolCallsEmitted > 0 ? 'tool_use' : 'end_turn';
+    const { stopReason, stopSequence } = resolveStreamStop(state);
 
     // Record token usage
     recordUsage({
@@ -274,27 +436,10 @@ function finishStream(state: BufferedState, raw: any): void {
         streaming: true
     });
 
-    // Send message_delta
-    const deltaEvent = {
-        type: 'message_delta',
-        delta: {
-            stop_reason: stopReason,
-            stop_sequence: null,
-        },
-        usage: {
-            output_tokens: state.outputTokens,
-            cache_read_input_tokens: state.cachedInputTokens,
-        },
-    };
-    sendSSE(deltaEvent, raw);
-
-    // Send message_stop
-    sendSSE({ type: 'message_stop' }, raw);
-
-    raw.end();
+    writer.finish(stopReason, state, stopSequence);
 }
 
-function sendErrorEvent(error: Error, state: BufferedState, raw: any): void {
+function sendErrorEvent(error: Error, state: XmlStreamingState, writer: AnthropicSseWriter): void {
     // Record error to file
     recordError(error, {
         requestId: state.messageId,
@@ -303,18 +448,5 @@ function sendErrorEvent(error: Error, state: BufferedState, raw: any): void {
         streaming: true
     });
 
-    const event = {
-        type: 'error',
-        error: {
-            type: 'api_error',
-            message: error.message,
-        },
-    };
-    sendSSE(event, raw);
-    raw.end();
-}
-
-function sendSSE(data: any, raw: any): void {
-    raw.write(`event: ${data.type}\n`);
-    raw.write(`data: ${JSON.stringify(data)}\n\n`);
+    writer.error(error);
 }
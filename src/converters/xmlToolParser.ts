@@ -0,0 +1,437 @@
+// XML tool call parsing: tool calls embedded in streamed text → tool call events
+// Text and tool input are released as soon as they cannot be part of a tag, so long
+// Write/Edit calls stream into Claude Code instead of arriving all at once.
+import { repairJson } from './jsonRepair';
+
+export type XmlToolEvent =
+    | { type: 'text'; text: string }
+    | { type: 'tool_start'; name: string }
+    | { type: 'tool_input'; json: string }
+    | { type: 'tool_end' };
+
+/**
+ * Incremental parser for one tool call dialect
+ */
+export interface ToolCallStreamParser {
+    push(chunk: string): XmlToolEvent[];
+    flush(): XmlToolEvent[];
+}
+
+export interface ParsedToolCall {
+    name: string;
+    arguments: string;  // JSON
+}
+
+type ParserMode = 'text' | 'open_tag' | 'body';
+
+const OPEN_TAG_START = '<tool_code';
+const OPEN_TAG_PATTERN = /^<tool_code\s+name\s*=\s*"([^"]+)"\s*>$/i;
+const CLOSE_TAG_PATTERN = /(?:<\/tool>\s*)?<\/\s*tool_code\s*>/i;
+
+// A trailing fragment that may still become the (optionally </tool>-prefixed) closing tag
+const PARTIAL_CLOSE_PATTERN = /^(?:<\/tool>\s*)?<(?:\/\s*(?:t(?:o(?:o(?:l(?:_(?:c(?:o(?:d(?:e\s*)?)?)?)?|>\s*)?)?)?)?)?)?$/i;
+
+// Wrappers some models put around the JSON despite the prompt
+const NESTED_TOOL_PATTERN = /^<tool\s+name="[^"]*">\s*/;
+const TOOL_NAME_LINE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*\s*\n/;
+const PARTIAL_TOOL_NAME_LINE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*[ \t]*$/;
+
+// An unclosed `<tool_code ...` longer than this is treated as text
+const MAX_OPEN_TAG_LENGTH = 256;
+
+/**
+ * Incremental parser for the adapter's own <tool_code name="...">{json}</tool_code> format.
+ * Whitespace around tool calls is dropped, as are the wrappers models sometimes add
+ * around the JSON input (`<tool name="...">`, `</tool>`, a leading tool name line).
+ */
+export class XmlToolCallParser implements ToolCallStreamParser {
+    private buffer = '';
+    private mode: ParserMode = 'text';
+    private atTextStart = true;  // Leading whitespace of a text run is dropped
+    private bodyStarted = false;  // Wrappers before the JSON input have been skipped
+
+    /**
+     * Feed a chunk of text, returning the events that are now certain
+     */
+    push(chunk: string): XmlToolEvent[] {
+        this.buffer += chunk;
+        const events: XmlToolEvent[] = [];
+
+        while (this.step(events)) {
+            // Keep going while progress is being made
+        }
+
+        return events;
+    }
+
+    /**
+     * Flush held-back text at the end of the stream; an unterminated tool call is closed
+     */
+    flush(): XmlToolEvent[] {
+        const events: XmlToolEvent[] = [];
+
+        if (this.mode === 'body') {
+            const partialClose = findPartialClose(this.buffer);
+            this.emitInput(events, this.buffer.substring(0, partialClose).trimEnd());
+            events.push({ type: 'tool_end' });
+        } else {
+            this.emitText(events, this.buffer.trimEnd());
+        }
+
+        this.buffer = '';
+        this.mode = 'text';
+        this.atTextStart = true;
+        return events;
+    }
+
+    /**
+     * Process the buffer in the current mode; returns true if the mode changed
+     */
+    private step(events: XmlToolEvent[]): boolean {
+        switch (this.mode) {
+            case 'text':
+                return this.stepText(events);
+            case 'open_tag':
+                return this.stepOpenTag(events);
+            case 'body':
+                return this.stepBody(events);
+        }
+    }
+
+    private stepText(events: XmlToolEvent[]): boolean {
+        const tagIndex = this.buffer.toLowerCase().indexOf(OPEN_TAG_START);
+
+        if (tagIndex !== -1) {
+            // Whitespace before a tool call is dropped
+            this.emitText(events, this.buffer.substring(0, tagIndex).trimEnd());
+            this.buffer = this.buffer.substring(tagIndex);
+            this.mode = 'open_tag';
+            return true;
+        }
+
+        // Hold back a partial "<tool_code" and trailing whitespace, which is dropped if a tool call follows
+        const holdFrom = this.buffer.substring(0, findPartialMarker(this.buffer, OPEN_TAG_START)).trimEnd().length;
+
+        this.emitText(events, this.buffer.substring(0, holdFrom));
+        this.buffer = this.buffer.substring(holdFrom);
+        return false;
+    }
+
+    private stepOpenTag(events: XmlToolEvent[]): boolean {
+        const end = this.buffer.indexOf('>');
+
+        if (end === -1) {
+            if (this.buffer.length <= MAX_OPEN_TAG_LENGTH) return false;
+            return this.rejectOpenTag(events, this.buffer.length);
+        }
+
+        const match = this.buffer.substring(0, end + 1).match(OPEN_TAG_PATTERN);
+        if (!match) {
+            return this.rejectOpenTag(events, end + 1);
+        }
+
+        events.push({ type: 'tool_start', name: match[1] });
+        this.buffer = this.buffer.substring(end + 1);
+        this.mode = 'body';
+        this.bodyStarted = false;
+        return true;
+    }
+
+    /**
+     * Something that looked like a tool call is plain text after all
+     */
+    private rejectOpenTag(events: XmlToolEvent[], length: number): boolean {
+        this.emitText(events, this.buffer.substring(0, length));
+        this.buffer = this.buffer.substring(length);
+        this.mode = 'text';
+        return true;
+    }
+
+    private stepBody(events: XmlToolEvent[]): boolean {
+        if (!this.bodyStarted && !this.skipInputWrappers()) {
+            // Still unsure whether the start is a wrapper, unless the call already ended
+            if (!CLOSE_TAG_PATTERN.test(this.buffer)) return false;
+        }
+        this.bodyStarted = true;
+
+        const close = this.buffer.match(CLOSE_TAG_PATTERN);
+        if (close) {
+            const closeIndex = close.index ?? 0;
+            this.emitInput(events, this.buffer.substring(0, closeIndex).trimEnd());
+            events.push({ type: 'tool_end' });
+
+            this.buffer = this.buffer.substring(closeIndex + close[0].length);
+            this.mode = 'text';
+            this.atTextStart = true;
+            return true;
+        }
+
+        // Hold back a partial closing tag and the whitespace before it
+        const holdFrom = this.buffer.substring(0, findPartialClose(this.buffer)).trimEnd().length;
+        this.emitInput(events, this.buffer.substring(0, holdFrom));
+        this.buffer = this.buffer.substring(holdFrom);
+        return false;
+    }
+
+    /**
+     * Drop leading whitespace and wrappers before the JSON input.
+     * Returns false while the start of the buffer could still be a wrapper.
+     */
+    private skipInputWrappers(): boolean {
+        while (true) {
+            this.buffer = this.buffer.trimStart();
+            if (this.buffer.length === 0) return false;
+
+            const wrapper = this.buffer.match(NESTED_TOOL_PATTERN) ?? this.buffer.match(TOOL_NAME_LINE_PATTERN);
+            if (wrapper) {
+                this.buffer = this.buffer.substring(wrapper[0].length);
+                continue;
+            }
+
+            const mayBeNestedTag = this.buffer.startsWith('<') && !this.buffer.includes('>')
+                && ('<tool'.startsWith(this.buffer) || this.buffer.startsWith('<tool '));
+            return !mayBeNestedTag && !PARTIAL_TOOL_NAME_LINE_PATTERN.test(this.buffer);
+        }
+    }
+
+    private emitText(events: XmlToolEvent[], text: string): void {
+        if (this.atTextStart) {
+            text = text.trimStart();
+        }
+        if (text.length === 0) return;
+
+        this.atTextStart = false;
+        pushText(events, text);
+    }
+
+    private emitInput(events: XmlToolEvent[], json: string): void {
+        if (json.length === 0) return;
+
+        const last = events[events.length - 1];
+        if (last?.type === 'tool_input') {
+            last.json += json;
+        } else {
+            events.push({ type: 'tool_input', json });
+        }
+    }
+}
+
+/**
+ * How a dialect marks its tool call blocks
+ */
+export interface DelimitedDialectSpec {
+    open: string;  // Marker that starts a block, e.g. "<tool_call>"
+    close?: string;  // Marker that ends it; without one the block ends with its JSON value
+    findEnd?: (content: string) => number | null;  // Custom end detection; null while undecided
+    parse: (content: string) => ParsedToolCall[] | null;  // null: the block is not a tool call
+}
+
+/**
+ * Incremental parser for dialects that wrap complete JSON calls in markers
+ * (Hermes/Qwen <tool_call>, Mistral [TOOL_CALLS], Llama <|python_tag|>, fenced JSON).
+ * Text streams as it arrives; each block is held until it ends and then emitted as
+ * tool calls, or as the original text if it does not parse as one.
+ */
+export class DelimitedToolCallParser implements ToolCallStreamParser {
+    private buffer = '';
+    private inBlock = false;
+    private atTextStart = true;  // Leading whitespace of a text run is dropped
+    private blockSpacing = '';  // Whitespace before the open marker, kept if the block turns out to be text
+
+    constructor(private spec: DelimitedDialectSpec) {}
+
+    push(chunk: string): XmlToolEvent[] {
+        this.buffer += chunk;
+        const events: XmlToolEvent[] = [];
+
+        while (this.inBlock ? this.stepBlock(events) : this.stepText(events)) {
+            // Keep going while progress is being made
+        }
+
+        return events;
+    }
+
+    flush(): XmlToolEvent[] {
+        const events: XmlToolEvent[] = [];
+
+        if (this.inBlock) {
+            this.emitBlock(events, this.buffer, '');
+        } else {
+            this.emitText(events, this.buffer.trimEnd());
+        }
+
+        this.buffer = '';
+        this.inBlock = false;
+        this.atTextStart = true;
+        return events;
+    }
+
+    private stepText(events: XmlToolEvent[]): boolean {
+        const openIndex = this.buffer.toLowerCase().indexOf(this.spec.open.toLowerCase());
+
+        if (openIndex !== -1) {
+            const before = this.buffer.substring(0, openIndex);
+            const text = before.trimEnd();
+            this.emitText(events, text);
+            this.blockSpacing = before.substring(text.length);
+            this.buffer = this.buffer.substring(openIndex + this.spec.open.length);
+            this.inBlock = true;
+            return true;
+        }
+
+        const holdFrom = this.buffer.substring(0, findPartialMarker(this.buffer, this.spec.open)).trimEnd().length;
+        this.emitText(events, this.buffer.substring(0, holdFrom));
+        this.buffer = this.buffer.substring(holdFrom);
+        return false;
+    }
+
+    private stepBlock(events: XmlToolEvent[]): boolean {
+        let end: number | null;
+        let closeLength = 0;
+
+        if (this.spec.close) {
+            const closeIndex = this.buffer.toLowerCase().indexOf(this.spec.close.toLowerCase());
+            end = closeIndex === -1 ? null : closeIndex;
+            closeLength = this.spec.close.length;
+        } else {
+            end = (this.spec.findEnd ?? findJsonEnd)(this.buffer);
+        }
+
+        if (end === null) return false;
+
+        this.emitBlock(events, this.buffer.substring(0, end), this.buffer.substring(end, end + closeLength));
+        this.buffer = this.buffer.substring(end + closeLength);
+        this.inBlock = false;
+        return true;
+    }
+
+    private emitBlock(events: XmlToolEvent[], content: string, close: string): void {
+        const calls = this.spec.parse(content);
+
+        if (!calls || calls.length === 0) {
+            // Not a tool call after all: keep the text exactly as the model wrote it
+            this.emitText(events, this.blockSpacing + this.spec.open + content + close);
+            return;
+        }
+
+        for (const call of calls) {
+            events.push({ type: 'tool_start', name: call.name });
+            events.push({ type: 'tool_input', json: call.arguments });
+            events.push({ type: 'tool_end' });
+        }
+        this.atTextStart = true;
+    }
+
+    private emitText(events: XmlToolEvent[], text: string): void {
+        if (this.atTextStart) {
+            text = text.trimStart();
+        }
+        if (text.length === 0) return;
+
+        this.atTextStart = false;
+        pushText(events, text);
+    }
+}
+
+/**
+ * Parse `{"name", "arguments"|"parameters"}` or an array of them.
+ * Arguments may be an object or a JSON-encoded string. Almost-JSON is repaired first.
+ */
+export function parseToolCallJson(content: string): ParsedToolCall[] | null {
+    let value: unknown;
+    try {
+        value = JSON.parse(content.trim());
+    } catch {
+        try {
+            value = JSON.parse(repairJson(content).json);
+        } catch {
+            return null;
+        }
+    }
+
+    const calls: ParsedToolCall[] = [];
+    for (const item of Array.isArray(value) ? value : [value]) {
+        if (!item || typeof item !== 'object' || typeof item.name !== 'string') return null;
+
+        const args = item.arguments ?? item.parameters;
+        if (typeof args === 'string') {
+            calls.push({ name: item.name, arguments: args });
+        } else if (args && typeof args === 'object' && !Array.isArray(args)) {
+            calls.push({ name: item.name, arguments: JSON.stringify(args) });
+        } else {
+            return null;
+        }
+    }
+
+    return calls;
+}
+
+/**
+ * End of the JSON object or array at the start of `text` (after whitespace).
+ * Returns null while it is incomplete, or the position of anything else so the block ends there.
+ */
+export function findJsonEnd(text: string, from: number = 0): number | null {
+    let start = from;
+    while (start < text.length && /\s/.test(text[start])) start++;
+    if (start === text.length) return null;
+    if (text[start] !== '{' && text[start] !== '[') return start;
+
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            depth++;
+        } else if (char === '}' || char === ']') {
+            depth--;
+            if (depth === 0) return i + 1;
+        }
+    }
+
+    return null;
+}
+
+function pushText(events: XmlToolEvent[], text: string): void {
+    const last = events[events.length - 1];
+    if (last?.type === 'text') {
+        last.text += text;
+    } else {
+        events.push({ type: 'text', text });
+    }
+}
+
+/**
+ * Start of the longest suffix of `text` that is a proper prefix of `marker` (case-insensitive),
+ * or the text length if there is none
+ */
+function findPartialMarker(text: string, marker: string): number {
+    const lowerText = text.toLowerCase();
+    const lowerMarker = marker.toLowerCase();
+    for (let len = Math.min(marker.length - 1, text.length); len > 0; len--) {
+        if (lowerText.endsWith(lowerMarker.substring(0, len))) {
+            return text.length - len;
+        }
+    }
+    return text.length;
+}
+
+/**
+ * Start of a trailing fragment that may still become the closing tag, or the text length if there is none
+ */
+function findPartialClose(text: string): number {
+    const last = text.lastIndexOf('<');
+    if (last === -1) return text.length;
+
+    // "</tool>" directly before the closing tag is part of it
+    const previous = text.lastIndexOf('<', last - 1);
+    if (previous !== -1 && PARTIAL_CLOSE_PATTERN.test(text.substring(previous))) {
+        return previous;
+    }
+
+    return PARTIAL_CLOSE_PATTERN.test(text.substring(last)) ? last : text.length;
+}
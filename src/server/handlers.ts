@@ -1,17 +1,35 @@
 // Proxy server request handlers
 import { FastifyRequest, FastifyReply } from 'fastify';
 import OpenAI from 'openai';
-import { AnthropicMessageRequest } from '../types/anthropic';
+import { AnthropicMessageRequest, AnthropicMessageResponse } from '../types/anthropic';
 import { AdapterConfig } from '../types/config';
 import { convertRequestToOpenAI } from '../converters/request';
-import { isAzureOpenAIEndpoint } from '../utils/provider';
-import { convertResponseToAnthropic, createErrorResponse } from '../converters/response';
-import { streamOpenAIToAnthropic } from '../converters/streaming';
+import { DEFAULT_PROVIDER_NAME, resolveProviderName, resolveUpstreamTargets, ResolvedProvider } from '../utils/provider';
+import { resolveMaxContinuations, resolveThinkingConfig, resolveToolDialect, validateToolDialects } from '../utils/modelOptions';
+import { resolveModel } from '../utils/modelRouter';
+import { resolveCapabilities } from '../utils/capabilities';
+import { convertResponseToAnthropic, createErrorResponse, ResponseConversionOptions } from '../converters/response';
+import { streamOpenAIToAnthropic, StreamConversionOptions } from '../converters/streaming';
 import { streamXmlOpenAIToAnthropic } from '../converters/xmlStreaming';
 import { validateAnthropicRequest, formatValidationErrors } from '../utils/validation';
 import { logger, RequestLogger } from '../utils/logger';
 import { recordUsage } from '../utils/tokenUsage';
 import { recordError } from '../utils/errorLog';
+import { estimateRequestTokens } from '../utils/tokenCounter';
+import { withRetry, resolveRetryPolicy, RetryPolicy } from '../utils/retry';
+import { convertRateLimitHeaders, headersToRecord, UpstreamHeaders } from '../converters/headers';
+import { translateError } from '../converters/errors';
+import { DEFAULT_PING_INTERVAL_MS } from '../converters/sse';
+import { ToolCallValidator, validateResponseToolCalls } from '../converters/toolValidation';
+import { splitStopSequences } from '../converters/stopSequences';
+import { OpenAIChatRequest, OpenAIMessage, OpenAIStreamChunk } from '../types/openai';
+import { createProviderClients, selectProviderClient } from './providers';
+
+// Response header naming the provider/model that served the request
+const BACKEND_HEADER = 'X-Adapter-Backend';
+
+// How long to hold back a stream for its first chunk before starting the response
+const FIRST_CHUNK_WAIT_MS = 500;
 
 // Request ID counter for unique identification
 let requestIdCounter = 0;
@@ -27,19 +45,29 @@ function generateRequestId(): string {
  * Handle POST /v1/messages requests
  */
 export function createMessagesHandler(config: AdapterConfig) {
-    const isAzure = isAzureOpenAIEndpoint(config.baseUrl);
-    const openai = new OpenAI({
-        baseURL: config.baseUrl,
-        apiKey: config.apiKey,
-    });
+    validateToolDialects(config);
+    const clients = createProviderClients(config);
+    const retryPolicy = resolveRetryPolicy(config.retry);
+    const pingIntervalMs = config.pingInterval !== undefined ? config.pingInterval * 1000 : DEFAULT_PING_INTERVAL_MS;
 
     return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
         const requestId = generateRequestId();
         const log = logger.withRequestId(requestId);
+        let providerLabel = config.baseUrl;
 
         // Add request ID to response headers for client tracing
         reply.header('X-Request-Id', requestId);
 
+        // Stop the upstream request when Claude Code disconnects (e.g. the user pressed Esc)
+        const abortController = new AbortController();
+        const { signal } = abortController;
+        reply.raw.on('close', () => {
+            if (!reply.raw.writableFinished) {
+                log.info('Client disconnected, aborting upstream request');
+                abortController.abort();
+            }
+        });
+
         try {
             // Validate request before processing
             const validation = validateAnthropicRequest(request.body);
@@ -52,38 +80,146 @@ export function createMessagesHandler(config: AdapterConfig) {
             }
 
             const anthropicRequest = request.body as AnthropicMessageRequest;
-            const targetModel = anthropicRequest.model;
+            const targetModel = resolveModel(anthropicRequest.model, config);
             const isStreaming = anthropicRequest.stream ?? false;
 
-            log.info(`→ ${targetModel} [sent]`);
+            if (targetModel !== anthropicRequest.model) {
+                log.debug('Routed model', { requested: anthropicRequest.model, target: targetModel });
+            }
 
-            // Determine tool calling style from config
-            const toolStyle = config.toolFormat || 'native';
+            const targets = resolveUpstreamTargets(config, targetModel);
 
-            // Convert request to OpenAI format
-            const openaiRequest = convertRequestToOpenAI(anthropicRequest, targetModel, toolStyle, isAzure);
+            for (const [attempt, target] of targets.entries()) {
+                const { provider, openai } = selectProviderClient(clients, target.provider);
+                providerLabel = getProviderLabel(provider);
 
-            // Log tool calling mode when tools are present
-            if (toolStyle === 'xml' && anthropicRequest.tools?.length) {
-                log.info(`Using XML tool calling mode (${anthropicRequest.tools.length} tools)`);
-            }
+                log.debug('Selected provider', { provider: provider.name, baseUrl: provider.baseUrl });
+                log.info(`→ ${target.model} [sent]`);
+
+                // Determine tool calling style from the provider; models without native tools use XML
+                const capabilities = resolveCapabilities(config, provider, target.model);
+                const toolStyle = capabilities.tools ? provider.toolFormat : 'xml';
 
-            if (isStreaming) {
-                if (toolStyle === 'xml') {
-                    await handleXmlStreamingRequest(openai, openaiRequest, reply, anthropicRequest.model, config.baseUrl, log);
-                } else {
-                    await handleStreamingRequest(openai, openaiRequest, reply, anthropicRequest.model, config.baseUrl, log);
+                // Convert request to OpenAI format
+                const thinking = resolveThinkingConfig(config, target.model);
+                const toolDialect = resolveToolDialect(config, target.model);
+                const openaiRequest = convertRequestToOpenAI(anthropicRequest, target.model, toolStyle, {
+                    thinking,
+                    toolDialect,
+                    capabilities,
+                });
+
+                // Stop sequences the provider does not accept are enforced on the output instead
+                const { local: localStopSequences } = splitStopSequences(anthropicRequest.stop_sequences, capabilities.maxStopSequences);
+                if (localStopSequences.length > 0) {
+                    log.debug('Enforcing stop sequences locally', { count: localStopSequences.length });
+                }
+
+                // Log tool calling mode when tools are present
+                if (toolStyle === 'xml' && anthropicRequest.tools?.length) {
+                    log.info(`Using XML tool calling mode (${anthropicRequest.tools.length} tools, ${toolDialect} dialect)`);
+                }
+
+                const backend = `${provider.name}/${target.model}`;
+                let opened = false;
+
+                // Re-queries after invalid or truncated tool calls continue the same upstream request with the follow-up messages appended
+                const validator = config.toolValidation && anthropicRequest.tools?.length
+                    ? new ToolCallValidator(anthropicRequest.tools, config.toolValidation)
+                    : undefined;
+                const maxContinuations = toolStyle === 'xml' ? resolveMaxContinuations(config, target.model) : 0;
+                const withFollowUp = (followUp: OpenAIMessage[]): OpenAIChatRequest => ({
+                    ...openaiRequest,
+                    messages: [...openaiRequest.messages, ...followUp],
+                });
+                const requeryStream = async (followUp: OpenAIMessage[], reason: string) => {
+                    log.info(`Re-querying ${backend} ${reason}`);
+                    const { data } = await withUpstreamRetry(() => openStream(openai, withFollowUp(followUp), signal, log), retryPolicy, backend, log);
+                    return data;
+                };
+
+                const outputOptions: StreamConversionOptions = {
+                    thinkTags: thinking.tags,
+                    implicitThinkOpen: thinking.implicitOpen,
+                    signal,
+                    inputTokens: estimateRequestTokens(openaiRequest),
+                    pingIntervalMs,
+                    toolDialect,
+                    stopSequences: anthropicRequest.stop_sequences,
+                    localStopSequences,
+                    toolValidation: validator && {
+                        validator,
+                        requery: followUp => requeryStream(followUp, 'after invalid tool calls'),
+                    },
+                    continuation: maxContinuations > 0 ? {
+                        maxContinuations,
+                        requery: followUp => requeryStream(followUp, 'to continue a truncated tool call'),
+                    } : undefined,
+                };
+
+                try {
+                    if (isStreaming) {
+                        const { data: stream, headers } = await withUpstreamRetry(() => openStream(openai, openaiRequest, signal, log), retryPolicy, backend, log);
+                        opened = true;
+                        setReplyHeader(reply, BACKEND_HEADER, backend);
+                        setRateLimitHeaders(reply, headers);
+
+                        if (toolStyle === 'xml') {
+                            await handleXmlStreamingRequest(stream, reply, anthropicRequest.model, providerLabel, log, outputOptions);
+                        } else {
+                            await handleStreamingRequest(stream, reply, anthropicRequest.model, providerLabel, log, outputOptions);
+                        }
+                    } else {
+                        const { data: response, headers } = await withUpstreamRetry(() => requestCompletion(openai, openaiRequest, signal, log), retryPolicy, backend, log);
+                        opened = true;
+                        setReplyHeader(reply, BACKEND_HEADER, backend);
+                        setRateLimitHeaders(reply, headers);
+
+                        const toolValidation = validator && {
+                            validator,
+                            requery: async (followUp: OpenAIMessage[]) => {
+                                log.info(`Re-querying ${backend} after invalid tool calls`);
+                                const { data } = await withUpstreamRetry(() => requestCompletion(openai, withFollowUp(followUp), signal, log), retryPolicy, backend, log);
+                                return data;
+                            },
+                        };
+                        await handleNonStreamingRequest(response, reply, anthropicRequest.model, providerLabel, log, outputOptions, toolValidation);
+                    }
+                } catch (error) {
+                    // Fall back only while nothing has been sent to the client
+                    const next = targets[attempt + 1];
+                    if (opened || !next || signal.aborted || !isFailoverError(error as Error)) {
+                        throw error;
+                    }
+
+                    log.warn(`${backend} failed, falling back to ${next.provider}/${next.model}`, {
+                        error: (error as Error).message
+                    });
+                    recordError(error as Error, {
+                        requestId,
+                        provider: providerLabel,
+                        modelName: anthropicRequest.model,
+                        model: target.model,
+                        attempt: attempt + 1,
+                        streaming: isStreaming
+                    });
+                    continue;
                 }
-            } else {
-                await handleNonStreamingRequest(openai, openaiRequest, reply, anthropicRequest.model, config.baseUrl, log);
-            }
 
-            log.info(`← ${targetModel} [received]`);
+                log.info(`← ${target.model} [received]`);
+                return;
+            }
         } catch (error) {
+            // Nobody is left to receive the error
+            if (signal.aborted) {
+                log.debug('Upstream request aborted', { error: (error as Error).message });
+                return;
+            }
+
             const body = request.body as any;
             handleError(error as Error, reply, log, {
                 requestId,
-                provider: config.baseUrl,
+                provider: providerLabel,
                 modelName: body?.model ?? 'unknown',
                 streaming: body?.stream ?? false
             });
@@ -92,23 +228,245 @@ export function createMessagesHandler(config: AdapterConfig) {
 }
 
 /**
- * Handle non-streaming API request
+ * Handle POST /v1/messages/count_tokens requests
+ * Runs the same conversion as /v1/messages (including XML tool instructions)
+ * so the count reflects what is actually sent upstream.
  */
-async function handleNonStreamingRequest(
+export function createCountTokensHandler(config: AdapterConfig) {
+    const clients = createProviderClients(config);
+
+    return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+        const requestId = generateRequestId();
+        const log = logger.withRequestId(requestId);
+        let providerLabel = config.baseUrl;
+
+        reply.header('X-Request-Id', requestId);
+
+        try {
+            // count_tokens requests carry no max_tokens
+            const validation = validateAnthropicRequest(request.body, { requireMaxTokens: false });
+            if (!validation.valid) {
+                const errorMessage = formatValidationErrors(validation.errors);
+                log.warn('Invalid request', { errors: validation.errors });
+                const errorResponse = createErrorResponse(new Error(errorMessage), 400);
+                reply.code(400).send({ error: errorResponse.error });
+                return;
+            }
+
+            const body = request.body as AnthropicMessageRequest;
+            const targetModel = resolveModel(body.model, config);
+            const anthropicRequest: AnthropicMessageRequest = { ...body, max_tokens: body.max_tokens ?? 1, stream: false };
+            const { provider, openai } = selectProviderClient(clients, resolveProviderName(config, targetModel));
+            providerLabel = getProviderLabel(provider);
+
+            const capabilities = resolveCapabilities(config, provider, targetModel);
+            const openaiRequest = convertRequestToOpenAI(anthropicRequest, targetModel, capabilities.tools ? provider.toolFormat : 'xml', {
+                thinking: resolveThinkingConfig(config, targetModel),
+                toolDialect: resolveToolDialect(config, targetModel),
+                capabilities,
+            });
+
+            let inputTokens = estimateRequestTokens(openaiRequest);
+            if (config.tokenCounting === 'upstream') {
+                inputTokens = await countUpstreamTokens(openai, openaiRequest, log) ?? inputTokens;
+            }
+
+            log.debug('Counted input tokens', { model: targetModel, inputTokens });
+            reply.send({ input_tokens: inputTokens });
+        } catch (error) {
+            const body = request.body as any;
+            handleError(error as Error, reply, log, {
+                requestId,
+                provider: providerLabel,
+                modelName: body?.model ?? 'unknown',
+                streaming: false
+            });
+        }
+    };
+}
+
+/**
+ * Ask the upstream for an exact prompt token count by generating a single token.
+ * Returns null when the provider fails or reports no usage, so callers can fall back to the estimate.
+ */
+async function countUpstreamTokens(
     openai: OpenAI,
-    openaiRequest: any,
-    reply: FastifyReply,
-    originalModel: string,
-    provider: string,
+    openaiRequest: OpenAIChatRequest,
     log: RequestLogger
-): Promise<void> {
+): Promise<number | null> {
+    const probe: OpenAIChatRequest = { ...openaiRequest, stream: false, stream_options: undefined };
+    if (probe.max_completion_tokens !== undefined) {
+        probe.max_completion_tokens = 1;
+    } else {
+        probe.max_tokens = 1;
+    }
+
+    try {
+        const response = await openai.chat.completions.create(probe as OpenAI.ChatCompletionCreateParamsNonStreaming);
+        return response.usage?.prompt_tokens ?? null;
+    } catch (error) {
+        log.warn('Upstream token count failed, using local estimate', { error: (error as Error).message });
+        return null;
+    }
+}
+
+/**
+ * Upstream result along with its response headers
+ */
+interface UpstreamResponse<T> {
+    data: T;
+    headers: UpstreamHeaders;
+}
+
+/**
+ * Send a non-streaming request upstream
+ */
+async function requestCompletion(
+    openai: OpenAI,
+    openaiRequest: OpenAIChatRequest,
+    signal: AbortSignal,
+    log: RequestLogger
+): Promise<UpstreamResponse<OpenAI.ChatCompletion>> {
     log.debug('Making non-streaming request');
 
-    const response = await openai.chat.completions.create({
+    const { data, response } = await openai.chat.completions.create({
         ...openaiRequest,
         stream: false,
+    } as OpenAI.ChatCompletionCreateParamsNonStreaming, { signal }).withResponse();
+
+    return { data, headers: headersToRecord(response.headers) };
+}
+
+/**
+ * Open a streaming request upstream.
+ * Waits for the first chunk, so errors the provider reports at the start of the
+ * stream surface before anything is sent to the client and can still fail over.
+ * The wait is short and fixed: a slow first chunk is handed to the converter,
+ * which starts the message and keeps the connection alive meanwhile.
+ * A converter that stops iterating early (e.g. on a local stop sequence) cancels the request.
+ */
+async function openStream(
+    openai: OpenAI,
+    openaiRequest: OpenAIChatRequest,
+    signal: AbortSignal,
+    log: RequestLogger
+): Promise<UpstreamResponse<AsyncIterable<OpenAIStreamChunk>>> {
+    log.debug('Making streaming request');
+
+    const { data: stream, response } = await openai.chat.completions.create({
+        ...openaiRequest,
+        stream: true,
+    } as OpenAI.ChatCompletionCreateParamsStreaming, { signal }).withResponse();
+
+    const iterator = (stream as AsyncIterable<OpenAIStreamChunk>)[Symbol.asyncIterator]();
+    const firstChunk = iterator.next();
+    const arrived = await settlesWithin(firstChunk, FIRST_CHUNK_WAIT_MS);
+    if (!arrived) {
+        log.debug('First chunk is slow, starting the response');
+    }
+
+    return {
+        data: {
+            async *[Symbol.asyncIterator]() {
+                let next = await firstChunk;
+                try {
+                    while (!next.done) {
+                        yield next.value;
+                        next = await iterator.next();
+                    }
+                } finally {
+                    if (!next.done) {
+                        // Returning the SDK stream aborts the upstream request
+                        await iterator.return?.();
+                    }
+                }
+            }
+        },
+        headers: headersToRecord(response.headers),
+    };
+}
+
+/**
+ * Whether a promise settles within the timeout.
+ * Rejections are rethrown; a promise still pending at the timeout is left to the caller to await.
+ */
+async function settlesWithin(promise: Promise<unknown>, timeoutMs: number): Promise<boolean> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    try {
+        return await Promise.race([promise.then(() => true), timeout]);
+    } finally {
+        clearTimeout(timer);
+        // Avoid an unhandled rejection if the promise fails after the timeout
+        promise.catch(() => {});
+    }
+}
+
+/**
+ * Retry an upstream call according to the policy, logging each retry.
+ * Only wraps opening the request, so a stream is never retried once it reaches the client.
+ */
+function withUpstreamRetry<T>(
+    operation: () => Promise<T>,
+    policy: RetryPolicy,
+    backend: string,
+    log: RequestLogger
+): Promise<T> {
+    return withRetry(operation, policy, {
+        onRetry: (error, attempt, delayMs) => {
+            log.warn(`${backend} failed, retrying in ${delayMs}ms (attempt ${attempt + 1}/${policy.maxAttempts})`, {
+                status: (error as any).status,
+                error: error.message
+            });
+        }
     });
+}
+
+/**
+ * Tool call validation for a non-streaming request
+ */
+interface ResponseToolValidation {
+    validator: ToolCallValidator;
+    requery: (followUp: OpenAIMessage[]) => Promise<OpenAI.ChatCompletion>;
+}
+
+/**
+ * Handle non-streaming API response
+ */
+async function handleNonStreamingRequest(
+    response: OpenAI.ChatCompletion,
+    reply: FastifyReply,
+    originalModel: string,
+    provider: string,
+    log: RequestLogger,
+    options: ResponseConversionOptions = {},
+    toolValidation?: ResponseToolValidation
+): Promise<void> {
+    let anthropicResponse = convertCompletion(response, originalModel, provider, log, options);
+
+    if (toolValidation) {
+        anthropicResponse = await validateResponseToolCalls(anthropicResponse, toolValidation.validator, async followUp => {
+            const next = await toolValidation.requery(followUp);
+            return convertCompletion(next, originalModel, provider, log, options);
+        });
+    }
 
+    reply.send(anthropicResponse);
+}
+
+/**
+ * Record usage for a completion and convert it to Anthropic format
+ */
+function convertCompletion(
+    response: OpenAI.ChatCompletion,
+    originalModel: string,
+    provider: string,
+    log: RequestLogger,
+    options: ResponseConversionOptions
+): AnthropicMessageResponse {
     log.debug('Response received', {
         finishReason: response.choices[0]?.finish_reason,
         usage: response.usage
@@ -127,54 +485,76 @@ async function handleNonStreamingRequest(
         });
     }
 
-    const anthropicResponse = convertResponseToAnthropic(response as any, originalModel);
-    reply.send(anthropicResponse);
+    return convertResponseToAnthropic(response as any, originalModel, options);
 }
 
 /**
- * Handle streaming API request
+ * Handle streaming API response
  */
 async function handleStreamingRequest(
-    openai: OpenAI,
-    openaiRequest: any,
+    stream: AsyncIterable<OpenAIStreamChunk>,
     reply: FastifyReply,
     originalModel: string,
     provider: string,
-    log: RequestLogger
+    log: RequestLogger,
+    options: StreamConversionOptions = {}
 ): Promise<void> {
-    log.debug('Making streaming request');
-
-    const stream = await openai.chat.completions.create({
-        ...openaiRequest,
-        stream: true,
-    } as OpenAI.ChatCompletionCreateParamsStreaming);
-
-    await streamOpenAIToAnthropic(stream as any, reply, originalModel, provider);
+    await streamOpenAIToAnthropic(stream as any, reply, originalModel, provider, options);
     log.debug('Streaming completed');
 }
 
 /**
- * Handle XML streaming API request (for models without native tool calling)
+ * Handle XML streaming API response (for models without native tool calling)
  */
 async function handleXmlStreamingRequest(
-    openai: OpenAI,
-    openaiRequest: any,
+    stream: AsyncIterable<OpenAIStreamChunk>,
     reply: FastifyReply,
     originalModel: string,
     provider: string,
-    log: RequestLogger
+    log: RequestLogger,
+    options: StreamConversionOptions = {}
 ): Promise<void> {
-    log.debug('Making XML streaming request (experimental)');
+    log.debug('Using XML tool parsing (experimental)');
 
-    const stream = await openai.chat.completions.create({
-        ...openaiRequest,
-        stream: true,
-    } as OpenAI.ChatCompletionCreateParamsStreaming);
-
-    await streamXmlOpenAIToAnthropic(stream as any, reply, originalModel, provider);
+    await streamXmlOpenAIToAnthropic(stream as any, reply, originalModel, provider, options);
     log.debug('XML streaming completed');
 }
 
+/**
+ * Whether an upstream error is worth retrying on another backend:
+ * timeouts, connection failures, rate limits and server errors
+ */
+function isFailoverError(error: Error): boolean {
+    const status = (error as any).status;
+    return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Set a response header on both the Fastify reply and the raw response,
+ * since SSE responses are written directly to the raw response
+ */
+function setReplyHeader(reply: FastifyReply, name: string, value: string): void {
+    reply.header(name, value);
+    reply.raw.setHeader(name, value);
+}
+
+/**
+ * Forward upstream rate-limit headers in Anthropic form
+ */
+function setRateLimitHeaders(reply: FastifyReply, headers: UpstreamHeaders | undefined): void {
+    for (const [name, value] of Object.entries(convertRateLimitHeaders(headers))) {
+        setReplyHeader(reply, name, value);
+    }
+}
+
+/**
+ * Provider as recorded in usage and error logs: the base URL for the default provider,
+ * as before named providers existed, and the configured name for the others
+ */
+function getProviderLabel(provider: ResolvedProvider): string {
+    return provider.name === DEFAULT_PROVIDER_NAME ? provider.baseUrl : provider.name;
+}
+
 /**
  * Handle errors and send appropriate response
  */
@@ -198,8 +578,11 @@ function handleError(
         recordError(error, context);
     }
 
-    const errorResponse = createErrorResponse(error, statusCode);
-    reply.code(errorResponse.status).send({ error: errorResponse.error });
+    // Let the client pace its own retries after upstream rate limits
+    setRateLimitHeaders(reply, (error as any).headers);
+
+    const translated = translateError(error);
+    reply.code(translated.status).send({ error: { type: translated.type, message: translated.message } });
 }
 
 
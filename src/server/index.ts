@@ -1,8 +1,10 @@
 // Fastify proxy server setup
 import Fastify, { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { AdapterConfig } from '../types/config';
-import { createMessagesHandler } from './handlers';
+import { createMessagesHandler, createCountTokensHandler } from './handlers';
+import { ModelCatalog, createListModelsHandler, createGetModelHandler } from './models';
 import { logger } from '../utils/logger';
+import { createErrorResponse } from '../converters/response';
 
 export interface ProxyServer {
     app: FastifyInstance;
@@ -13,11 +15,24 @@ export interface ProxyServer {
 // Default graceful shutdown timeout in milliseconds
 const DEFAULT_SHUTDOWN_TIMEOUT = 10000;
 
+// Request body limit, matching Anthropic's 32 MB; several 5 MB base64 images must fit
+const BODY_LIMIT_BYTES = 32 * 1024 * 1024;
+
 /**
  * Create the proxy server with configured routes
  */
 export function createServer(config: AdapterConfig): ProxyServer {
-    const app = Fastify({ logger: false });
+    const app = Fastify({ logger: false, bodyLimit: BODY_LIMIT_BYTES });
+
+    // Errors raised before a handler runs (oversized or unparsable bodies) get the Anthropic error shape
+    app.setErrorHandler(async (error: Error & { statusCode?: number }, request: FastifyRequest, reply: FastifyReply) => {
+        const statusCode = error.statusCode ?? 500;
+        if (statusCode >= 500) {
+            logger.error('Unhandled server error', error);
+        }
+        const errorResponse = createErrorResponse(error, statusCode);
+        reply.code(statusCode).send({ error: errorResponse.error });
+    });
 
     // CORS headers for local development
     app.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
@@ -39,6 +54,14 @@ export function createServer(config: AdapterConfig): ProxyServer {
     // Main messages endpoint (matches Anthropic API)
     app.post('/v1/messages', createMessagesHandler(config));
 
+    // Token counting endpoint, used by Claude Code to decide when to compact context
+    app.post('/v1/messages/count_tokens', createCountTokensHandler(config));
+
+    // Model listing endpoints
+    const modelCatalog = new ModelCatalog(config);
+    app.get('/v1/models', createListModelsHandler(modelCatalog));
+    app.get('/v1/models/:id', createGetModelHandler(modelCatalog));
+
     return {
         app,
         start: async (port: number): Promise<string> => {
@@ -0,0 +1,218 @@
+// Models endpoints: configured aliases merged with the upstream model list
+import { FastifyRequest, FastifyReply } from 'fastify';
+import OpenAI from 'openai';
+import { AnthropicModelInfo, AnthropicModelList } from '../types/anthropic';
+import { AdapterConfig, ModelConfig } from '../types/config';
+import { createErrorResponse } from '../converters/response';
+import { logger } from '../utils/logger';
+import { createProviderClients, ProviderClient } from './providers';
+
+// Default lifetime of the cached upstream model list
+const DEFAULT_MODEL_LIST_TTL_SECONDS = 300;
+
+// Page size limits (match the Anthropic Models API)
+const DEFAULT_PAGE_LIMIT = 20;
+const MAX_PAGE_LIMIT = 1000;
+
+// Used when neither the config nor the upstream provides a creation time
+const UNKNOWN_CREATED_AT = new Date(0).toISOString();
+
+interface ListModelsQuery {
+    limit?: string;
+    after_id?: string;
+    before_id?: string;
+}
+
+/**
+ * Model catalog backing /v1/models.
+ * Configured opus/sonnet/haiku targets come first, followed by every provider's
+ * models.list() result, which is cached for the configured TTL.
+ */
+export class ModelCatalog {
+    private clients: ProviderClient[];
+    private models: ModelConfig;
+    private ttlMs: number;
+    private upstreamModels: OpenAI.Model[] | null = null;
+    private fetchedAt = 0;
+    private pending: Promise<OpenAI.Model[]> | null = null;
+
+    constructor(config: AdapterConfig) {
+        this.clients = [...createProviderClients(config).values()];
+        this.models = config.models;
+        this.ttlMs = (config.modelListTtl ?? DEFAULT_MODEL_LIST_TTL_SECONDS) * 1000;
+    }
+
+    /**
+     * All known models, configured aliases first
+     */
+    async list(): Promise<AnthropicModelInfo[]> {
+        const upstream = await this.getUpstreamModels();
+        const createdById = new Map(upstream.map(m => [m.id, toIsoDate(m.created)]));
+        const result: AnthropicModelInfo[] = [];
+        const seen = new Set<string>();
+
+        for (const [id, aliases] of groupAliasesByTarget(this.models)) {
+            seen.add(id);
+            result.push({
+                type: 'model',
+                id,
+                display_name: `${id} (${aliases.join(', ')})`,
+                created_at: createdById.get(id) ?? UNKNOWN_CREATED_AT,
+            });
+        }
+
+        for (const model of upstream) {
+            if (seen.has(model.id)) continue;
+            seen.add(model.id);
+            result.push({
+                type: 'model',
+                id: model.id,
+                display_name: model.id,
+                created_at: toIsoDate(model.created),
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Look up a single model by ID
+     */
+    async get(id: string): Promise<AnthropicModelInfo | undefined> {
+        const models = await this.list();
+        return models.find(m => m.id === id);
+    }
+
+    private async getUpstreamModels(): Promise<OpenAI.Model[]> {
+        if (this.upstreamModels && Date.now() - this.fetchedAt < this.ttlMs) {
+            return this.upstreamModels;
+        }
+
+        // Share a single in-flight request between concurrent callers
+        if (!this.pending) {
+            this.pending = this.fetchUpstreamModels().finally(() => {
+                this.pending = null;
+            });
+        }
+        return this.pending;
+    }
+
+    private async fetchUpstreamModels(): Promise<OpenAI.Model[]> {
+        const results = await Promise.all(this.clients.map(client => listProviderModels(client)));
+        const models = results.flatMap(result => result ?? []);
+
+        // Keep the previous list if every provider failed
+        if (results.every(result => result === null)) {
+            return this.upstreamModels ?? [];
+        }
+
+        this.upstreamModels = models;
+        this.fetchedAt = Date.now();
+        return models;
+    }
+}
+
+/**
+ * List one provider's models, or null if the provider fails.
+ * Many OpenAI-compatible servers lack /models; the configured aliases are still served.
+ */
+async function listProviderModels({ provider, openai }: ProviderClient): Promise<OpenAI.Model[] | null> {
+    try {
+        const models: OpenAI.Model[] = [];
+        for await (const model of openai.models.list()) {
+            models.push(model);
+        }
+        return models;
+    } catch (error) {
+        logger.warn('Failed to list upstream models', { provider: provider.name, error: (error as Error).message });
+        return null;
+    }
+}
+
+/**
+ * Handle GET /v1/models requests
+ */
+export function createListModelsHandler(catalog: ModelCatalog) {
+    return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+        const query = (request.query ?? {}) as ListModelsQuery;
+        const limit = parseLimit(query.limit);
+        if (limit === null) {
+            const errorResponse = createErrorResponse(new Error(`limit: must be between 1 and ${MAX_PAGE_LIMIT}`), 400);
+            reply.code(400).send({ error: errorResponse.error });
+            return;
+        }
+
+        const models = await catalog.list();
+        reply.send(paginate(models, limit, query.after_id, query.before_id));
+    };
+}
+
+/**
+ * Handle GET /v1/models/:id requests
+ */
+export function createGetModelHandler(catalog: ModelCatalog) {
+    return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+        const { id } = request.params as { id: string };
+        const model = await catalog.get(id);
+
+        if (!model) {
+            const errorResponse = createErrorResponse(new Error(`model: ${id}`), 404);
+            reply.code(404).send({ error: errorResponse.error });
+            return;
+        }
+
+        reply.send(model);
+    };
+}
+
+/**
+ * Target model ID → aliases that map to it, in opus/sonnet/haiku order
+ */
+function groupAliasesByTarget(models: ModelConfig): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+    for (const alias of ['opus', 'sonnet', 'haiku'] as const) {
+        const target = models[alias];
+        if (!target) continue;
+        groups.set(target, [...(groups.get(target) ?? []), alias]);
+    }
+    return groups;
+}
+
+function parseLimit(value: string | undefined): number | null {
+    if (value === undefined) return DEFAULT_PAGE_LIMIT;
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) return null;
+    return limit;
+}
+
+/**
+ * Cursor pagination over the ordered model list (after_id takes precedence over before_id)
+ */
+function paginate(models: AnthropicModelInfo[], limit: number, afterId?: string, beforeId?: string): AnthropicModelList {
+    let start = 0;
+    let end = models.length;
+
+    if (afterId) {
+        start = models.findIndex(m => m.id === afterId) + 1;
+        end = Math.min(models.length, start + limit);
+    } else if (beforeId) {
+        end = Math.max(0, models.findIndex(m => m.id === beforeId));
+        start = Math.max(0, end - limit);
+    } else {
+        end = Math.min(models.length, limit);
+    }
+
+    const data = models.slice(start, end);
+    const hasMore = afterId || !beforeId ? end < models.length : start > 0;
+
+    return {
+        data,
+        has_more: hasMore,
+        first_id: data[0]?.id ?? null,
+        last_id: data[data.length - 1]?.id ?? null,
+    };
+}
+
+function toIsoDate(unixSeconds: number | undefined): string {
+    return unixSeconds ? new Date(unixSeconds * 1000).toISOString() : UNKNOWN_CREATED_AT;
+}
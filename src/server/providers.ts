@@ -0,0 +1,41 @@
+// One OpenAI client per configured upstream provider
+import OpenAI from 'openai';
+import { AdapterConfig } from '../types/config';
+import { getProviders, ResolvedProvider } from '../utils/provider';
+
+export interface ProviderClient {
+    provider: ResolvedProvider;
+    openai: OpenAI;
+}
+
+/**
+ * Create clients for every configured provider, keyed by provider name
+ */
+export function createProviderClients(config: AdapterConfig): Map<string, ProviderClient> {
+    const clients = new Map<string, ProviderClient>();
+
+    for (const provider of getProviders(config)) {
+        clients.set(provider.name, {
+            provider,
+            openai: new OpenAI({
+                baseURL: provider.baseUrl,
+                apiKey: provider.apiKey,
+                defaultHeaders: provider.headers,
+                maxRetries: 0,  // Retries are handled by the adapter's own policy
+            }),
+        });
+    }
+
+    return clients;
+}
+
+/**
+ * Look up the client for a provider name
+ */
+export function selectProviderClient(clients: Map<string, ProviderClient>, name: string): ProviderClient {
+    const client = clients.get(name);
+    if (!client) {
+        throw new Error(`Unknown provider "${name}"`);
+    }
+    return client;
+}
@@ -12,11 +12,18 @@ export interface AnthropicMessageRequest {
     stream?: boolean;
     tools?: AnthropicToolDefinition[];
     tool_choice?: AnthropicToolChoice;
+    thinking?: AnthropicThinkingConfig;
     metadata?: {
         user_id?: string;
     };
 }
 
+// Extended thinking request parameter
+export type AnthropicThinkingConfig =
+    | { type: 'enabled'; budget_tokens: number }
+    | { type: 'disabled' }
+    | { type: 'adaptive' };  // The model decides; providers keep their default
+
 export interface AnthropicMessage {
     role: string;
     content?: string | AnthropicContentBlock[];
@@ -31,13 +38,44 @@ export interface AnthropicSystemContent {
 }
 
 // Content blocks in responses
-export type AnthropicContentBlock = AnthropicTextBlock | AnthropicToolUseBlock | AnthropicToolResultBlock;
+export type AnthropicContentBlock =
+    | AnthropicTextBlock
+    | AnthropicThinkingBlock
+    | AnthropicImageBlock
+    | AnthropicToolUseBlock
+    | AnthropicToolResultBlock;
 
 export interface AnthropicTextBlock {
     type: 'text';
     text: string;
 }
 
+export interface AnthropicThinkingBlock {
+    type: 'thinking';
+    thinking: string;
+    signature: string;
+}
+
+export interface AnthropicImageBlock {
+    type: 'image';
+    source: AnthropicImageSource;
+}
+
+export type AnthropicImageSource = AnthropicBase64ImageSource | AnthropicUrlImageSource;
+
+export type AnthropicImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+export interface AnthropicBase64ImageSource {
+    type: 'base64';
+    media_type: AnthropicImageMediaType;
+    data: string;
+}
+
+export interface AnthropicUrlImageSource {
+    type: 'url';
+    url: string;
+}
+
 export interface AnthropicToolUseBlock {
     type: 'tool_use';
     id: string;
@@ -66,8 +104,12 @@ export interface AnthropicToolDefinition {
 export interface AnthropicToolChoice {
     type: 'auto' | 'any' | 'tool';
     name?: string; // Only when type is 'tool'
+    disable_parallel_tool_use?: boolean;
 }
 
+// Why generation stopped; 'refusal' is reported when the provider's content filter intervened
+export type AnthropicStopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | 'refusal';
+
 // Message response
 export interface AnthropicMessageResponse {
     id: string;
@@ -75,7 +117,7 @@ export interface AnthropicMessageResponse {
     role: 'assistant';
     content: AnthropicContentBlock[];
     model: string;
-    stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | null;
+    stop_reason: AnthropicStopReason | null;
     stop_sequence: string | null;
     usage: AnthropicUsage;
 }
@@ -112,7 +154,7 @@ export interface AnthropicContentBlockStartEvent {
 export interface AnthropicContentBlockDeltaEvent {
     type: 'content_block_delta';
     index: number;
-    delta: AnthropicTextDelta | AnthropicInputJsonDelta;
+    delta: AnthropicTextDelta | AnthropicInputJsonDelta | AnthropicThinkingDelta | AnthropicSignatureDelta;
 }
 
 export interface AnthropicTextDelta {
@@ -125,6 +167,16 @@ export interface AnthropicInputJsonDelta {
     partial_json: string;
 }
 
+export interface AnthropicThinkingDelta {
+    type: 'thinking_delta';
+    thinking: string;
+}
+
+export interface AnthropicSignatureDelta {
+    type: 'signature_delta';
+    signature: string;
+}
+
 export interface AnthropicContentBlockStopEvent {
     type: 'content_block_stop';
     index: number;
@@ -133,11 +185,13 @@ export interface AnthropicContentBlockStopEvent {
 export interface AnthropicMessageDeltaEvent {
     type: 'message_delta';
     delta: {
-        stop_reason: 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use';
-        stop_sequence?: string;
+        stop_reason: AnthropicStopReason;
+        stop_sequence: string | null;
     };
     usage: {
+        input_tokens?: number;
         output_tokens: number;
+        cache_read_input_tokens?: number;
     };
 }
 
@@ -156,3 +210,18 @@ export interface AnthropicErrorEvent {
         message: string;
     };
 }
+
+// Models API
+export interface AnthropicModelInfo {
+    type: 'model';
+    id: string;
+    display_name: string;
+    created_at: string;  // RFC 3339 datetime
+}
+
+export interface AnthropicModelList {
+    data: AnthropicModelInfo[];
+    has_more: boolean;
+    first_id: string | null;
+    last_id: string | null;
+}
@@ -6,8 +6,146 @@ export interface AdapterConfig {
     models: ModelConfig;
     toolFormat?: 'native' | 'xml';  // Default: 'native'
     port?: number;
+    thinking?: ThinkingConfig;
+    tokenCounting?: 'estimate' | 'upstream';  // count_tokens strategy; default: 'estimate'
+    modelOptions?: Record<string, ModelOptions>;  // Keyed by upstream model ID
+    modelListTtl?: number;  // Seconds to cache the upstream model list; default: 300
+    modelRoutes?: Record<string, string>;  // Glob pattern → alias (opus/sonnet/haiku) or upstream model ID
+    providers?: Record<string, ProviderConfig>;  // Additional upstreams, keyed by provider name
+    modelProviders?: Record<string, string>;  // Alias or upstream model ID → provider name; default: 'default'
+    fallbacks?: Record<string, FallbackTarget[]>;  // Alias or upstream model ID → backups, tried in order
+    retry?: RetryConfig;
+    toolDialect?: ToolDialectName;  // Tool call format in XML mode; default: 'tool_code'
+    pingInterval?: number;  // Seconds between SSE keepalive pings while streaming; 0 disables; default: 10
+    toolValidation?: ToolValidationConfig;  // Check tool calls against their input_schema; default: off
+    preset?: CapabilityPresetName;  // Capability preset of the default provider; default: detected from baseUrl
+    capabilities?: CapabilityProfile;  // Overrides the default provider's preset field by field
 }
 
+/**
+ * Built-in capability profiles for well-known upstreams
+ */
+export type CapabilityPresetName =
+    | 'openai'
+    | 'azure'
+    | 'groq'
+    | 'mistral'
+    | 'deepseek'
+    | 'ollama'
+    | 'vllm'
+    | 'lmstudio'
+    | 'openrouter';
+
+/**
+ * What an upstream accepts. Requests are shaped to fit, and anything the
+ * upstream cannot do is emulated by the adapter where possible.
+ * Defaults are those of a generic OpenAI-compatible server.
+ */
+export interface CapabilityProfile {
+    tools?: boolean;  // Native function calling; false switches to XML tool calling; default: true
+    parallelToolCalls?: boolean;  // Accepts `parallel_tool_calls`, sent for disable_parallel_tool_use; default: false
+    images?: boolean;  // Image input; false replaces images with text placeholders; default: true
+    maxStopSequences?: number;  // Entries accepted in `stop`, 0 if rejected; the rest are enforced locally; default: 4
+    streamOptions?: boolean;  // Accepts `stream_options` to report usage when streaming; default: true
+    temperatureRange?: [number, number] | null;  // Temperatures are clamped to it; null omits temperature; default: [0, 2]
+    temperatureScale?: number;  // Anthropic's 0-1 temperature is multiplied by it before clamping; default: 1
+    topP?: boolean;  // Accepts `top_p`; default: true
+    topK?: boolean;  // Accepts `top_k`, an extension of vLLM, Ollama and OpenRouter; default: false
+    maxOutputTokens?: number;  // Larger max_tokens values are lowered to it; default: no limit
+    minOutputTokens?: number;  // Smaller max_tokens values are raised to it; default: 32
+    systemRole?: 'system' | 'developer' | 'user';  // 'user' prepends the system prompt to the first user message; default: 'system'
+    tokenParam?: 'max_tokens' | 'max_completion_tokens';  // Default: 'max_tokens'
+    userField?: boolean;  // Accepts `user`, filled from metadata.user_id; default: false
+    thinkingFormat?: ReasoningParamFormat;  // Reasoning control sent for `thinking` unless thinking.format is set; default: 'none'
+}
+
+/**
+ * Retry policy for upstream calls, applied before failing over.
+ * Streams are never retried once output has been sent to the client.
+ */
+export interface RetryConfig {
+    maxAttempts?: number;        // Including the first request; default: 3
+    initialDelayMs?: number;     // Default: 500
+    maxDelayMs?: number;         // Longer Retry-After values are not waited for; default: 8000
+    backoffMultiplier?: number;  // Default: 2
+    jitter?: number;             // Random ± fraction of each delay; default: 0.2
+    retryOnStatus?: number[];    // Default: 408, 429, 500, 502, 503, 504, 529
+}
+
+/**
+ * Tool call validation against each tool's input_schema. Trivially wrong values
+ * (e.g. "true" for a boolean) are coerced; calls that still fail are handled by onFailure:
+ * - requery: the model gets the errors as a tool result and is asked to call again
+ * - message: the call is dropped and the errors are shown as text
+ * Validated tool calls are sent whole instead of streaming their input.
+ */
+export interface ToolValidationConfig {
+    onFailure?: 'requery' | 'message';  // Default: 'requery'
+    maxRequeries?: number;  // Re-queries per request before falling back to a message; default: 1
+}
+
+/**
+ * A backup upstream tried when the previous one fails before streaming starts
+ */
+export interface FallbackTarget {
+    model: string;  // Upstream model ID
+    provider?: string;  // Default: resolved through modelProviders
+}
+
+/**
+ * An OpenAI-compatible upstream. The top-level baseUrl/apiKey/toolFormat
+ * form the implicit 'default' provider.
+ */
+export interface ProviderConfig {
+    baseUrl: string;
+    apiKey: string;
+    toolFormat?: 'native' | 'xml';  // Default: 'native'
+    azure?: boolean;  // Default: detected from baseUrl
+    headers?: Record<string, string>;  // Extra headers sent with every request
+    preset?: CapabilityPresetName;  // Default: detected from baseUrl
+    capabilities?: CapabilityProfile;  // Overrides the preset field by field
+}
+
+/**
+ * How the Anthropic thinking budget is sent to the provider:
+ * - reasoning_effort: OpenAI-style `reasoning_effort` (low/medium/high)
+ * - openrouter: `reasoning: { max_tokens }`
+ * - qwen: `enable_thinking` + `thinking_budget`
+ * - thinking: `thinking: { type }` (GLM, DeepSeek, Kimi)
+ * - none: not sent
+ */
+export type ReasoningParamFormat = 'reasoning_effort' | 'openrouter' | 'qwen' | 'thinking' | 'none';
+
+/**
+ * Text format used for tool calls in XML mode:
+ * - tool_code: the adapter's own <tool_code name="...">{json}</tool_code>
+ * - hermes / qwen: <tool_call>{"name", "arguments"}</tool_call>
+ * - mistral: [TOOL_CALLS][{"name", "arguments"}]
+ * - llama3: <|python_tag|>{"name", "parameters"}
+ * - json_fence: ```json {"name", "arguments"} ``` code blocks
+ */
+export type ToolDialectName = 'tool_code' | 'hermes' | 'qwen' | 'mistral' | 'llama3' | 'json_fence';
+
+export interface ThinkingConfig {
+    format?: ReasoningParamFormat;        // Default: the capability profile's thinkingFormat
+    history?: 'strip' | 'reinject';       // Prior thinking blocks; default: 'strip'
+    tags?: 'thinking' | 'text' | 'hide';  // Inline <think> tags in output; default: 'thinking'
+    implicitOpen?: boolean;               // Streamed output starts inside <think>, which the chat template opened; default: false
+}
+
+/**
+ * Per-model overrides, applied on top of the global settings
+ */
+export interface ModelOptions {
+    thinking?: ThinkingConfig;
+    toolDialect?: ToolDialectName;
+    capabilities?: CapabilityProfile;  // Overrides the provider's capabilities field by field
+    reasoningModel?: boolean;  // Apply OpenAI reasoning model restrictions; default: detected from the model ID
+    maxContinuations?: number;  // XML mode: requests to continue a tool call cut off by max_tokens; default: 0
+}
+
+export type ModelAlias = keyof ModelConfig;
+
 export interface ModelConfig {
     opus: string;
     sonnet: string;
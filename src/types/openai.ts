@@ -7,6 +7,7 @@ export interface OpenAIChatRequest {
     max_completion_tokens?: number;
     temperature?: number;
     top_p?: number;
+    top_k?: number;  // vLLM, Ollama, OpenRouter
     n?: number;
     stream?: boolean;
     stream_options?: {
@@ -19,8 +20,17 @@ export interface OpenAIChatRequest {
     user?: string;
     tools?: OpenAITool[];
     tool_choice?: OpenAIToolChoice;
+    parallel_tool_calls?: boolean;
+    // Reasoning controls (which one is sent depends on the provider)
+    reasoning_effort?: OpenAIReasoningEffort;
+    reasoning?: { max_tokens?: number; effort?: OpenAIReasoningEffort };  // OpenRouter
+    enable_thinking?: boolean;  // Qwen / DashScope
+    thinking_budget?: number;   // Qwen / DashScope
+    thinking?: { type: 'enabled' | 'disabled' };  // GLM, DeepSeek, Kimi
 }
 
+export type OpenAIReasoningEffort = 'low' | 'medium' | 'high';
+
 export type OpenAIMessage =
     | OpenAISystemMessage
     | OpenAIUserMessage
@@ -28,7 +38,7 @@ export type OpenAIMessage =
     | OpenAIToolMessage;
 
 export interface OpenAISystemMessage {
-    role: 'system';
+    role: 'system' | 'developer';  // 'developer' for OpenAI reasoning models
     content: string;
 }
 
@@ -41,6 +51,10 @@ export interface OpenAIAssistantMessage {
     role: 'assistant';
     content: string | null;
     tool_calls?: OpenAIToolCall[];
+    // Reasoning output from reasoning models (DeepSeek, Qwen, Kimi use
+    // reasoning_content; OpenRouter and some others use reasoning)
+    reasoning_content?: string | null;
+    reasoning?: string | null;
 }
 
 export interface OpenAIToolMessage {
@@ -111,6 +125,9 @@ export interface OpenAIChoice {
     index: number;
     message: OpenAIAssistantMessage;
     finish_reason: 'stop' | 'length' | 'tool_calls' | 'content_filter' | null;
+    // Matched stop string or token ID (vLLM: stop_reason, SGLang: matched_stop)
+    stop_reason?: string | number | null;
+    matched_stop?: string | number | null;
 }
 
 export interface OpenAIUsage {
@@ -136,12 +153,17 @@ export interface OpenAIStreamChoice {
     index: number;
     delta: OpenAIStreamDelta;
     finish_reason: 'stop' | 'length' | 'tool_calls' | 'content_filter' | null;
+    // Matched stop string or token ID (vLLM: stop_reason, SGLang: matched_stop)
+    stop_reason?: string | number | null;
+    matched_stop?: string | number | null;
 }
 
 export interface OpenAIStreamDelta {
     role?: 'assistant';
     content?: string;
     tool_calls?: OpenAIStreamToolCall[];
+    reasoning_content?: string | null;
+    reasoning?: string | null;
 }
 
 export interface OpenAIStreamToolCall {
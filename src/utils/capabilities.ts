@@ -0,0 +1,118 @@
+// Provider capability profiles: what each upstream accepts, so requests can be shaped to fit
+import { AdapterConfig, CapabilityPresetName, CapabilityProfile } from '../types/config';
+import { DEFAULT_MAX_STOP_SEQUENCES } from '../converters/stopSequences';
+import { ResolvedProvider } from './provider';
+
+/**
+ * A capability profile with every field filled in
+ */
+export type ResolvedCapabilities = Required<CapabilityProfile>;
+
+/**
+ * Capabilities of a generic OpenAI-compatible server
+ */
+export const DEFAULT_CAPABILITIES: ResolvedCapabilities = {
+    tools: true,
+    parallelToolCalls: false,
+    images: true,
+    maxStopSequences: DEFAULT_MAX_STOP_SEQUENCES,
+    streamOptions: true,
+    temperatureRange: [0, 2],
+    temperatureScale: 1,
+    topP: true,
+    topK: false,
+    maxOutputTokens: Infinity,
+    // Claude Code sends max_tokens: 1 to warm the prompt cache, which Azure OpenAI
+    // rejects; 32 leaves room for a brief acknowledgment or the start of a tool call
+    minOutputTokens: 32,
+    systemRole: 'system',
+    tokenParam: 'max_tokens',
+    userField: false,
+    thinkingFormat: 'none',
+};
+
+/**
+ * Differences of each preset from the generic defaults
+ */
+export const CAPABILITY_PRESETS: Record<CapabilityPresetName, CapabilityProfile> = {
+    openai: { parallelToolCalls: true, tokenParam: 'max_completion_tokens', userField: true },
+    azure: { parallelToolCalls: true, tokenParam: 'max_completion_tokens', userField: true },
+    groq: { parallelToolCalls: true, minOutputTokens: 1 },
+    // Mistral rejects unknown parameters, and reports streaming usage without being asked
+    mistral: { parallelToolCalls: true, streamOptions: false, temperatureRange: [0, 1.5], minOutputTokens: 1 },
+    // Output limits differ per model (deepseek-chat 8K, deepseek-reasoner far more), so none is set here
+    deepseek: { images: false, maxStopSequences: 16, minOutputTokens: 1 },
+    ollama: { maxStopSequences: Infinity, minOutputTokens: 1, topK: true },
+    vllm: { parallelToolCalls: true, maxStopSequences: Infinity, minOutputTokens: 1, userField: true, topK: true },
+    lmstudio: { maxStopSequences: Infinity, minOutputTokens: 1 },
+    openrouter: { parallelToolCalls: true, userField: true, topK: true },
+};
+
+// OpenAI reasoning models reject `stop` and sampling parameters, need max_completion_tokens,
+// and are the only OpenAI models that accept reasoning_effort
+// Chat variants such as gpt-5-chat-latest are regular chat models
+const REASONING_MODEL_PATTERN = /(^|\/)(o\d|gpt-5)/i;
+const CHAT_VARIANT_PATTERN = /-chat(-|$)/i;
+const REASONING_MODEL_CAPABILITIES: CapabilityProfile = {
+    maxStopSequences: 0,
+    temperatureRange: null,
+    topP: false,
+    topK: false,
+    tokenParam: 'max_completion_tokens',
+    thinkingFormat: 'reasoning_effort',
+};
+
+// Hosts of the hosted APIs, and default ports of local servers
+const PRESET_HOSTS: [RegExp, CapabilityPresetName][] = [
+    [/(^|\.)api\.openai\.com$/, 'openai'],
+    [/(^|\.)api\.groq\.com$/, 'groq'],
+    [/(^|\.)api\.mistral\.ai$/, 'mistral'],
+    [/(^|\.)api\.deepseek\.com$/, 'deepseek'],
+    [/(^|\.)openrouter\.ai$/, 'openrouter'],
+];
+const PRESET_PORTS: Record<string, CapabilityPresetName> = {
+    '11434': 'ollama',
+    '1234': 'lmstudio',
+};
+
+/**
+ * Guess the preset of a provider from its base URL, or undefined for unknown servers
+ */
+export function detectCapabilityPreset(baseUrl: string, isAzure: boolean): CapabilityPresetName | undefined {
+    if (isAzure) return 'azure';
+
+    try {
+        const url = new URL(baseUrl);
+        const hostname = url.hostname.toLowerCase();
+        return PRESET_HOSTS.find(([pattern]) => pattern.test(hostname))?.[1] ?? PRESET_PORTS[url.port];
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Resolve what an upstream model accepts: the generic defaults, then the provider's preset,
+ * then OpenAI reasoning model restrictions, then configured overrides for the provider and
+ * for the model, each field by field
+ */
+export function resolveCapabilities(config: AdapterConfig, provider: ResolvedProvider, model: string): ResolvedCapabilities {
+    return {
+        ...DEFAULT_CAPABILITIES,
+        ...(provider.preset && CAPABILITY_PRESETS[provider.preset]),
+        ...(isReasoningModel(config, provider, model) && REASONING_MODEL_CAPABILITIES),
+        ...provider.capabilities,
+        ...config.modelOptions?.[model]?.capabilities,
+    };
+}
+
+/**
+ * Whether OpenAI reasoning model restrictions apply: `reasoningModel` in the model's
+ * options, otherwise detected from the model ID on OpenAI, Azure and unknown servers
+ */
+function isReasoningModel(config: AdapterConfig, provider: ResolvedProvider, model: string): boolean {
+    const configured = config.modelOptions?.[model]?.reasoningModel;
+    if (configured !== undefined) return configured;
+
+    const isOpenAI = provider.preset === undefined || provider.preset === 'openai' || provider.preset === 'azure';
+    return isOpenAI && REASONING_MODEL_PATTERN.test(model) && !CHAT_VARIANT_PATTERN.test(model);
+}
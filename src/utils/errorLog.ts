@@ -7,6 +7,8 @@ export interface ErrorLogRecord {
     requestId: string;
     provider: string;
     modelName: string;
+    model?: string;           // Upstream model, when it differs per attempt
+    attempt?: number;         // 1-based position in the fallback chain
     streaming: boolean;
     error: {
         message: string;
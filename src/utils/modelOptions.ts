@@ -0,0 +1,49 @@
+// Per-model option resolution
+import { AdapterConfig, ThinkingConfig, ToolDialectName } from '../types/config';
+import { getToolDialect } from '../converters/toolDialects';
+
+/**
+ * Resolve the thinking settings for an upstream model.
+ * Per-model options override the global `thinking` section field by field.
+ */
+export function resolveThinkingConfig(config: AdapterConfig, model: string): ThinkingConfig {
+    return {
+        ...config.thinking,
+        ...config.modelOptions?.[model]?.thinking,
+    };
+}
+
+/**
+ * Resolve the XML tool call dialect for an upstream model
+ */
+export function resolveToolDialect(config: AdapterConfig, model: string): ToolDialectName {
+    return config.modelOptions?.[model]?.toolDialect ?? config.toolDialect ?? 'tool_code';
+}
+
+/**
+ * Check that every configured dialect exists, so a typo fails at startup
+ * instead of on each request
+ */
+export function validateToolDialects(config: AdapterConfig): void {
+    const configured: [string, string | undefined][] = [
+        ['toolDialect', config.toolDialect],
+        ...Object.entries(config.modelOptions ?? {})
+            .map(([model, options]): [string, string | undefined] => [`modelOptions["${model}"].toolDialect`, options?.toolDialect]),
+    ];
+
+    for (const [field, name] of configured) {
+        if (name === undefined) continue;
+        try {
+            getToolDialect(name);
+        } catch (error) {
+            throw new Error(`Invalid ${field}: ${(error as Error).message}`);
+        }
+    }
+}
+
+/**
+ * Resolve how often a response cut off mid tool call is continued
+ */
+export function resolveMaxContinuations(config: AdapterConfig, model: string): number {
+    return config.modelOptions?.[model]?.maxContinuations ?? 0;
+}
@@ -0,0 +1,51 @@
+// Model routing: requested model ID → upstream model ID
+import { AdapterConfig, ModelAlias } from '../types/config';
+
+const MODEL_ALIASES: ModelAlias[] = ['opus', 'sonnet', 'haiku'];
+
+/**
+ * Resolve the upstream model for a requested model ID.
+ * User-defined `modelRoutes` are tried first (in order), then any `claude-*` ID
+ * containing opus/sonnet/haiku maps to that family's configured target.
+ * Anything else (e.g. IDs from the ANTHROPIC_DEFAULT_*_MODEL env vars) passes through unchanged.
+ */
+export function resolveModel(requestedModel: string, config: Pick<AdapterConfig, 'models' | 'modelRoutes'>): string {
+    for (const [pattern, target] of Object.entries(config.modelRoutes ?? {})) {
+        if (matchesGlob(requestedModel, pattern)) {
+            return resolveTarget(target, config);
+        }
+    }
+
+    const model = requestedModel.toLowerCase();
+    if (model.startsWith('claude-')) {
+        const alias = MODEL_ALIASES.find(a => model.includes(a));
+        if (alias && config.models[alias]) {
+            return config.models[alias];
+        }
+    }
+
+    return requestedModel;
+}
+
+/**
+ * Route targets may name an alias instead of a concrete model
+ */
+function resolveTarget(target: string, config: Pick<AdapterConfig, 'models'>): string {
+    const alias = MODEL_ALIASES.find(a => a === target);
+    return alias ? config.models[alias] : target;
+}
+
+/**
+ * Case-insensitive glob match supporting `*` and `?`
+ */
+function matchesGlob(value: string, pattern: string): boolean {
+    const source = pattern
+        .split('')
+        .map(char => {
+            if (char === '*') return '.*';
+            if (char === '?') return '.';
+            return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('');
+    return new RegExp(`^${source}$`, 'i').test(value);
+}
@@ -1,3 +1,32 @@
+// Upstream provider resolution
+import { AdapterConfig, CapabilityPresetName, CapabilityProfile, ModelAlias } from '../types/config';
+import { detectCapabilityPreset } from './capabilities';
+
+// Name of the provider formed by the top-level baseUrl/apiKey
+export const DEFAULT_PROVIDER_NAME = 'default';
+
+/**
+ * Provider settings with defaults applied
+ */
+export interface ResolvedProvider {
+    name: string;
+    baseUrl: string;
+    apiKey: string;
+    toolFormat: 'native' | 'xml';
+    isAzure: boolean;
+    headers?: Record<string, string>;
+    preset?: CapabilityPresetName;  // Undefined for servers without a preset
+    capabilities?: CapabilityProfile;
+}
+
+/**
+ * A model on a specific provider
+ */
+export interface UpstreamTarget {
+    model: string;
+    provider: string;
+}
+
 export function isAzureOpenAIEndpoint(baseUrl: string): boolean {
     try {
         const url = new URL(baseUrl);
@@ -8,3 +37,72 @@ export function isAzureOpenAIEndpoint(baseUrl: string): boolean {
         return false;
     }
 }
+
+/**
+ * All configured providers, starting with the default one
+ */
+export function getProviders(config: AdapterConfig): ResolvedProvider[] {
+    const isAzure = isAzureOpenAIEndpoint(config.baseUrl);
+    const providers: ResolvedProvider[] = [{
+        name: DEFAULT_PROVIDER_NAME,
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        toolFormat: config.toolFormat || 'native',
+        isAzure,
+        preset: config.preset ?? detectCapabilityPreset(config.baseUrl, isAzure),
+        capabilities: config.capabilities,
+    }];
+
+    for (const [name, provider] of Object.entries(config.providers ?? {})) {
+        if (name === DEFAULT_PROVIDER_NAME) continue;  // Reserved for the top-level settings
+        const isAzure = provider.azure ?? isAzureOpenAIEndpoint(provider.baseUrl);
+        providers.push({
+            name,
+            baseUrl: provider.baseUrl,
+            apiKey: provider.apiKey,
+            toolFormat: provider.toolFormat || 'native',
+            isAzure,
+            headers: provider.headers,
+            preset: provider.preset ?? detectCapabilityPreset(provider.baseUrl, isAzure),
+            capabilities: provider.capabilities,
+        });
+    }
+
+    return providers;
+}
+
+/**
+ * Name of the provider serving an upstream model
+ */
+export function resolveProviderName(config: AdapterConfig, model: string): string {
+    return lookupModelTable(config.modelProviders, config, model) ?? DEFAULT_PROVIDER_NAME;
+}
+
+/**
+ * The primary upstream for a model followed by its configured fallbacks, in the order they are tried
+ */
+export function resolveUpstreamTargets(config: AdapterConfig, model: string): UpstreamTarget[] {
+    const fallbacks = lookupModelTable(config.fallbacks, config, model) ?? [];
+
+    return [
+        { model, provider: resolveProviderName(config, model) },
+        ...fallbacks.map(fallback => ({
+            model: fallback.model,
+            provider: fallback.provider ?? resolveProviderName(config, fallback.model),
+        })),
+    ];
+}
+
+/**
+ * Look up a per-model table by upstream model ID first, then by any alias configured with that model
+ */
+function lookupModelTable<T>(table: Record<string, T> | undefined, config: AdapterConfig, model: string): T | undefined {
+    if (!table) return undefined;
+    if (table[model] !== undefined) {
+        return table[model];
+    }
+
+    const aliases = Object.keys(config.models) as ModelAlias[];
+    const alias = aliases.find(a => config.models[a] === model && table[a] !== undefined);
+    return alias ? table[alias] : undefined;
+}
@@ -0,0 +1,134 @@
+// Retry with exponential backoff for upstream calls
+import { RetryConfig } from '../types/config';
+
+export interface RetryPolicy {
+    maxAttempts: number;
+    initialDelayMs: number;
+    maxDelayMs: number;
+    backoffMultiplier: number;
+    jitter: number;
+    retryOnStatus: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    initialDelayMs: 500,
+    maxDelayMs: 8000,
+    backoffMultiplier: 2,
+    jitter: 0.2,
+    retryOnStatus: [408, 429, 500, 502, 503, 504, 529],
+};
+
+export interface RetryOptions {
+    onRetry?: (error: Error, attempt: number, delayMs: number) => void;
+    sleep?: (ms: number) => Promise<void>;
+    random?: () => number;
+}
+
+/**
+ * Apply configured overrides to the default policy
+ */
+export function resolveRetryPolicy(config?: RetryConfig): RetryPolicy {
+    return {
+        ...DEFAULT_RETRY_POLICY,
+        ...config,
+        maxAttempts: Math.max(1, config?.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts),
+    };
+}
+
+/**
+ * Run an operation, retrying retryable failures with exponential backoff.
+ * `attempt` passed to onRetry is the 1-based attempt that just failed.
+ */
+export async function withRetry<T>(
+    operation: () => Promise<T>,
+    policy: RetryPolicy,
+    options: RetryOptions = {}
+): Promise<T> {
+    const sleep = options.sleep ?? defaultSleep;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation();
+        } catch (error) {
+            if (attempt >= policy.maxAttempts || !isRetryableError(error as Error, policy)) {
+                throw error;
+            }
+
+            const delayMs = getRetryDelay(error as Error, attempt, policy, options.random);
+            if (delayMs === null) {
+                throw error;
+            }
+
+            options.onRetry?.(error as Error, attempt, delayMs);
+            await sleep(delayMs);
+        }
+    }
+}
+
+/**
+ * Whether a failure may succeed on retry: configured statuses, timeouts and connection errors
+ */
+export function isRetryableError(error: Error, policy: RetryPolicy): boolean {
+    const status = (error as any).status;
+    if (typeof status === 'number') {
+        return policy.retryOnStatus.includes(status);
+    }
+
+    // Requests cancelled by the client are not retried
+    return error.name !== 'AbortError' && error.name !== 'APIUserAbortError';
+}
+
+/**
+ * Delay before the next attempt. An upstream Retry-After takes precedence over backoff;
+ * returns null when it asks for longer than maxDelayMs, so the caller fails fast instead.
+ */
+export function getRetryDelay(
+    error: Error,
+    attempt: number,
+    policy: RetryPolicy,
+    random: () => number = Math.random
+): number | null {
+    const retryAfterMs = parseRetryAfter((error as any).headers);
+    if (retryAfterMs !== null) {
+        return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : null;
+    }
+
+    const backoff = Math.min(
+        policy.maxDelayMs,
+        policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1)
+    );
+    const jitter = backoff * policy.jitter * (random() * 2 - 1);
+    return Math.max(0, Math.round(backoff + jitter));
+}
+
+/**
+ * Parse `retry-after-ms` or `retry-after` (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(headers: Record<string, string | null | undefined> | undefined): number | null {
+    if (!headers) return null;
+
+    const retryAfterMs = Number(headers['retry-after-ms']);
+    if (headers['retry-after-ms'] && Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+        return retryAfterMs;
+    }
+
+    const retryAfter = headers['retry-after'];
+    if (!retryAfter) return null;
+
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+        return seconds * 1000;
+    }
+
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return null;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
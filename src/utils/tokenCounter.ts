@@ -0,0 +1,73 @@
+// Local token count estimation for converted requests
+import { OpenAIChatRequest, OpenAIMessage } from '../types/openai';
+
+// Fixed overheads used by OpenAI chat formats (role markers, separators)
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REQUEST = 3;
+
+// Rough cost of an image; providers price them by resolution, which is unknown here
+const TOKENS_PER_IMAGE = 1600;
+
+// Average characters per token for ASCII text with BPE tokenizers
+const ASCII_CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the number of tokens in a piece of text.
+ * ASCII text averages ~4 characters per token, while other scripts
+ * (CJK, emoji, etc.) are closer to one token per character.
+ */
+export function estimateTextTokens(text: string): number {
+    let ascii = 0;
+    let other = 0;
+
+    for (const char of text) {
+        if (char.charCodeAt(0) < 128) {
+            ascii++;
+        } else {
+            other++;
+        }
+    }
+
+    return Math.ceil(ascii / ASCII_CHARS_PER_TOKEN) + other;
+}
+
+/**
+ * Estimate the prompt tokens of a converted OpenAI request
+ */
+export function estimateRequestTokens(request: OpenAIChatRequest): number {
+    let total = TOKENS_PER_REQUEST;
+
+    for (const message of request.messages) {
+        total += TOKENS_PER_MESSAGE + estimateMessageTokens(message);
+    }
+
+    if (request.tools && request.tools.length > 0) {
+        total += estimateTextTokens(JSON.stringify(request.tools));
+    }
+
+    return total;
+}
+
+function estimateMessageTokens(message: OpenAIMessage): number {
+    let total = 0;
+
+    if (typeof message.content === 'string') {
+        total += estimateTextTokens(message.content);
+    } else if (Array.isArray(message.content)) {
+        for (const part of message.content) {
+            total += part.type === 'text' ? estimateTextTokens(part.text) : TOKENS_PER_IMAGE;
+        }
+    }
+
+    if (message.role === 'assistant' && message.reasoning_content) {
+        total += estimateTextTokens(message.reasoning_content);
+    }
+
+    if (message.role === 'assistant' && message.tool_calls) {
+        for (const toolCall of message.tool_calls) {
+            total += estimateTextTokens(toolCall.function.name + toolCall.function.arguments);
+        }
+    }
+
+    return total;
+}
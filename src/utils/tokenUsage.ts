@@ -11,6 +11,7 @@ export interface TokenUsageRecord {
     outputTokens: number;
     cachedInputTokens?: number;
     streaming: boolean;
+    aborted?: boolean;        // Client disconnected before the response completed
 }
 
 const USAGE_DIR = join(getBaseDir(), 'token_usage');
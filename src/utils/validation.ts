@@ -11,10 +11,23 @@ export interface ValidationResult {
     errors: ValidationError[];
 }
 
+// Image types accepted by the Anthropic API
+const SUPPORTED_IMAGE_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+// Maximum decoded size of a base64 image (matches the Anthropic API limit)
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Minimum extended thinking budget accepted by the Anthropic API
+const MIN_THINKING_BUDGET = 1024;
+
+export interface ValidationOptions {
+    requireMaxTokens?: boolean;  // count_tokens requests have no max_tokens; default: true
+}
+
 /**
  * Validate an incoming Anthropic Messages API request
  */
-export function validateAnthropicRequest(body: unknown): ValidationResult {
+export function validateAnthropicRequest(body: unknown, options: ValidationOptions = {}): ValidationResult {
     const errors: ValidationError[] = [];
 
     // Check if body is an object
@@ -29,11 +42,14 @@ export function validateAnthropicRequest(body: unknown): ValidationResult {
         errors.push({ field: 'model', message: 'model is required and must be a string' });
     }
 
-    // Required field: max_tokens
-    if (request.max_tokens === undefined || typeof request.max_tokens !== 'number') {
-        errors.push({ field: 'max_tokens', message: 'max_tokens is required and must be a number' });
-    } else if (request.max_tokens <= 0) {
-        errors.push({ field: 'max_tokens', message: 'max_tokens must be a positive number' });
+    // Required field: max_tokens (optional for token counting)
+    const requireMaxTokens = options.requireMaxTokens ?? true;
+    if (request.max_tokens !== undefined || requireMaxTokens) {
+        if (typeof request.max_tokens !== 'number') {
+            errors.push({ field: 'max_tokens', message: 'max_tokens is required and must be a number' });
+        } else if (request.max_tokens <= 0) {
+            errors.push({ field: 'max_tokens', message: 'max_tokens must be a positive number' });
+        }
     }
 
     // Required field: messages
@@ -62,13 +78,55 @@ export function validateAnthropicRequest(body: unknown): ValidationResult {
         }
     }
 
+    if (request.top_k !== undefined) {
+        if (typeof request.top_k !== 'number' || !Number.isInteger(request.top_k) || request.top_k < 1) {
+            errors.push({ field: 'top_k', message: 'top_k must be a positive integer' });
+        }
+    }
+
     if (request.stream !== undefined && typeof request.stream !== 'boolean') {
         errors.push({ field: 'stream', message: 'stream must be a boolean' });
     }
 
+    if (request.thinking !== undefined) {
+        errors.push(...validateThinking(request.thinking, request.max_tokens));
+    }
+
     return { valid: errors.length === 0, errors };
 }
 
+/**
+ * Validate the extended thinking parameter
+ */
+function validateThinking(thinking: unknown, maxTokens: unknown): ValidationError[] {
+    if (!thinking || typeof thinking !== 'object') {
+        return [{ field: 'thinking', message: 'thinking must be an object' }];
+    }
+
+    const config = thinking as Record<string, unknown>;
+
+    if (typeof config.type !== 'string') {
+        return [{ field: 'thinking.type', message: 'thinking type must be a string' }];
+    }
+    // Other types (e.g. 'adaptive' from newer clients) carry no budget and pass through
+    if (config.type !== 'enabled') {
+        return [];
+    }
+
+    const budget = config.budget_tokens;
+    if (typeof budget !== 'number' || !Number.isInteger(budget)) {
+        return [{ field: 'thinking.budget_tokens', message: 'budget_tokens is required and must be an integer' }];
+    }
+    if (budget < MIN_THINKING_BUDGET) {
+        return [{ field: 'thinking.budget_tokens', message: `budget_tokens must be at least ${MIN_THINKING_BUDGET}` }];
+    }
+    if (typeof maxTokens === 'number' && budget >= maxTokens) {
+        return [{ field: 'thinking.budget_tokens', message: 'budget_tokens must be less than max_tokens' }];
+    }
+
+    return [];
+}
+
 /**
  * Validate message array structure
  */
@@ -131,12 +189,74 @@ function validateContentBlocks(blocks: unknown[], messageIndex: number): Validat
                 field: `messages[${messageIndex}].content[${j}].type`,
                 message: 'content block type is required'
             });
+        } else if (contentBlock.type === 'image') {
+            errors.push(...validateImageBlock(contentBlock, `messages[${messageIndex}].content[${j}]`));
+        } else if (contentBlock.type === 'tool_result' && Array.isArray(contentBlock.content)) {
+            // Tool results may carry images (e.g. screenshot tools)
+            contentBlock.content.forEach((nested: unknown, k: number) => {
+                if (nested && typeof nested === 'object' && (nested as Record<string, unknown>).type === 'image') {
+                    errors.push(...validateImageBlock(
+                        nested as Record<string, unknown>,
+                        `messages[${messageIndex}].content[${j}].content[${k}]`
+                    ));
+                }
+            });
         }
     }
 
     return errors;
 }
 
+/**
+ * Validate an image content block's source, media type and size
+ */
+function validateImageBlock(block: Record<string, unknown>, field: string): ValidationError[] {
+    const source = block.source as Record<string, unknown> | undefined;
+
+    if (!source || typeof source !== 'object') {
+        return [{ field: `${field}.source`, message: 'image source is required' }];
+    }
+
+    if (source.type === 'base64') {
+        const errors: ValidationError[] = [];
+
+        if (typeof source.media_type !== 'string' || !SUPPORTED_IMAGE_MEDIA_TYPES.includes(source.media_type)) {
+            errors.push({
+                field: `${field}.source.media_type`,
+                message: `media_type must be one of: ${SUPPORTED_IMAGE_MEDIA_TYPES.join(', ')}`
+            });
+        }
+
+        if (typeof source.data !== 'string' || source.data.length === 0) {
+            errors.push({ field: `${field}.source.data`, message: 'image data must be a non-empty base64 string' });
+        } else if (getBase64DecodedSize(source.data) > MAX_IMAGE_BYTES) {
+            errors.push({
+                field: `${field}.source.data`,
+                message: `image exceeds the maximum size of ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`
+            });
+        }
+
+        return errors;
+    }
+
+    if (source.type === 'url') {
+        if (typeof source.url !== 'string' || !/^https?:\/\//i.test(source.url)) {
+            return [{ field: `${field}.source.url`, message: 'image url must be an http(s) URL' }];
+        }
+        return [];
+    }
+
+    return [{ field: `${field}.source.type`, message: "image source type must be 'base64' or 'url'" }];
+}
+
+/**
+ * Compute the decoded byte length of a base64 string without decoding it
+ */
+function getBase64DecodedSize(data: string): number {
+    const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+    return Math.floor((data.length * 3) / 4) - padding;
+}
+
 /**
  * Format validation errors into a human-readable message
  */
@@ -0,0 +1,124 @@
+// Tests for provider capability profiles
+import {
+    CAPABILITY_PRESETS,
+    DEFAULT_CAPABILITIES,
+    detectCapabilityPreset,
+    resolveCapabilities,
+} from '../src/utils/capabilities';
+import { AdapterConfig } from '../src/types/config';
+import { getProviders, ResolvedProvider } from '../src/utils/provider';
+
+const baseConfig: AdapterConfig = {
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey: 'openai-key',
+    models: { opus: 'o3', sonnet: 'gpt-4.1', haiku: 'gpt-4o-mini' },
+};
+
+function provider(name: string, config: AdapterConfig): ResolvedProvider {
+    return getProviders(config).find(p => p.name === name)!;
+}
+
+describe('Capabilities', () => {
+    describe('detectCapabilityPreset', () => {
+        it('should recognise hosted APIs by host', () => {
+            expect(detectCapabilityPreset('https://api.openai.com/v1', false)).toBe('openai');
+            expect(detectCapabilityPreset('https://api.groq.com/openai/v1', false)).toBe('groq');
+            expect(detectCapabilityPreset('https://api.mistral.ai/v1', false)).toBe('mistral');
+            expect(detectCapabilityPreset('https://api.deepseek.com', false)).toBe('deepseek');
+            expect(detectCapabilityPreset('https://openrouter.ai/api/v1', false)).toBe('openrouter');
+            expect(detectCapabilityPreset('https://gateway.example.com/openai', true)).toBe('azure');
+        });
+
+        it('should recognise local servers by their default port', () => {
+            expect(detectCapabilityPreset('http://localhost:11434/v1', false)).toBe('ollama');
+            expect(detectCapabilityPreset('http://127.0.0.1:1234/v1', false)).toBe('lmstudio');
+        });
+
+        it('should leave unknown servers without a preset', () => {
+            expect(detectCapabilityPreset('http://localhost:8000/v1', false)).toBeUndefined();
+            expect(detectCapabilityPreset('not a url', false)).toBeUndefined();
+        });
+    });
+
+    describe('resolveCapabilities', () => {
+        it('should apply the detected preset over the defaults', () => {
+            const config: AdapterConfig = { ...baseConfig, baseUrl: 'https://api.deepseek.com' };
+
+            expect(resolveCapabilities(config, provider('default', config), 'deepseek-chat')).toEqual({
+                ...DEFAULT_CAPABILITIES,
+                ...CAPABILITY_PRESETS.deepseek,
+            });
+        });
+
+        it('should restrict OpenAI reasoning models', () => {
+            const reasoning = resolveCapabilities(baseConfig, provider('default', baseConfig), 'o3');
+            const routed = resolveCapabilities(baseConfig, provider('default', baseConfig), 'openai/gpt-5');
+
+            expect(reasoning).toMatchObject({
+                maxStopSequences: 0,
+                temperatureRange: null,
+                topP: false,
+                tokenParam: 'max_completion_tokens',
+                thinkingFormat: 'reasoning_effort',
+            });
+            expect(routed.maxStopSequences).toBe(0);
+            expect(resolveCapabilities(baseConfig, provider('default', baseConfig), 'gpt-4o-mini').maxStopSequences).toBe(4);
+        });
+
+        it('should treat chat variants as regular chat models', () => {
+            const chat = resolveCapabilities(baseConfig, provider('default', baseConfig), 'gpt-5-chat-latest');
+
+            expect(chat).toMatchObject({ temperatureRange: [0, 2], topP: true, maxStopSequences: 4 });
+            expect(chat.tokenParam).toBe(CAPABILITY_PRESETS.openai.tokenParam);
+        });
+
+        it('should let model options decide whether a model is a reasoning model', () => {
+            const config: AdapterConfig = {
+                ...baseConfig,
+                modelOptions: {
+                    'o4-mini-sampling': { reasoningModel: false },
+                    'my-reasoner': { reasoningModel: true },
+                },
+            };
+
+            expect(resolveCapabilities(config, provider('default', config), 'o4-mini-sampling').topP).toBe(true);
+            expect(resolveCapabilities(config, provider('default', config), 'my-reasoner')).toMatchObject({ topP: false, temperatureRange: null });
+        });
+
+        it('should not apply the reasoning rules to other presets', () => {
+            const config: AdapterConfig = { ...baseConfig, baseUrl: 'http://localhost:11434/v1' };
+
+            expect(resolveCapabilities(config, provider('default', config), 'o3-mini-distill').maxStopSequences).toBe(Infinity);
+        });
+
+        it('should let an explicit preset replace detection', () => {
+            const config: AdapterConfig = { ...baseConfig, baseUrl: 'http://gpu-box:8000/v1', preset: 'vllm' };
+
+            expect(resolveCapabilities(config, provider('default', config), 'qwen3-coder')).toMatchObject({ maxStopSequences: Infinity, userField: true });
+        });
+
+        it('should apply the provider overrides, then the model overrides', () => {
+            const config: AdapterConfig = {
+                ...baseConfig,
+                capabilities: { maxStopSequences: 1 },
+                providers: { local: { baseUrl: 'http://localhost:8000/v1', apiKey: 'none', capabilities: { maxStopSequences: 16, tools: false } } },
+                modelOptions: { 'my-o-series': { capabilities: { maxStopSequences: 0 } } },
+            };
+
+            expect(resolveCapabilities(config, provider('default', config), 'o3').maxStopSequences).toBe(1);
+            expect(resolveCapabilities(config, provider('local', config), 'qwen3-coder')).toMatchObject({ maxStopSequences: 16, tools: false });
+            expect(resolveCapabilities(config, provider('local', config), 'my-o-series').maxStopSequences).toBe(0);
+        });
+
+        it('should let a model override the sampling parameters of its preset', () => {
+            const config: AdapterConfig = {
+                ...baseConfig,
+                baseUrl: 'https://openrouter.ai/api/v1',
+                modelOptions: { 'openai/gpt-4.1': { capabilities: { topK: false, temperatureScale: 2 } } },
+            };
+
+            expect(resolveCapabilities(config, provider('default', config), 'meta-llama/llama-3.3-70b').topK).toBe(true);
+            expect(resolveCapabilities(config, provider('default', config), 'openai/gpt-4.1')).toMatchObject({ topK: false, temperatureScale: 2 });
+        });
+    });
+});
@@ -0,0 +1,109 @@
+// Tests for upstream error translation
+import { translateError, getErrorTypeForStatus } from '../src/converters/errors';
+
+function providerError(status: number | undefined, message: string, body?: Record<string, unknown>) {
+    return Object.assign(new Error(message), { status, error: body, code: body?.code, type: body?.type });
+}
+
+describe('Error Translation', () => {
+    describe('getErrorTypeForStatus', () => {
+        it.each([
+            [400, 'invalid_request_error'],
+            [401, 'authentication_error'],
+            [402, 'billing_error'],
+            [403, 'permission_error'],
+            [404, 'not_found_error'],
+            [413, 'request_too_large'],
+            [429, 'rate_limit_error'],
+            [500, 'api_error'],
+            [502, 'api_error'],
+            [503, 'overloaded_error'],
+            [529, 'overloaded_error'],
+        ])('should map %i to %s', (status, type) => {
+            expect(getErrorTypeForStatus(status)).toBe(type);
+        });
+    });
+
+    describe('translateError', () => {
+        // [provider, error, expected status, expected type]
+        const cases: Array<[string, Error, number, string]> = [
+            ['OpenAI context length', providerError(400, "400 This model's maximum context length is 128000 tokens. However, your messages resulted in 130532 tokens.", { code: 'context_length_exceeded', type: 'invalid_request_error' }), 400, 'invalid_request_error'],
+            ['vLLM context length', providerError(400, "This model's maximum context length is 32768 tokens. However, you requested 40000 tokens (39000 in the messages, 1000 in the completion)."), 400, 'invalid_request_error'],
+            ['payload too large', providerError(413, 'Request Entity Too Large'), 400, 'invalid_request_error'],
+            ['Groq context window', providerError(400, 'Please reduce the length of the messages or completion.'), 400, 'invalid_request_error'],
+            ['Gemini input too long', providerError(400, 'The input token count (1200000) exceeds the maximum number of tokens allowed'), 400, 'invalid_request_error'],
+            ['OpenAI quota', providerError(429, '429 You exceeded your current quota, please check your plan and billing details.', { code: 'insufficient_quota', type: 'insufficient_quota' }), 402, 'billing_error'],
+            ['DeepSeek balance', providerError(402, 'Insufficient Balance'), 402, 'billing_error'],
+            ['OpenRouter credits', providerError(402, 'This request requires more credits, or fewer max_tokens.'), 402, 'billing_error'],
+            ['service unavailable', providerError(503, 'Service Unavailable'), 529, 'overloaded_error'],
+            ['overloaded message', providerError(500, 'The engine is currently overloaded, please try again later'), 529, 'overloaded_error'],
+            ['Azure content filter', providerError(400, "The response was filtered due to the prompt triggering Azure OpenAI's content management policy.", { code: 'content_filter' }), 400, 'invalid_request_error'],
+            ['Qwen inspection', providerError(400, 'Input data may contain inappropriate content.', { code: 'data_inspection_failed' }), 400, 'invalid_request_error'],
+            ['plain rate limit', providerError(429, 'Rate limit reached for requests'), 429, 'rate_limit_error'],
+            ['bad gateway', providerError(502, 'Bad Gateway'), 502, 'api_error'],
+            ['connection error', providerError(undefined, 'Connection error.'), 500, 'api_error'],
+        ];
+
+        it.each(cases)('should translate %s', (_name, error, status, type) => {
+            const result = translateError(error);
+
+            expect(result.status).toBe(status);
+            expect(result.type).toBe(type);
+        });
+
+        it.each(cases.filter(([name]) => /context|too large|too long/.test(name)))(
+            'should report %s as prompt is too long',
+            (_name, error) => {
+                expect(translateError(error).message).toMatch(/^prompt is too long: /);
+            }
+        );
+
+        it('should emit Anthropic\'s prompt is too long message with token counts', () => {
+            const error = providerError(400, "400 This model's maximum context length is 128000 tokens. However, your messages resulted in 130532 tokens.");
+
+            expect(translateError(error).message).toBe('prompt is too long: 130532 tokens > 128000 maximum');
+        });
+
+        it('should keep the provider message when token counts are unavailable', () => {
+            const error = providerError(413, 'Request Entity Too Large');
+
+            expect(translateError(error).message).toBe('prompt is too long: Request Entity Too Large');
+        });
+
+        it('should read error codes from nested error bodies', () => {
+            const error = providerError(400, 'Bad request', { error: { code: 'context_length_exceeded' } });
+
+            expect(translateError(error).message).toMatch(/^prompt is too long/);
+        });
+
+        it('should describe content filter refusals', () => {
+            const error = providerError(400, 'Blocked', { code: 'content_filter' });
+
+            expect(translateError(error).message).toBe("Request blocked by the provider's content filter: Blocked");
+        });
+
+        it('should strip the SDK status prefix from messages', () => {
+            expect(translateError(providerError(401, '401 Incorrect API key provided')).message).toBe('Incorrect API key provided');
+        });
+
+        it.each([
+            ['a 500 mentioning billing', providerError(500, 'Internal error in the billing service'), 500, 'api_error'],
+            ['a 401 mentioning the length', providerError(401, 'Invalid API key; please reduce the length of your key header'), 401, 'authentication_error'],
+            ['a 404 mentioning billing', providerError(404, 'Model not found on your billing plan'), 404, 'not_found_error'],
+        ])('should not rewrite %s from its message alone', (_name, error, status, type) => {
+            const result = translateError(error);
+
+            expect(result.status).toBe(status);
+            expect(result.type).toBe(type);
+            expect(result.message).toBe(error.message);
+        });
+
+        it('should trust the message of an error without a status', () => {
+            expect(translateError(providerError(undefined, 'Insufficient balance')).type).toBe('billing_error');
+        });
+
+        it('should prefer an explicit status code', () => {
+            expect(translateError(new Error('Forbidden'), 403).type).toBe('permission_error');
+        });
+    });
+});
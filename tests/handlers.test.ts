@@ -12,10 +12,22 @@ jest.mock('../src/utils/errorLog', () => ({
 
 // Mock OpenAI
 const mockCreateChatCompletion = jest.fn();
+let mockResponseHeaders: Record<string, string> = {};
+
+// Mimic the SDK's APIPromise, which exposes the raw response through withResponse()
+function mockWithResponse(result: Promise<unknown>) {
+    return Object.assign(Promise.resolve(result), {
+        withResponse: async () => ({
+            data: await result,
+            response: { headers: new Headers(mockResponseHeaders) }
+        })
+    });
+}
+
 const mockOpenAI = jest.fn().mockImplementation(() => ({
     chat: {
         completions: {
-            create: mockCreateChatCompletion
+            create: (...args: unknown[]) => mockWithResponse(mockCreateChatCompletion(...args))
         }
     }
 }));
@@ -33,6 +45,7 @@ jest.mock('../src/converters/request', () => ({
 }));
 
 jest.mock('../src/converters/response', () => ({
+    ...jest.requireActual('../src/converters/response'),
     convertResponseToAnthropic: jest.fn().mockReturnValue({
         id: 'msg_123',
         type: 'message',
@@ -43,14 +56,15 @@ jest.mock('../src/converters/response', () => ({
         stop_sequence: null,
         usage: { input_tokens: 10, output_tokens: 5 }
     }),
-    createErrorResponse: jest.requireActual('../src/converters/response').createErrorResponse
 }));
 
 jest.mock('../src/converters/streaming', () => ({
+    ...jest.requireActual('../src/converters/streaming'),
     streamOpenAIToAnthropic: jest.fn().mockResolvedValue(undefined)
 }));
 
 jest.mock('../src/converters/xmlStreaming', () => ({
+    ...jest.requireActual('../src/converters/xmlStreaming'),
     streamXmlOpenAIToAnthropic: jest.fn().mockResolvedValue(undefined)
 }));
 
@@ -75,6 +89,17 @@ describe('Request Handlers', () => {
             expect(typeof handler).toBe('function');
         });
 
+        it('should reject an unknown tool dialect when it is created', () => {
+            const config = {
+                baseUrl: 'https://api.openai.com/v1',
+                apiKey: 'test-key',
+                models: { opus: 'gpt-4', sonnet: 'gpt-4', haiku: 'gpt-4' },
+                toolDialect: 'hermez',
+            } as any;
+
+            expect(() => handlersModule.createMessagesHandler(config)).toThrow('Unknown tool dialect "hermez"');
+        });
+
         it('should handle validation errors', async () => {
             const config = {
                 baseUrl: 'https://api.openai.com/v1',
@@ -94,6 +119,7 @@ describe('Request Handlers', () => {
 
             const mockReply = {
                 header: jest.fn().mockReturnThis(),
+                raw: { setHeader: jest.fn(), on: jest.fn() },
                 code: jest.fn().mockImplementation((code: number) => {
                     responseCode = code;
                     return mockReply;
@@ -154,6 +180,7 @@ describe('Error Response Handling', () => {
 
         const mockReply = {
             header: jest.fn().mockReturnThis(),
+            raw: { setHeader: jest.fn(), on: jest.fn() },
             code: jest.fn().mockImplementation((code: number) => {
                 responseCode = code;
                 return mockReply;
@@ -192,7 +219,8 @@ describe('Error Response Handling', () => {
             mockReply = {
                 header: jest.fn().mockReturnThis(),
                 code: jest.fn().mockReturnThis(),
-                send: jest.fn().mockReturnThis()
+                send: jest.fn().mockReturnThis(),
+                raw: { setHeader: jest.fn(), on: jest.fn() }
             };
         });
 
@@ -210,7 +238,7 @@ describe('Error Response Handling', () => {
 
             expect(mockCreateChatCompletion).toHaveBeenCalledWith(expect.objectContaining({
                 stream: false
-            }));
+            }), expect.anything());
             expect(mockReply.send).toHaveBeenCalled();
         });
 
@@ -232,7 +260,7 @@ describe('Error Response Handling', () => {
 
             expect(mockCreateChatCompletion).toHaveBeenCalledWith(expect.objectContaining({
                 stream: true
-            }));
+            }), expect.anything());
             expect(streamOpenAIToAnthropic).toHaveBeenCalled();
         });
 
@@ -257,6 +285,406 @@ describe('Error Response Handling', () => {
             expect(streamXmlOpenAIToAnthropic).toHaveBeenCalled();
         });
 
+        it('should route Claude model IDs and echo the requested ID back', async () => {
+            const handler = handlersModule.createMessagesHandler(config);
+            const { convertRequestToOpenAI } = require('../src/converters/request');
+            const { convertResponseToAnthropic } = require('../src/converters/response');
+            mockCreateChatCompletion.mockResolvedValue({
+                id: 'chatcmpl-123',
+                choices: [{ finish_reason: 'stop', message: { content: 'Hello' } }],
+                usage: { prompt_tokens: 10, completion_tokens: 5 },
+                model: 'gpt-4'
+            });
+
+            await handler({ body: { ...mockRequestBase, stream: false } }, mockReply);
+
+            expect(convertRequestToOpenAI).toHaveBeenCalledWith(
+                expect.anything(), 'gpt-4', 'native', expect.anything()
+            );
+            expect(convertResponseToAnthropic).toHaveBeenCalledWith(
+                expect.anything(), 'claude-3-opus-20240229', expect.anything()
+            );
+        });
+
+        it('should send each model to its configured provider', async () => {
+            const { recordUsage } = require('../src/utils/tokenUsage');
+            const handler = handlersModule.createMessagesHandler({
+                ...config,
+                models: { opus: 'gpt-4', sonnet: 'gpt-4', haiku: 'qwen3:8b' },
+                providers: {
+                    local: { baseUrl: 'http://localhost:11434/v1', apiKey: 'ollama', headers: { 'X-Team': 'adapter' } }
+                },
+                modelProviders: { haiku: 'local' }
+            });
+            mockCreateChatCompletion.mockResolvedValue({
+                id: 'chatcmpl-123',
+                choices: [{ finish_reason: 'stop', message: { content: 'Hello' } }],
+                usage: { prompt_tokens: 10, completion_tokens: 5 },
+                model: 'qwen3:8b'
+            });
+
+            expect(mockOpenAI).toHaveBeenCalledWith(expect.objectContaining({
+                baseURL: 'http://localhost:11434/v1',
+                defaultHeaders: { 'X-Team': 'adapter' }
+            }));
+
+            await handler({ body: { ...mockRequestBase, model: 'claude-3-5-haiku-20241022', stream: false } }, mockReply);
+
+            expect(recordUsage).toHaveBeenCalledWith(expect.objectContaining({ provider: 'local' }));
+        });
+
+        describe('Fallback', () => {
+            const fallbackConfig = {
+                ...config,
+                providers: { backup: { baseUrl: 'https://backup.example.com/v1', apiKey: 'backup-key' } },
+                fallbacks: { opus: [{ provider: 'backup', model: 'gpt-4o-mini' }] },
+                retry: { maxAttempts: 1 }
+            };
+
+            const completion = {
+                id: 'chatcmpl-123',
+                choices: [{ finish_reason: 'stop', message: { content: 'Hello' } }],
+                usage: { prompt_tokens: 10, completion_tokens: 5 },
+                model: 'gpt-4o-mini'
+            };
+
+            function upstreamError(status: number) {
+                return Object.assign(new Error(`${status} upstream error`), { status });
+            }
+
+            it('should fall back to the next backend on server errors', async () => {
+                const { recordError } = require('../src/utils/errorLog');
+                const handler = handlersModule.createMessagesHandler(fallbackConfig);
+                mockCreateChatCompletion
+                    .mockRejectedValueOnce(upstreamError(503))
+                    .mockResolvedValueOnce(completion);
+
+                await handler({ body: { ...mockRequestBase, stream: false } }, mockReply);
+
+                expect(mockCreateChatCompletion).toHaveBeenCalledTimes(2);
+                expect(require('../src/converters/request').convertRequestToOpenAI).toHaveBeenLastCalledWith(
+                    expect.anything(), 'gpt-4o-mini', 'native', expect.anything()
+                );
+                expect(recordError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({
+                    provider: 'https://api.openai.com/v1',
+                    model: 'gpt-4',
+                    attempt: 1
+                }));
+                expect(mockReply.header).toHaveBeenCalledWith('X-Adapter-Backend', 'backup/gpt-4o-mini');
+                expect(mockReply.code).not.toHaveBeenCalled();
+            });
+
+            it('should not fall back on client errors', async () => {
+                const handler = handlersModule.createMessagesHandler(fallbackConfig);
+                mockCreateChatCompletion.mockRejectedValueOnce(upstreamError(400));
+
+                await handler({ body: { ...mockRequestBase, stream: false } }, mockReply);
+
+                expect(mockCreateChatCompletion).toHaveBeenCalledTimes(1);
+                expect(mockReply.code).toHaveBeenCalledWith(400);
+            });
+
+            it('should fall back when a stream fails before its first chunk', async () => {
+                const streamOpenAIToAnthropic = require('../src/converters/streaming').streamOpenAIToAnthropic;
+                const handler = handlersModule.createMessagesHandler(fallbackConfig);
+                const failingStream = {
+                    [Symbol.asyncIterator]: () => ({
+                        next: () => Promise.reject(upstreamError(529))
+                    })
+                };
+                const workingStream = {
+                    [Symbol.asyncIterator]: async function* () {
+                        yield { choices: [{ delta: { content: 'Hi' } }] };
+                    }
+                };
+                mockCreateChatCompletion
+                    .mockResolvedValueOnce(failingStream)
+                    .mockResolvedValueOnce(workingStream);
+
+                await handler({ body: { ...mockRequestBase, stream: true } }, mockReply);
+
+                expect(mockCreateChatCompletion).toHaveBeenCalledTimes(2);
+                expect(streamOpenAIToAnthropic).toHaveBeenCalledTimes(1);
+                expect(mockReply.raw.setHeader).toHaveBeenCalledWith('X-Adapter-Backend', 'backup/gpt-4o-mini');
+            });
+
+            it('should report the last error when every backend fails', async () => {
+                const handler = handlersModule.createMessagesHandler(fallbackConfig);
+                mockCreateChatCompletion
+                    .mockRejectedValueOnce(upstreamError(503))
+                    .mockRejectedValueOnce(upstreamError(502));
+
+                await handler({ body: { ...mockRequestBase, stream: false } }, mockReply);
+
+                expect(mockReply.code).toHaveBeenCalledWith(502);
+            });
+        });
+
+        it('should retry transient upstream errors before succeeding', async () => {
+            const handler = handlersModule.createMessagesHandler({
+                ...config,
+                retry: { maxAttempts: 2, initialDelayMs: 0, jitter: 0 }
+            });
+            mockCreateChatCompletion
+                .mockRejectedValueOnce(Object.assign(new Error('Service unavailable'), { status: 503 }))
+                .mockResolvedValueOnce({
+                    id: 'chatcmpl-123',
+                    choices: [{ finish_reason: 'stop', message: { content: 'Hello' } }],
+                    usage: { prompt_tokens: 10, completion_tokens: 5 },
+                    model: 'gpt-4'
+                });
+
+            await handler({ body: { ...mockRequestBase, stream: false } }, mockReply);
+
+            expect(mockCreateChatCompletion).toHaveBeenCalledTimes(2);
+            expect(mockReply.code).not.toHaveBeenCalled();
+        });
+
+        describe('Client disconnects', () => {
+            it('should pass an abort signal to the upstream request', async () => {
+                const handler = handlersModule.createMessagesHandler(config);
+                mockCreateChatCompletion.mockResolvedValue({
+                    id: 'chatcmpl-123',
+                    choices: [{ finish_reason: 'stop', message: { content: 'Hello' } }],
+                    usage: { prompt_tokens: 10, completion_tokens: 5 },
+                    model: 'gpt-4'
+                });
+
+                await handler({ body: { ...mockRequestBase, stream: false } }, mockReply);
+
+                expect(mockCreateChatCompletion).toHaveBeenCalledWith(
+                    expect.anything(),
+                    { signal: expect.any(AbortSignal) }
+                );
+            });
+
+            it('should abort the upstream request and skip the error reply when the client disconnects', async () => {
+                const handler = handlersModule.createMessagesHandler({ ...config, retry: { maxAttempts: 1 } });
+                let closeListener: () => void = () => {};
+                mockReply.raw.on.mockImplementation((event: string, listener: () => void) => {
+                    if (event === 'close') closeListener = listener;
+                });
+                mockReply.raw.writableFinished = false;
+
+                mockCreateChatCompletion.mockImplementation((_body: unknown, options: { signal: AbortSignal }) => {
+                    closeListener();
+                    expect(options.signal.aborted).toBe(true);
+                    return Promise.reject(Object.assign(new Error('Request was aborted.'), { name: 'APIUserAbortError' }));
+                });
+
+                await handler({ body: { ...mockRequestBase, stream: false } }, mockReply);
+
+                expect(mockReply.code).not.toHaveBeenCalled();
+                expect(mockReply.send).not.toHaveBeenCalled();
+            });
+
+            it('should not abort after the response has finished', async () => {
+                const handler = handlersModule.createMessagesHandler(config);
+                mockReply.raw.writableFinished = true;
+                mockCreateChatCompletion.mockResolvedValue({
+                    id: 'chatcmpl-123',
+                    choices: [{ finish_reason: 'stop', message: { content: 'Hello' } }],
+                    usage: { prompt_tokens: 10, completion_tokens: 5 },
+                    model: 'gpt-4'
+                });
+
+                await handler({ body: { ...mockRequestBase, stream: false } }, mockReply);
+                const closeListener = mockReply.raw.on.mock.calls.find(([event]: [string]) => event === 'close')[1];
+                closeListener();
+
+                const { signal } = mockCreateChatCompletion.mock.calls[0][1];
+                expect(signal.aborted).toBe(false);
+            });
+        });
+
+        describe('Keepalive pings', () => {
+            it('should pass the ping interval and estimated input tokens to the converter', async () => {
+                const streamOpenAIToAnthropic = require('../src/converters/streaming').streamOpenAIToAnthropic;
+                const handler = handlersModule.createMessagesHandler({ ...config, pingInterval: 5 });
+                mockCreateChatCompletion.mockResolvedValue({
+                    [Symbol.asyncIterator]: async function* () {
+                        yield { choices: [{ delta: { content: 'Hi' } }] };
+                    }
+                });
+
+                await handler({ body: { ...mockRequestBase, stream: true } }, mockReply);
+
+                expect(streamOpenAIToAnthropic).toHaveBeenCalledWith(
+                    expect.anything(), mockReply, 'claude-3-opus-20240229', 'https://api.openai.com/v1',
+                    expect.objectContaining({ pingIntervalMs: 5000, inputTokens: expect.any(Number) })
+                );
+            });
+
+            it.each([
+                ['enabled', 0.01],
+                ['disabled', 0],
+            ])('should start streaming without waiting for a slow first chunk when pings are %s', async (_label, pingInterval) => {
+                const streamOpenAIToAnthropic = require('../src/converters/streaming').streamOpenAIToAnthropic;
+                const handler = handlersModule.createMessagesHandler({ ...config, pingInterval });
+                let releaseChunk: () => void = () => {};
+                const chunkReady = new Promise<void>(resolve => { releaseChunk = resolve; });
+                mockCreateChatCompletion.mockResolvedValue({
+                    [Symbol.asyncIterator]: async function* () {
+                        await chunkReady;
+                        yield { choices: [{ delta: { content: 'Hi' } }] };
+                    }
+                });
+
+                await handler({ body: { ...mockRequestBase, stream: true } }, mockReply);
+                releaseChunk();
+
+                expect(streamOpenAIToAnthropic).toHaveBeenCalledTimes(1);
+            });
+        });
+
+        describe('Local stop sequences', () => {
+            const stopRequest = { ...mockRequestBase, stream: true, stop_sequences: ['###'] };
+            const stopConfig = { ...config, capabilities: { maxStopSequences: 0 } };
+
+            it.each([
+                ['native', '../src/converters/streaming', 'streamOpenAIToAnthropic'],
+                ['xml', '../src/converters/xmlStreaming', 'streamXmlOpenAIToAnthropic'],
+            ] as const)('should cancel the upstream stream when a %s stream matches one', async (toolFormat, modulePath, name) => {
+                const converter = require(modulePath)[name];
+                converter.mockImplementationOnce(jest.requireActual(modulePath)[name]);
+                const handler = handlersModule.createMessagesHandler({ ...stopConfig, toolFormat });
+
+                let pulled = 0;
+                let cancelled = false;
+                mockCreateChatCompletion.mockResolvedValue({
+                    [Symbol.asyncIterator]: async function* () {
+                        try {
+                            for (const content of ['Hello ', 'world###', ' and more', ' and more']) {
+                                pulled++;
+                                yield { choices: [{ delta: { content }, finish_reason: null }] };
+                            }
+                        } finally {
+                            cancelled = true;
+                        }
+                    }
+                });
+                const written: string[] = [];
+                mockReply.raw = {
+                    ...mockReply.raw,
+                    write: (data: string) => written.push(data),
+                    end: jest.fn(),
+                    once: jest.fn(),
+                    removeListener: jest.fn(),
+                };
+
+                await handler({ body: stopRequest }, mockReply);
+
+                expect(cancelled).toBe(true);
+                expect(pulled).toBe(2);
+                expect(written.join('')).toContain('"stop_sequence":"###"');
+            });
+        });
+
+        describe('Tool validation', () => {
+            const tools = [{
+                name: 'Read',
+                description: 'Read a file',
+                input_schema: { type: 'object', properties: { file_path: { type: 'string' } }, required: ['file_path'] }
+            }];
+            const validationConfig = { ...config, toolValidation: { onFailure: 'requery' as const } };
+
+            function toolUseResponse(input: Record<string, unknown>) {
+                return {
+                    id: 'msg_123',
+                    type: 'message',
+                    role: 'assistant',
+                    content: [{ type: 'tool_use', id: 'call_1', name: 'Read', input }],
+                    model: 'claude-3-opus-20240229',
+                    stop_reason: 'tool_use',
+                    stop_sequence: null,
+                    usage: { input_tokens: 10, output_tokens: 5 }
+                };
+            }
+
+            it('should re-query a non-streaming request whose tool call is invalid', async () => {
+                const { convertResponseToAnthropic } = require('../src/converters/response');
+                convertResponseToAnthropic
+                    .mockReturnValueOnce(toolUseResponse({ path: 'a.ts' }))
+                    .mockReturnValueOnce(toolUseResponse({ file_path: 'a.ts' }));
+                mockCreateChatCompletion.mockResolvedValue({
+                    id: 'chatcmpl-123',
+                    choices: [{ finish_reason: 'tool_calls', message: { content: null } }],
+                    usage: { prompt_tokens: 10, completion_tokens: 5 },
+                    model: 'gpt-4'
+                });
+                const handler = handlersModule.createMessagesHandler(validationConfig);
+
+                await handler({ body: { ...mockRequestBase, tools } }, mockReply);
+
+                expect(mockCreateChatCompletion).toHaveBeenCalledTimes(2);
+                const followUp = mockCreateChatCompletion.mock.calls[1][0].messages;
+                expect(followUp.map((message: any) => message.role)).toEqual(['assistant', 'tool']);
+                expect(followUp[1].content).toContain('input.file_path is required');
+
+                const sent = mockReply.send.mock.calls[0][0];
+                expect(sent.content).toEqual([{ type: 'tool_use', id: 'call_1', name: 'Read', input: { file_path: 'a.ts' } }]);
+                expect(sent.usage).toEqual({ input_tokens: 20, output_tokens: 10 });
+            });
+
+            it('should give the streaming converter a validator only when tools are present', async () => {
+                const streamOpenAIToAnthropic = require('../src/converters/streaming').streamOpenAIToAnthropic;
+                mockCreateChatCompletion.mockResolvedValue({
+                    [Symbol.asyncIterator]: async function* () {
+                        yield { choices: [{ delta: { content: 'Hi' } }] };
+                    }
+                });
+                const handler = handlersModule.createMessagesHandler(validationConfig);
+
+                await handler({ body: { ...mockRequestBase, stream: true, tools } }, mockReply);
+                await handler({ body: { ...mockRequestBase, stream: true } }, mockReply);
+
+                expect(streamOpenAIToAnthropic.mock.calls[0][4].toolValidation).toEqual({
+                    validator: expect.any(Object),
+                    requery: expect.any(Function)
+                });
+                expect(streamOpenAIToAnthropic.mock.calls[1][4].toolValidation).toBeUndefined();
+            });
+        });
+
+        describe('Rate limit headers', () => {
+            afterEach(() => {
+                mockResponseHeaders = {};
+            });
+
+            it('should forward upstream rate limits on successful responses', async () => {
+                const handler = handlersModule.createMessagesHandler(config);
+                mockResponseHeaders = {
+                    'x-ratelimit-limit-requests': '500',
+                    'x-ratelimit-remaining-requests': '499'
+                };
+                mockCreateChatCompletion.mockResolvedValue({
+                    id: 'chatcmpl-123',
+                    choices: [{ finish_reason: 'stop', message: { content: 'Hello' } }],
+                    usage: { prompt_tokens: 10, completion_tokens: 5 },
+                    model: 'gpt-4'
+                });
+
+                await handler({ body: { ...mockRequestBase, stream: false } }, mockReply);
+
+                expect(mockReply.header).toHaveBeenCalledWith('anthropic-ratelimit-requests-limit', '500');
+                expect(mockReply.header).toHaveBeenCalledWith('anthropic-ratelimit-requests-remaining', '499');
+            });
+
+            it('should forward retry-after on upstream rate limit errors', async () => {
+                const handler = handlersModule.createMessagesHandler({ ...config, retry: { maxAttempts: 1 } });
+                mockCreateChatCompletion.mockRejectedValue(Object.assign(new Error('Rate limited'), {
+                    status: 429,
+                    headers: { 'retry-after': '20', 'x-ratelimit-remaining-tokens': '0' }
+                }));
+
+                await handler({ body: { ...mockRequestBase, stream: false } }, mockReply);
+
+                expect(mockReply.code).toHaveBeenCalledWith(429);
+                expect(mockReply.header).toHaveBeenCalledWith('retry-after', '20');
+                expect(mockReply.header).toHaveBeenCalledWith('anthropic-ratelimit-tokens-remaining', '0');
+            });
+        });
+
         it('should log info when non-streaming request completes', async () => {
             const handler = handlersModule.createMessagesHandler(config);
             mockCreateChatCompletion.mockResolvedValue({
@@ -271,4 +699,73 @@ describe('Error Response Handling', () => {
             expect(mockReply.send).toHaveBeenCalled();
         });
     });
+
+    describe('createCountTokensHandler', () => {
+        const config = {
+            baseUrl: 'https://api.openai.com/v1',
+            apiKey: 'test-key',
+            models: { opus: 'gpt-4' }
+        };
+
+        const countRequest = {
+            model: 'claude-3-opus-20240229',
+            messages: [{ role: 'user', content: 'Hello' }]
+        };
+
+        let mockReply: any;
+
+        beforeEach(() => {
+            jest.clearAllMocks();
+            mockReply = {
+                header: jest.fn().mockReturnThis(),
+                code: jest.fn().mockReturnThis(),
+                send: jest.fn().mockReturnThis()
+            };
+        });
+
+        it('should estimate tokens locally without calling upstream', async () => {
+            const handler = handlersModule.createCountTokensHandler(config);
+
+            await handler({ body: countRequest }, mockReply);
+
+            expect(mockCreateChatCompletion).not.toHaveBeenCalled();
+            expect(mockReply.send).toHaveBeenCalledWith({ input_tokens: expect.any(Number) });
+        });
+
+        it('should not require max_tokens', async () => {
+            const handler = handlersModule.createCountTokensHandler(config);
+
+            await handler({ body: countRequest }, mockReply);
+
+            expect(mockReply.code).not.toHaveBeenCalledWith(400);
+        });
+
+        it('should read prompt_tokens from upstream in upstream mode', async () => {
+            const handler = handlersModule.createCountTokensHandler({ ...config, tokenCounting: 'upstream' });
+            mockCreateChatCompletion.mockResolvedValue({
+                id: 'chatcmpl-123',
+                choices: [{ finish_reason: 'length', message: { content: 'H' } }],
+                usage: { prompt_tokens: 42, completion_tokens: 1 },
+                model: 'gpt-4'
+            });
+
+            await handler({ body: countRequest }, mockReply);
+
+            expect(mockCreateChatCompletion).toHaveBeenCalledWith(expect.objectContaining({
+                max_tokens: 1,
+                stream: false
+            }));
+            expect(mockReply.send).toHaveBeenCalledWith({ input_tokens: 42 });
+        });
+
+        it('should fall back to the estimate when upstream counting fails', async () => {
+            const handler = handlersModule.createCountTokensHandler({ ...config, tokenCounting: 'upstream' });
+            mockCreateChatCompletion.mockRejectedValue(new Error('Upstream unavailable'));
+
+            await handler({ body: countRequest }, mockReply);
+
+            expect(mockReply.code).not.toHaveBeenCalled();
+            expect(mockReply.send).toHaveBeenCalledWith({ input_tokens: expect.any(Number) });
+        });
+    });
 });
@@ -0,0 +1,68 @@
+// Tests for rate-limit header conversion
+import { convertRateLimitHeaders, headersToRecord } from '../src/converters/headers';
+
+const NOW = Date.parse('2025-01-01T00:00:00.000Z');
+
+describe('Header Conversion', () => {
+    describe('convertRateLimitHeaders', () => {
+        it('should return no headers without upstream headers', () => {
+            expect(convertRateLimitHeaders(undefined)).toEqual({});
+            expect(convertRateLimitHeaders({ 'content-type': 'application/json' })).toEqual({});
+        });
+
+        it('should map OpenAI limits and remaining counts', () => {
+            const result = convertRateLimitHeaders({
+                'x-ratelimit-limit-requests': '10000',
+                'x-ratelimit-remaining-requests': '9999',
+                'x-ratelimit-limit-tokens': '2000000',
+                'x-ratelimit-remaining-tokens': '1999000',
+            }, NOW);
+
+            expect(result).toEqual({
+                'anthropic-ratelimit-requests-limit': '10000',
+                'anthropic-ratelimit-requests-remaining': '9999',
+                'anthropic-ratelimit-tokens-limit': '2000000',
+                'anthropic-ratelimit-tokens-remaining': '1999000',
+            });
+        });
+
+        it('should convert reset durations into RFC 3339 timestamps', () => {
+            const result = convertRateLimitHeaders({
+                'x-ratelimit-reset-requests': '6m0s',
+                'x-ratelimit-reset-tokens': '20ms',
+            }, NOW);
+
+            expect(result['anthropic-ratelimit-requests-reset']).toBe('2025-01-01T00:06:00.000Z');
+            expect(result['anthropic-ratelimit-tokens-reset']).toBe('2025-01-01T00:00:00.020Z');
+        });
+
+        it('should accept compound and plain-second reset values', () => {
+            const result = convertRateLimitHeaders({
+                'x-ratelimit-reset-requests': '1h2m3.5s',
+                'x-ratelimit-reset-tokens': '30',
+            }, NOW);
+
+            expect(result['anthropic-ratelimit-requests-reset']).toBe('2025-01-01T01:02:03.500Z');
+            expect(result['anthropic-ratelimit-tokens-reset']).toBe('2025-01-01T00:00:30.000Z');
+        });
+
+        it('should skip unparseable reset values', () => {
+            const result = convertRateLimitHeaders({ 'x-ratelimit-reset-requests': 'soon' }, NOW);
+
+            expect(result['anthropic-ratelimit-requests-reset']).toBeUndefined();
+        });
+
+        it('should convert retry-after values to whole seconds', () => {
+            expect(convertRateLimitHeaders({ 'retry-after': '7' })['retry-after']).toBe('7');
+            expect(convertRateLimitHeaders({ 'retry-after-ms': '1500' })['retry-after']).toBe('2');
+        });
+    });
+
+    describe('headersToRecord', () => {
+        it('should convert fetch headers to a lowercase record', () => {
+            const headers = new Headers({ 'X-RateLimit-Limit-Requests': '60' });
+
+            expect(headersToRecord(headers)).toEqual({ 'x-ratelimit-limit-requests': '60' });
+        });
+    });
+});
@@ -0,0 +1,104 @@
+// Tests for tolerant JSON repair of tool call arguments
+import { JsonRepairStream, repairJson } from '../src/converters/jsonRepair';
+
+function createRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function randomValue(random: () => number, depth: number): unknown {
+    const kind = Math.floor(random() * (depth > 2 ? 4 : 6));
+    switch (kind) {
+        case 0: return Math.round((random() - 0.5) * 1e6) / 100;
+        case 1: return ['', 'a "quoted" \\ path', 'line\nbreak', 'tab\there', 'naïve ✓', '<tool_code>'][Math.floor(random() * 6)];
+        case 2: return random() < 0.5;
+        case 3: return null;
+        case 4: return Array.from({ length: Math.floor(random() * 4) }, () => randomValue(random, depth + 1));
+        default: {
+            const object: Record<string, unknown> = {};
+            for (let i = Math.floor(random() * 4); i > 0; i--) {
+                object[`key_${i}`] = randomValue(random, depth + 1);
+            }
+            return object;
+        }
+    }
+}
+
+function streamRepair(chunks: string[]): string {
+    const stream = new JsonRepairStream();
+    return chunks.map(chunk => stream.push(chunk)).join('') + stream.flush();
+}
+
+describe('JSON Repair', () => {
+    it.each([
+        ['trailing commas', '{"a": [1, 2,], "b": 3,}', { a: [1, 2], b: 3 }],
+        ['single quotes', '{\'path\': \'it\\\'s "here"\'}', { path: 'it\'s "here"' }],
+        ['escaped single quotes in double-quoted strings', '{"text": "it\\\'s"}', { text: 'it\'s' }],
+        ['unquoted keys', '{file_path: "a.ts", limit: 10}', { file_path: 'a.ts', limit: 10 }],
+        ['newlines in strings', '{"content": "line 1\nline 2\tend"}', { content: 'line 1\nline 2\tend' }],
+        ['truncated input', '{"edits": [{"old": "a", "new": "b', { edits: [{ old: 'a', new: 'b' }] }],
+        ['a truncated key', '{"a": 1, "b', { a: 1, b: null }],
+        ['a missing value', '{"a":', { a: null }],
+        ['Python literals', '{"recursive": True, "force": False, "limit": None}', { recursive: true, force: false, limit: null }],
+        ['missing commas', '{"a": 1 "b": [1 2]}', { a: 1, b: [1, 2] }],
+        ['stray backslashes', '{"pattern": "\\d+\\.ts"}', { pattern: '\\d+\\.ts' }],
+        ['Windows paths', '{"path": "C:\\users\\me\\u1x.txt"}', { path: 'C:\\users\\me\\u1x.txt' }],
+        ['a truncated unicode escape', '{"text": "caf\\u00', { text: 'caf\\u00' }],
+        ['surrounding prose', 'Here you go:\n```json\n{"a": 1}\n```', { a: 1 }],
+    ])('should repair %s', (_name, input, expected) => {
+        const { json, repairs } = repairJson(input);
+
+        expect(JSON.parse(json)).toEqual(expected);
+        expect(repairs.length).toBeGreaterThan(0);
+    });
+
+    it('should leave valid JSON untouched and report no repairs', () => {
+        const input = '{\n  "a": [1, -2.5e3, true, null],\n  "b": {"c": "\\u00e9\\n\\"x\\""}\n}';
+
+        expect(repairJson(input)).toEqual({ json: input, repairs: [] });
+    });
+
+    it('should decide a unicode escape split across chunks', () => {
+        expect(streamRepair(['{"a": "\\u0', '0e9", "p": "C:\\u', 'sers"}'])).toBe('{"a": "\\u00e9", "p": "C:\\\\users"}');
+    });
+
+    it('should hold back only what the next character decides', () => {
+        const stream = new JsonRepairStream();
+
+        expect(stream.push('{"a": 1,')).toBe('{"a": 1');
+        expect(stream.push(' "b": tr')).toBe(', "b": ');
+        expect(stream.push('ue}')).toBe('true}');
+        expect(stream.flush()).toBe('');
+    });
+
+    it('should pass random valid JSON through unchanged however it is split', () => {
+        for (let seed = 1; seed <= 200; seed++) {
+            const random = createRandom(seed);
+            const text = JSON.stringify({ value: randomValue(random, 0) }, null, random() < 0.5 ? 2 : undefined);
+
+            const chunks: string[] = [];
+            for (let start = 0; start < text.length;) {
+                const length = 1 + Math.floor(random() * 8);
+                chunks.push(text.slice(start, start + length));
+                start += length;
+            }
+
+            expect(streamRepair(chunks)).toBe(text);
+        }
+    });
+
+    it('should always produce valid JSON from a truncated prefix', () => {
+        const text = '{\'a\': [1, True, {b: "x\ny"}], "c": \'d\',}';
+
+        for (let end = 1; end <= text.length; end++) {
+            const { json } = repairJson(text.slice(0, end));
+            expect(() => JSON.parse(json)).not.toThrow();
+            expect(streamRepair([...text.slice(0, end)])).toBe(json);
+        }
+    });
+});
@@ -0,0 +1,80 @@
+// Tests for per-model option resolution
+import { resolveMaxContinuations, resolveThinkingConfig, resolveToolDialect, validateToolDialects } from '../src/utils/modelOptions';
+import { AdapterConfig } from '../src/types/config';
+
+const baseConfig: AdapterConfig = {
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey: 'test-key',
+    models: { opus: 'o3', sonnet: 'qwen3-coder', haiku: 'gpt-4o-mini' },
+};
+
+describe('Model Options', () => {
+    describe('resolveThinkingConfig', () => {
+        it('should return an empty config when nothing is configured', () => {
+            expect(resolveThinkingConfig(baseConfig, 'o3')).toEqual({});
+        });
+
+        it('should return the global thinking settings', () => {
+            const config = { ...baseConfig, thinking: { format: 'openrouter' as const, history: 'reinject' as const } };
+
+            expect(resolveThinkingConfig(config, 'o3')).toEqual({ format: 'openrouter', history: 'reinject' });
+        });
+
+        it('should let per-model options override global settings field by field', () => {
+            const config: AdapterConfig = {
+                ...baseConfig,
+                thinking: { format: 'reasoning_effort', history: 'reinject' },
+                modelOptions: { 'qwen3-coder': { thinking: { format: 'qwen' } } },
+            };
+
+            expect(resolveThinkingConfig(config, 'qwen3-coder')).toEqual({ format: 'qwen', history: 'reinject' });
+            expect(resolveThinkingConfig(config, 'o3')).toEqual({ format: 'reasoning_effort', history: 'reinject' });
+        });
+    });
+
+    describe('resolveToolDialect', () => {
+        it('should default to tool_code', () => {
+            expect(resolveToolDialect(baseConfig, 'qwen3-coder')).toBe('tool_code');
+        });
+
+        it('should prefer the per-model dialect over the global one', () => {
+            const config: AdapterConfig = {
+                ...baseConfig,
+                toolDialect: 'hermes',
+                modelOptions: { 'qwen3-coder': { toolDialect: 'qwen' } },
+            };
+
+            expect(resolveToolDialect(config, 'qwen3-coder')).toBe('qwen');
+            expect(resolveToolDialect(config, 'o3')).toBe('hermes');
+        });
+    });
+
+    describe('validateToolDialects', () => {
+        it('should accept known dialects', () => {
+            const config: AdapterConfig = { ...baseConfig, toolDialect: 'hermes', modelOptions: { 'qwen3-coder': { toolDialect: 'qwen' } } };
+
+            expect(() => validateToolDialects(config)).not.toThrow();
+        });
+
+        it('should reject an unknown global dialect', () => {
+            const config = { ...baseConfig, toolDialect: 'smoke_signals' } as unknown as AdapterConfig;
+
+            expect(() => validateToolDialects(config)).toThrow('Invalid toolDialect: Unknown tool dialect "smoke_signals"');
+        });
+
+        it('should name the model with an unknown dialect', () => {
+            const config = { ...baseConfig, modelOptions: { 'qwen3-coder': { toolDialect: 'hermez' } } } as unknown as AdapterConfig;
+
+            expect(() => validateToolDialects(config)).toThrow('Invalid modelOptions["qwen3-coder"].toolDialect');
+        });
+    });
+
+    describe('resolveMaxContinuations', () => {
+        it('should only continue truncated tool calls for models that opt in', () => {
+            const config: AdapterConfig = { ...baseConfig, modelOptions: { 'qwen3-coder': { maxContinuations: 2 } } };
+
+            expect(resolveMaxContinuations(config, 'qwen3-coder')).toBe(2);
+            expect(resolveMaxContinuations(config, 'o3')).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,48 @@
+// Tests for model alias routing
+import { resolveModel } from '../src/utils/modelRouter';
+import { AdapterConfig } from '../src/types/config';
+
+const config: Pick<AdapterConfig, 'models' | 'modelRoutes'> = {
+    models: { opus: 'gpt-4o', sonnet: 'qwen3-coder', haiku: 'gpt-4o-mini' },
+};
+
+describe('Model Router', () => {
+    describe('resolveModel', () => {
+        it('should map Claude model IDs to the configured family target', () => {
+            expect(resolveModel('claude-opus-4-20250514', config)).toBe('gpt-4o');
+            expect(resolveModel('claude-3-opus-20240229', config)).toBe('gpt-4o');
+            expect(resolveModel('claude-sonnet-4-5', config)).toBe('qwen3-coder');
+            expect(resolveModel('claude-3-5-haiku-20241022', config)).toBe('gpt-4o-mini');
+        });
+
+        it('should pass non-Claude model IDs through unchanged', () => {
+            expect(resolveModel('gpt-4o', config)).toBe('gpt-4o');
+            expect(resolveModel('deepseek-chat', config)).toBe('deepseek-chat');
+        });
+
+        it('should pass unknown Claude model IDs through unchanged', () => {
+            expect(resolveModel('claude-instant-1.2', config)).toBe('claude-instant-1.2');
+        });
+
+        it('should apply user-defined glob routes before the built-in families', () => {
+            const routed = {
+                ...config,
+                modelRoutes: {
+                    'claude-3-5-haiku-*': 'sonnet',
+                    'claude-opus-4-?': 'o3',
+                },
+            };
+
+            expect(resolveModel('claude-3-5-haiku-20241022', routed)).toBe('qwen3-coder');
+            expect(resolveModel('claude-opus-4-1', routed)).toBe('o3');
+            expect(resolveModel('claude-opus-4-20250514', routed)).toBe('gpt-4o');
+        });
+
+        it('should match routes case-insensitively and treat other characters literally', () => {
+            const routed = { ...config, modelRoutes: { 'Claude-3.7-*': 'local-model' } };
+
+            expect(resolveModel('claude-3.7-sonnet', routed)).toBe('local-model');
+            expect(resolveModel('claude-3x7-sonnet', routed)).toBe('qwen3-coder');
+        });
+    });
+});
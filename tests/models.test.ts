@@ -0,0 +1,180 @@
+// Tests for the models endpoints
+import { FastifyReply } from 'fastify';
+
+jest.mock('../src/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+// Mock OpenAI models.list() as an async iterable page
+const mockListModels = jest.fn();
+jest.mock('openai', () => ({
+    __esModule: true,
+    default: jest.fn().mockImplementation(() => ({
+        models: { list: mockListModels }
+    }))
+}));
+
+import { ModelCatalog, createListModelsHandler, createGetModelHandler } from '../src/server/models';
+import { AdapterConfig } from '../src/types/config';
+
+function upstreamPage(models: Array<{ id: string; created: number }>) {
+    return {
+        [Symbol.asyncIterator]: async function* () {
+            for (const model of models) {
+                yield { ...model, object: 'model', owned_by: 'test' };
+            }
+        }
+    };
+}
+
+function createMockReply() {
+    const reply: any = {
+        statusCode: 200,
+        body: undefined,
+        code: jest.fn().mockImplementation((code: number) => {
+            reply.statusCode = code;
+            return reply;
+        }),
+        send: jest.fn().mockImplementation((body: any) => {
+            reply.body = body;
+            return reply;
+        }),
+    };
+    return reply as FastifyReply & { statusCode: number; body: any };
+}
+
+const config: AdapterConfig = {
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey: 'test-key',
+    models: { opus: 'gpt-4o', sonnet: 'gpt-4o', haiku: 'gpt-4o-mini' },
+};
+
+describe('Models', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockListModels.mockImplementation(() => upstreamPage([
+            { id: 'gpt-4o', created: 1715367049 },
+            { id: 'o3-mini', created: 1737146383 },
+        ]));
+    });
+
+    describe('ModelCatalog', () => {
+        it('should list configured aliases before upstream models', async () => {
+            const catalog = new ModelCatalog(config);
+            const models = await catalog.list();
+
+            expect(models.map(m => m.id)).toEqual(['gpt-4o', 'gpt-4o-mini', 'o3-mini']);
+            expect(models[0]).toEqual({
+                type: 'model',
+                id: 'gpt-4o',
+                display_name: 'gpt-4o (opus, sonnet)',
+                created_at: new Date(1715367049 * 1000).toISOString(),
+            });
+            expect(models[1].created_at).toBe('1970-01-01T00:00:00.000Z');
+        });
+
+        it('should cache the upstream list within the TTL', async () => {
+            const catalog = new ModelCatalog(config);
+            await catalog.list();
+            await catalog.list();
+
+            expect(mockListModels).toHaveBeenCalledTimes(1);
+        });
+
+        it('should refetch after the TTL expires', async () => {
+            const catalog = new ModelCatalog({ ...config, modelListTtl: 0 });
+            await catalog.list();
+            await catalog.list();
+
+            expect(mockListModels).toHaveBeenCalledTimes(2);
+        });
+
+        it('should fall back to configured models when upstream listing fails', async () => {
+            mockListModels.mockImplementation(() => {
+                throw new Error('404 Not Found');
+            });
+            const catalog = new ModelCatalog(config);
+            const models = await catalog.list();
+
+            expect(models.map(m => m.id)).toEqual(['gpt-4o', 'gpt-4o-mini']);
+        });
+    });
+
+    describe('createListModelsHandler', () => {
+        it('should return an Anthropic-shaped model list', async () => {
+            const handler = createListModelsHandler(new ModelCatalog(config));
+            const reply = createMockReply();
+
+            await handler({ query: {} } as any, reply);
+
+            expect(reply.body).toEqual({
+                data: expect.any(Array),
+                has_more: false,
+                first_id: 'gpt-4o',
+                last_id: 'o3-mini',
+            });
+            expect(reply.body.data).toHaveLength(3);
+        });
+
+        it('should paginate with limit and after_id', async () => {
+            const handler = createListModelsHandler(new ModelCatalog(config));
+
+            const first = createMockReply();
+            await handler({ query: { limit: '2' } } as any, first);
+            expect(first.body.data.map((m: any) => m.id)).toEqual(['gpt-4o', 'gpt-4o-mini']);
+            expect(first.body.has_more).toBe(true);
+
+            const second = createMockReply();
+            await handler({ query: { limit: '2', after_id: first.body.last_id } } as any, second);
+            expect(second.body.data.map((m: any) => m.id)).toEqual(['o3-mini']);
+            expect(second.body.has_more).toBe(false);
+        });
+
+        it('should paginate backwards with before_id', async () => {
+            const handler = createListModelsHandler(new ModelCatalog(config));
+            const reply = createMockReply();
+
+            await handler({ query: { limit: '1', before_id: 'o3-mini' } } as any, reply);
+
+            expect(reply.body.data.map((m: any) => m.id)).toEqual(['gpt-4o-mini']);
+            expect(reply.body.has_more).toBe(true);
+        });
+
+        it('should reject an invalid limit', async () => {
+            const handler = createListModelsHandler(new ModelCatalog(config));
+            const reply = createMockReply();
+
+            await handler({ query: { limit: '0' } } as any, reply);
+
+            expect(reply.statusCode).toBe(400);
+            expect(reply.body.error.type).toBe('invalid_request_error');
+        });
+    });
+
+    describe('createGetModelHandler', () => {
+        it('should return a single model', async () => {
+            const handler = createGetModelHandler(new ModelCatalog(config));
+            const reply = createMockReply();
+
+            await handler({ params: { id: 'o3-mini' } } as any, reply);
+
+            expect(reply.body.id).toBe('o3-mini');
+            expect(reply.body.type).toBe('model');
+        });
+
+        it('should return 404 for unknown models', async () => {
+            const handler = createGetModelHandler(new ModelCatalog(config));
+            const reply = createMockReply();
+
+            await handler({ params: { id: 'missing-model' } } as any, reply);
+
+            expect(reply.statusCode).toBe(404);
+            expect(reply.body.error.type).toBe('not_found_error');
+        });
+    });
+});
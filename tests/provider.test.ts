@@ -0,0 +1,101 @@
+// Tests for upstream provider resolution
+import { getProviders, resolveProviderName, resolveUpstreamTargets, DEFAULT_PROVIDER_NAME } from '../src/utils/provider';
+import { AdapterConfig } from '../src/types/config';
+
+const baseConfig: AdapterConfig = {
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey: 'openai-key',
+    models: { opus: 'o3', sonnet: 'gpt-4.1', haiku: 'qwen3:8b' },
+};
+
+const multiProviderConfig: AdapterConfig = {
+    ...baseConfig,
+    providers: {
+        local: {
+            baseUrl: 'http://localhost:11434/v1',
+            apiKey: 'ollama',
+            toolFormat: 'xml',
+            headers: { 'X-Team': 'adapter' },
+        },
+        azure: {
+            baseUrl: 'https://gateway.example.com/openai',
+            apiKey: 'azure-key',
+            azure: true,
+        },
+    },
+    modelProviders: {
+        haiku: 'local',
+        'gpt-4.1': 'azure',
+    },
+};
+
+describe('Provider', () => {
+    describe('getProviders', () => {
+        it('should expose the top-level settings as the default provider', () => {
+            const providers = getProviders({ ...baseConfig, toolFormat: 'xml' });
+
+            expect(providers).toEqual([{
+                name: DEFAULT_PROVIDER_NAME,
+                baseUrl: 'https://api.openai.com/v1',
+                apiKey: 'openai-key',
+                toolFormat: 'xml',
+                isAzure: false,
+                preset: 'openai',
+                capabilities: undefined,
+            }]);
+        });
+
+        it('should apply defaults to named providers', () => {
+            const providers = getProviders(multiProviderConfig);
+
+            expect(providers.map(p => p.name)).toEqual(['default', 'local', 'azure']);
+            expect(providers[1]).toMatchObject({ toolFormat: 'xml', isAzure: false, preset: 'ollama', headers: { 'X-Team': 'adapter' } });
+            expect(providers[2]).toMatchObject({ toolFormat: 'native', isAzure: true, preset: 'azure' });
+        });
+
+        it('should not let a named provider replace the default one', () => {
+            const providers = getProviders({
+                ...baseConfig,
+                providers: { default: { baseUrl: 'http://other/v1', apiKey: 'x' } },
+            });
+
+            expect(providers).toHaveLength(1);
+            expect(providers[0].baseUrl).toBe('https://api.openai.com/v1');
+        });
+    });
+
+    describe('resolveProviderName', () => {
+        it('should use the default provider when no table is configured', () => {
+            expect(resolveProviderName(baseConfig, 'o3')).toBe(DEFAULT_PROVIDER_NAME);
+        });
+
+        it('should look up providers by model ID and by alias', () => {
+            expect(resolveProviderName(multiProviderConfig, 'gpt-4.1')).toBe('azure');
+            expect(resolveProviderName(multiProviderConfig, 'qwen3:8b')).toBe('local');
+            expect(resolveProviderName(multiProviderConfig, 'o3')).toBe(DEFAULT_PROVIDER_NAME);
+        });
+    });
+
+    describe('resolveUpstreamTargets', () => {
+        it('should return only the primary target without fallbacks', () => {
+            expect(resolveUpstreamTargets(multiProviderConfig, 'o3')).toEqual([
+                { model: 'o3', provider: DEFAULT_PROVIDER_NAME },
+            ]);
+        });
+
+        it('should append fallbacks in order, resolving their providers', () => {
+            const config: AdapterConfig = {
+                ...multiProviderConfig,
+                fallbacks: {
+                    opus: [{ model: 'gpt-4.1' }, { model: 'qwen3:32b', provider: 'local' }],
+                },
+            };
+
+            expect(resolveUpstreamTargets(config, 'o3')).toEqual([
+                { model: 'o3', provider: DEFAULT_PROVIDER_NAME },
+                { model: 'gpt-4.1', provider: 'azure' },
+                { model: 'qwen3:32b', provider: 'local' },
+            ]);
+        });
+    });
+});
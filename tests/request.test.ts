@@ -2,6 +2,7 @@
 import { convertRequestToOpenAI } from '../src/converters/request';
 import { AnthropicMessageRequest } from '../src/types/anthropic';
 import { isAzureOpenAIEndpoint } from '../src/utils/provider';
+import { CAPABILITY_PRESETS, DEFAULT_CAPABILITIES, ResolvedCapabilities } from '../src/utils/capabilities';
 
 // Mock update utility
 jest.mock('../src/utils/update', () => ({
@@ -15,6 +16,10 @@ jest.mock('../src/converters/xmlPrompt', () => ({
 
 import { getCachedUpdateInfo } from '../src/utils/update';
 
+function withCapabilities(overrides: Partial<ResolvedCapabilities>): { capabilities: ResolvedCapabilities } {
+    return { capabilities: { ...DEFAULT_CAPABILITIES, ...overrides } };
+}
+
 describe('Request Converter', () => {
     describe('convertRequestToOpenAI', () => {
         it('should convert a simple text message', () => {
@@ -47,7 +52,7 @@ describe('Request Converter', () => {
                 ]
             };
 
-            const result = convertRequestToOpenAI(anthropicRequest, 'gpt-5.2-codex', 'native', true);
+            const result = convertRequestToOpenAI(anthropicRequest, 'gpt-5.2-codex', 'native', withCapabilities(CAPABILITY_PRESETS.azure));
 
             expect(result.max_completion_tokens).toBe(1024);
             expect(result.max_tokens).toBeUndefined();
@@ -62,12 +67,28 @@ describe('Request Converter', () => {
                 ]
             };
 
-            const result = convertRequestToOpenAI(anthropicRequest, 'gpt-5.2-codex', 'native', true);
+            const result = convertRequestToOpenAI(anthropicRequest, 'gpt-5.2-codex', 'native', withCapabilities(CAPABILITY_PRESETS.azure));
 
             expect(result.max_completion_tokens).toBe(32);
             expect(result.max_tokens).toBeUndefined();
         });
 
+        it('should still accept the deprecated isAzureOpenAI argument', () => {
+            const anthropicRequest: AnthropicMessageRequest = {
+                model: 'claude-4.5-sonnet',
+                max_tokens: 1,
+                messages: [{ role: 'user', content: 'Ping' }]
+            };
+
+            const azure = convertRequestToOpenAI(anthropicRequest, 'gpt-5.2-codex', 'native', true);
+            const other = convertRequestToOpenAI(anthropicRequest, 'gpt-4o', 'xml', false, { toolDialect: 'hermes' });
+
+            expect(azure.max_completion_tokens).toBe(32);
+            expect(azure.max_tokens).toBeUndefined();
+            expect(other.max_tokens).toBe(32);
+            expect(other.temperature).toBe(0);
+        });
+
         it('should detect Azure OpenAI endpoints', () => {
             expect(isAzureOpenAIEndpoint('https://example.openai.azure.com/openai/v1')).toBe(true);
             expect(isAzureOpenAIEndpoint('https://example.services.ai.azure.com/models')).toBe(true);
@@ -246,6 +267,18 @@ describe('Request Converter', () => {
             expect(result.stop).toEqual(['END', 'STOP']);
         });
 
+        it('should send only as many stop sequences as the provider accepts', () => {
+            const anthropicRequest: AnthropicMessageRequest = {
+                model: 'claude-4.5-sonnet',
+                max_tokens: 1024,
+                stop_sequences: ['A', 'B', 'C', 'D', 'E', 'F'],
+                messages: [{ role: 'user', content: 'Test message' }]
+            };
+
+            expect(convertRequestToOpenAI(anthropicRequest, 'gpt-4o').stop).toEqual(['A', 'B', 'C', 'D']);
+            expect(convertRequestToOpenAI(anthropicRequest, 'o3', 'native', withCapabilities({ maxStopSequences: 0 })).stop).toBeUndefined();
+        });
+
         it('should handle stream parameter', () => {
             const anthropicRequest: AnthropicMessageRequest = {
                 model: 'claude-4.5-sonnet',
@@ -905,5 +938,427 @@ describe('Request Converter', () => {
             expect(content).toContain('"arg":"val"'); // Partial match for JSON string
             expect(content).toContain('</tool_code>');
         });
+
+        it('should serialise tool history in the configured dialect', () => {
+            const anthropicRequest: AnthropicMessageRequest = {
+                model: 'claude-4.5-sonnet',
+                max_tokens: 1024,
+                messages: [
+                    { role: 'user', content: 'Read it' },
+                    {
+                        role: 'assistant',
+                        content: [{ type: 'tool_use', id: 'call_1', name: 'Read', input: { file_path: 'a.ts' } }]
+                    },
+                    {
+                        role: 'user',
+                        content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'file contents' }]
+                    }
+                ]
+            };
+
+            const result = convertRequestToOpenAI(anthropicRequest, 'qwen3', 'xml', { toolDialect: 'hermes' });
+
+            expect(result.messages[1]).toEqual({
+                role: 'assistant',
+                content: '<tool_call>\n{"name":"Read","arguments":{"file_path":"a.ts"}}\n</tool_call>'
+            });
+            expect(result.messages[2].content).toContain('<tool_response>\nfile contents\n</tool_response>');
+            expect(result.messages[2].content).not.toContain('<tool_output>');
+        });
+    });
+
+    describe('Image conversion', () => {
+        it('should convert base64 image blocks to data URL image parts', () => {
+            const anthropicRequest: AnthropicMessageRequest = {
+                model: 'claude-4.5-sonnet',
+                max_tokens: 1024,
+                messages: [
+                    {
+                        role: 'user',
+                        content: [
+                            { type: 'text', text: 'What is in this screenshot?' },
+                            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } }
+                        ]
+                    }
+                ]
+            };
+
+            const result = convertRequestToOpenAI(anthropicRequest, 'gpt-4o');
+
+            expect(result.messages[0].content).toEqual([
+                { type: 'text', text: 'What is in this screenshot?' },
+                { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } }
+            ]);
+        });
+
+        it('should pass through url image sources', () => {
+            const anthropicRequest: AnthropicMessageRequest = {
+                model: 'claude-4.5-sonnet',
+                max_tokens: 1024,
+                messages: [
+                    {
+                        role: 'user',
+                        content: [
+                            { type: 'image', source: { type: 'url', url: 'https://example.com/cat.jpg' } }
+                        ]
+                    }
+                ]
+            };
+
+            const result = convertRequestToOpenAI(anthropicRequest, 'gpt-4o');
+
+            expect(result.messages[0].content).toEqual([
+                { type: 'image_url', image_url: { url: 'https://example.com/cat.jpg' } }
+            ]);
+        });
+
+        it('should replace images with a text placeholder in XML mode', () => {
+            const anthropicRequest: AnthropicMessageRequest = {
+                model: 'claude-4.5-sonnet',
+                max_tokens: 1024,
+                messages: [
+                    {
+                        role: 'user',
+                        content: [
+                            { type: 'text', text: 'Look: ' },
+                            { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: '/9j/4AAQ' } }
+                        ]
+                    }
+                ]
+            };
+
+            const result = convertRequestToOpenAI(anthropicRequest, 'gpt-4', 'xml');
+
+            const content = result.messages[0].content as string;
+            expect(typeof content).toBe('string');
+            expect(content).toContain('Look: ');
+            expect(content).toContain('[Image omitted (image/jpeg)');
+            expect(content).not.toContain('/9j/4AAQ');
+        });
+        it('should forward tool_result images in a synthetic user message after the tool messages', () => {
+            const anthropicRequest: AnthropicMessageRequest = {
+                model: 'claude-4.5-sonnet',
+                max_tokens: 1024,
+                messages: [
+                    {
+                        role: 'assistant',
+                        content: [
+                            { type: 'tool_use', id: 'call_shot', name: 'screenshot', input: {} },
+                            { type: 'tool_use', id: 'call_ls', name: 'ls', input: {} }
+                        ]
+                    },
+                    {
+                        role: 'user',
+                        content: [
+                            {
+                                type: 'tool_result',
+                                tool_use_id: 'call_shot',
+                                content: [
+                                    { type: 'text', text: 'Captured window' },
+                                    { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } }
+                                ]
+                            },
+                            { type: 'tool_result', tool_use_id: 'call_ls', content: 'a.txt' }
+                        ]
+                    }
+                ]
+            };
+
+            const result = convertRequestToOpenAI(anthropicRequest, 'gpt-4o');
+
+            expect(result.messages.map(m => m.role)).toEqual(['assistant', 'tool', 'tool', 'user']);
+            expect(result.messages[1]).toEqual({ role: 'tool', tool_call_id: 'call_shot', content: 'Captured window' });
+            expect(result.messages[2]).toEqual({ role: 'tool', tool_call_id: 'call_ls', content: 'a.txt' });
+            expect(result.messages[3].content).toEqual([
+                { type: 'text', text: 'Images returned by tool call call_shot:' },
+                { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } }
+            ]);
+        });
+
+        it('should give image-only tool results a non-empty tool message', () => {
+            const anthropicRequest: AnthropicMessageRequest = {
+                model: 'claude-4.5-sonnet',
+                max_tokens: 1024,
+                messages: [
+                    {
+                        role: 'user',
+                        content: [
+                            {
+                                type: 'tool_result',
+                                tool_use_id: 'call_shot',
+                                content: [{ type: 'image', source: { type: 'url', url: 'https://example.com/s.png' } }]
+                            }
+                        ]
+                    }
+                ]
+            };
+
+            const result = convertRequestToOpenAI(anthropicRequest, 'gpt-4o');
+
+            expect(result.messages[0].content).toBe('[1 image(s) returned; see the following message]');
+            expect(result.messages[1].role).toBe('user');
+        });
+
+        it('should use image placeholders inside tool_output in XML mode', () => {
+            const anthropicRequest: AnthropicMessageRequest = {
+                model: 'claude-4.5-sonnet',
+                max_tokens: 1024,
+                messages: [
+                    {
+                        role: 'user',
+                        content: [
+                            {
+                                type: 'tool_result',
+                                tool_use_id: 'call_shot',
+                                content: [
+                                    { type: 'text', text: 'Captured' },
+                                    { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } }
+                                ]
+                            }
+                        ]
+                    }
+                ]
+            };
+
+            const result = convertRequestToOpenAI(anthropicRequest, 'gpt-4', 'xml');
+
+            expect(result.messages).toHaveLength(1);
+            expect(result.messages[0].content).toBe(
+                '<tool_output>\nCaptured\n[Image omitted (image/png): images are not supported in XML tool mode]\n</tool_output>'
+            );
+        });
+    });
+    describe('Thinking parameter', () => {
+        const createThinkingRequest = (budget: number): AnthropicMessageRequest => ({
+            model: 'claude-4.5-sonnet',
+            max_tokens: 64000,
+            thinking: { type: 'enabled', budget_tokens: budget },
+            messages: [{ role: 'user', content: 'Solve it' }]
+        });
+
+        it('should map thinking budgets to reasoning_effort buckets for reasoning models', () => {
+            const reasoning = withCapabilities({ thinkingFormat: 'reasoning_effort' });
+
+            expect(convertRequestToOpenAI(createThinkingRequest(4000), 'o4-mini', 'native', reasoning).reasoning_effort).toBe('low');
+            expect(convertRequestToOpenAI(createThinkingRequest(10000), 'o4-mini', 'native', reasoning).reasoning_effort).toBe('medium');
+            expect(convertRequestToOpenAI(createThinkingRequest(31999), 'o4-mini', 'native', reasoning).reasoning_effort).toBe('high');
+        });
+
+        it('should not send reasoning controls to models without them by default', () => {
+            const result = convertRequestToOpenAI(createThinkingRequest(10000), 'gpt-4o');
+
+            expect(result.reasoning_effort).toBeUndefined();
+            expect(result.reasoning).toBeUndefined();
+            expect(result.thinking).toBeUndefined();
+        });
+
+        it('should let the configured format replace the capability default', () => {
+            const result = convertRequestToOpenAI(createThinkingRequest(10000), 'o4-mini', 'native', {
+                ...withCapabilities({ thinkingFormat: 'reasoning_effort' }),
+                thinking: { format: 'none' }
+            });
+
+            expect(result.reasoning_effort).toBeUndefined();
+        });
+
+        it('should not send reasoning controls when thinking is absent', () => {
+            const result = convertRequestToOpenAI({
+                model: 'claude-4.5-sonnet',
+                max_tokens: 1024,
+                messages: [{ role: 'user', content: 'Hi' }]
+            }, 'o4-mini');
+
+            expect(result.reasoning_effort).toBeUndefined();
+        });
+
+        it('should use provider-specific reasoning fields when configured', () => {
+            const request = createThinkingRequest(10000);
+
+            const openrouter = convertRequestToOpenAI(request, 'm', 'native', { thinking: { format: 'openrouter' } });
+            expect(openrouter.reasoning).toEqual({ max_tokens: 10000 });
+            expect(openrouter.reasoning_effort).toBeUndefined();
+
+            const qwen = convertRequestToOpenAI(request, 'm', 'native', { thinking: { format: 'qwen' } });
+            expect(qwen.enable_thinking).toBe(true);
+            expect(qwen.thinking_budget).toBe(10000);
+
+            const glm = convertRequestToOpenAI(request, 'm', 'native', { thinking: { format: 'thinking' } });
+            expect(glm.thinking).toEqual({ type: 'enabled' });
+
+            const none = convertRequestToOpenAI(request, 'm', 'native', { thinking: { format: 'none' } });
+            expect(none.reasoning_effort).toBeUndefined();
+            expect(none.thinking).toBeUndefined();
+        });
+
+        it('should leave the provider default for adaptive thinking', () => {
+            const request: AnthropicMessageRequest = { ...createThinkingRequest(2048), thinking: { type: 'adaptive' } };
+
+            const qwen = convertRequestToOpenAI(request, 'm', 'native', { thinking: { format: 'qwen' } });
+            expect(qwen.enable_thinking).toBeUndefined();
+            expect(qwen.thinking_budget).toBeUndefined();
+        });
+
+        it('should explicitly disable thinking for formats with an off switch', () => {
+            const request: AnthropicMessageRequest = {
+                ...createThinkingRequest(2048),
+                thinking: { type: 'disabled' }
+            };
+
+            expect(convertRequestToOpenAI(request, 'm', 'native', { thinking: { format: 'qwen' } }).enable_thinking).toBe(false);
+            expect(convertRequestToOpenAI(request, 'm', 'native', { thinking: { format: 'thinking' } }).thinking)
+                .toEqual({ type: 'disabled' });
+            expect(convertRequestToOpenAI(request, 'm').reasoning_effort).toBeUndefined();
+        });
+
+        const historyRequest: AnthropicMessageRequest = {
+            model: 'claude-4.5-sonnet',
+            max_tokens: 1024,
+            messages: [
+                { role: 'user', content: 'Question' },
+                {
+                    role: 'assistant',
+                    content: [
+                        { type: 'thinking', thinking: 'Reasoning so far', signature: 'sig' },
+                        { type: 'text', text: 'Answer' }
+                    ]
+                },
+                { role: 'user', content: 'Follow up' }
+            ]
+        };
+
+        it('should strip prior thinking blocks by default', () => {
+            const result = convertRequestToOpenAI(historyRequest, 'gpt-4');
+
+            expect(result.messages[1]).toEqual({ role: 'assistant', content: 'Answer' });
+        });
+
+        it('should re-inject prior thinking as reasoning_content when configured', () => {
+            const result = convertRequestToOpenAI(historyRequest, 'gpt-4', 'native', {
+                thinking: { history: 'reinject' }
+            });
+
+            expect(result.messages[1]).toEqual({
+                role: 'assistant',
+                content: 'Answer',
+                reasoning_content: 'Reasoning so far'
+            });
+        });
+
+        it('should re-inject prior thinking as <think> tags in XML mode', () => {
+            const result = convertRequestToOpenAI(historyRequest, 'gpt-4', 'xml', {
+                thinking: { history: 'reinject' }
+            });
+
+            expect(result.messages[1].content).toBe('<think>\nReasoning so far\n</think>\n\nAnswer');
+        });
+    });
+
+    describe('Capability shaping', () => {
+        const request: AnthropicMessageRequest = {
+            model: 'claude-4.5-sonnet',
+            max_tokens: 64000,
+            system: 'Be brief.',
+            stream: true,
+            temperature: 1.8,
+            metadata: { user_id: 'user_123' },
+            messages: [
+                {
+                    role: 'user',
+                    content: [
+                        { type: 'text', text: 'What is this? ' },
+                        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } }
+                    ]
+                }
+            ]
+        };
+
+        it('should send the system prompt as a developer message', () => {
+            const result = convertRequestToOpenAI(request, 'o3', 'native', withCapabilities({ systemRole: 'developer' }));
+
+            expect(result.messages[0]).toEqual({ role: 'developer', content: 'Be brief.' });
+        });
+
+        it('should fold the system prompt into the first user message without a system role', () => {
+            const result = convertRequestToOpenAI(
+                { ...request, messages: [{ role: 'user', content: 'Hi' }] },
+                'gemma',
+                'native',
+                withCapabilities({ systemRole: 'user' })
+            );
+
+            expect(result.messages).toEqual([{ role: 'user', content: 'Be brief.\n\nHi' }]);
+        });
+
+        it('should replace images for providers without image input', () => {
+            const result = convertRequestToOpenAI(request, 'deepseek-chat', 'native', withCapabilities({ images: false }));
+
+            expect(result.messages[1].content).toBe('What is this? [Image omitted (image/png): this model does not accept images]');
+        });
+
+        it('should keep max_tokens and temperature within the provider limits', () => {
+            const result = convertRequestToOpenAI(request, 'deepseek-chat', 'native', withCapabilities({ maxOutputTokens: 8192 }));
+            const mistral = convertRequestToOpenAI(request, 'mistral-large', 'native', withCapabilities(CAPABILITY_PRESETS.mistral));
+            const reasoning = convertRequestToOpenAI(request, 'o3', 'native', withCapabilities({ temperatureRange: null }));
+
+            expect(result.max_tokens).toBe(8192);
+            expect(mistral.temperature).toBe(1.5);
+            expect(reasoning.temperature).toBeUndefined();
+        });
+
+        it('should rescale temperature before clamping it', () => {
+            const result = convertRequestToOpenAI({ ...request, temperature: 0.5 }, 'gpt-4.1', 'native', withCapabilities({ temperatureScale: 2 }));
+            const clamped = convertRequestToOpenAI({ ...request, temperature: 0.9 }, 'mistral-large', 'native', withCapabilities({ ...CAPABILITY_PRESETS.mistral, temperatureScale: 2 }));
+
+            expect(result.temperature).toBe(1);
+            expect(clamped.temperature).toBe(1.5);
+        });
+
+        it('should forward top_k only where it is accepted', () => {
+            const sampled = { ...request, top_p: 0.9, top_k: 40 };
+
+            const vllm = convertRequestToOpenAI(sampled, 'qwen3-coder', 'native', withCapabilities(CAPABILITY_PRESETS.vllm));
+            const generic = convertRequestToOpenAI(sampled, 'qwen3-coder', 'native');
+
+            expect(vllm).toMatchObject({ top_p: 0.9, top_k: 40 });
+            expect(generic.top_p).toBe(0.9);
+            expect(generic.top_k).toBeUndefined();
+        });
+
+        it('should strip sampling parameters the model rejects', () => {
+            const result = convertRequestToOpenAI(
+                { ...request, top_p: 0.9, top_k: 40 },
+                'o3',
+                'native',
+                withCapabilities({ temperatureRange: null, topP: false })
+            );
+
+            expect(result.temperature).toBeUndefined();
+            expect(result.top_p).toBeUndefined();
+            expect(result.top_k).toBeUndefined();
+        });
+
+        it('should only send stream_options and user where they are accepted', () => {
+            const mistral = convertRequestToOpenAI(request, 'mistral-large', 'native', withCapabilities(CAPABILITY_PRESETS.mistral));
+            const openai = convertRequestToOpenAI(request, 'gpt-4.1', 'native', withCapabilities(CAPABILITY_PRESETS.openai));
+
+            expect(mistral.stream_options).toBeUndefined();
+            expect(mistral.user).toBeUndefined();
+            expect(openai.stream_options).toEqual({ include_usage: true });
+            expect(openai.user).toBe('user_123');
+        });
+
+        it('should disable parallel tool calls when asked and supported', () => {
+            const toolRequest: AnthropicMessageRequest = {
+                ...request,
+                tools: [{ name: 'get_weather', description: 'Get weather', input_schema: { type: 'object', properties: {} } }],
+                tool_choice: { type: 'auto', disable_parallel_tool_use: true },
+            };
+
+            const openai = convertRequestToOpenAI(toolRequest, 'gpt-4.1', 'native', withCapabilities(CAPABILITY_PRESETS.openai));
+            const generic = convertRequestToOpenAI(toolRequest, 'qwen3-coder', 'native');
+
+            expect(openai.parallel_tool_calls).toBe(false);
+            expect(generic.parallel_tool_calls).toBeUndefined();
+        });
     });
 });
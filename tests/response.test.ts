@@ -1,5 +1,9 @@
 // Tests for response converter: OpenAI → Anthropic
-import { convertResponseToAnthropic, createErrorResponse } from '../src/converters/response';
+import {
+    convertResponseToAnthropic,
+    createErrorResponse,
+    THINKING_SIGNATURE_PLACEHOLDER,
+} from '../src/converters/response';
 import { OpenAIChatResponse } from '../src/types/openai';
 
 describe('Response Converter', () => {
@@ -125,6 +129,27 @@ describe('Response Converter', () => {
             expect(convertResponseToAnthropic(openaiResponse, 'claude').stop_reason).toBe('tool_use');
         });
 
+        it.each([
+            ['content_filter', null, 'refusal'],
+            ['stop', [{ id: 'call_1', type: 'function' as const, function: { name: 'test', arguments: '{}' } }], 'tool_use'],
+            ['tool_calls', null, 'end_turn'],
+        ])('should map finish_reason %s by what the response contains', (finishReason, toolCalls, expected) => {
+            const openaiResponse: OpenAIChatResponse = {
+                id: 'test',
+                object: 'chat.completion',
+                created: 1677652288,
+                model: 'gpt-4',
+                choices: [{
+                    index: 0,
+                    message: { role: 'assistant', content: 'Test', ...(toolCalls && { tool_calls: toolCalls }) },
+                    finish_reason: finishReason as OpenAIChatResponse['choices'][0]['finish_reason']
+                }],
+                usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 }
+            };
+
+            expect(convertResponseToAnthropic(openaiResponse, 'claude').stop_reason).toBe(expected);
+        });
+
         it('should convert tool calls to tool_use blocks', () => {
             const openaiResponse: OpenAIChatResponse = {
                 id: 'chatcmpl-456',
@@ -154,6 +179,32 @@ describe('Response Converter', () => {
             expect((result.content[0] as any).name).toBe('get_weather');
         });
 
+        it('should repair malformed tool call arguments', () => {
+            const openaiResponse: OpenAIChatResponse = {
+                id: 'chatcmpl-repair',
+                object: 'chat.completion',
+                created: 1677652288,
+                model: 'gpt-4',
+                choices: [{
+                    index: 0,
+                    message: {
+                        role: 'assistant',
+                        content: null,
+                        tool_calls: [
+                            { id: 'call_1', type: 'function', function: { name: 'Read', arguments: "{'file_path': 'a.ts', limit: 10," } },
+                            { id: 'call_2', type: 'function', function: { name: 'TodoRead', arguments: '' } }
+                        ]
+                    },
+                    finish_reason: 'tool_calls'
+                }],
+                usage: { prompt_tokens: 50, completion_tokens: 20, total_tokens: 70 }
+            };
+
+            const result = convertResponseToAnthropic(openaiResponse, 'claude');
+            expect((result.content[0] as any).input).toEqual({ file_path: 'a.ts', limit: 10 });
+            expect((result.content[1] as any).input).toEqual({});
+        });
+
         it('should handle multiple tool calls', () => {
             const openaiResponse: OpenAIChatResponse = {
                 id: 'chatcmpl-multi',
@@ -202,6 +253,135 @@ describe('Response Converter', () => {
             expect(result.content[0].type).toBe('text');
             expect(result.content[1].type).toBe('tool_use');
         });
+
+        it('should report the stop sequence that ended the response', () => {
+            const createResponse = (choice: Partial<OpenAIChatResponse['choices'][0]>): OpenAIChatResponse => ({
+                id: 'chatcmpl-stop',
+                object: 'chat.completion',
+                created: 1677652288,
+                model: 'gpt-4',
+                choices: [{ index: 0, message: { role: 'assistant', content: 'The answer is 42' }, finish_reason: 'stop', ...choice }],
+                usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+            });
+            const options = { stopSequences: ['END', 'STOP'] };
+
+            const matched = convertResponseToAnthropic(createResponse({ stop_reason: 'STOP' }), 'claude', options);
+            const natural = convertResponseToAnthropic(createResponse({}), 'claude', options);
+            const lookalike = convertResponseToAnthropic(createResponse({ message: { role: 'assistant', content: 'The END' } }), 'claude', options);
+
+            expect(matched.stop_reason).toBe('stop_sequence');
+            expect(matched.stop_sequence).toBe('STOP');
+            expect(natural.stop_reason).toBe('end_turn');
+            expect(natural.stop_sequence).toBeNull();
+            expect(lookalike.stop_reason).toBe('end_turn');
+        });
+
+        it('should cut the response at a stop sequence the provider was not sent', () => {
+            const openaiResponse: OpenAIChatResponse = {
+                id: 'chatcmpl-local-stop',
+                object: 'chat.completion',
+                created: 1677652288,
+                model: 'o3',
+                choices: [{
+                    index: 0,
+                    message: {
+                        role: 'assistant',
+                        content: 'Done.\nObservation: more',
+                        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'search', arguments: '{}' } }]
+                    },
+                    finish_reason: 'tool_calls'
+                }],
+                usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+            };
+
+            const result = convertResponseToAnthropic(openaiResponse, 'claude', { localStopSequences: ['\nObservation:'] });
+
+            expect(result.content).toEqual([{ type: 'text', text: 'Done.' }]);
+            expect(result.stop_reason).toBe('stop_sequence');
+            expect(result.stop_sequence).toBe('\nObservation:');
+        });
+    });
+
+    describe('reasoning content', () => {
+        it('should convert reasoning_content to a leading thinking block', () => {
+            const openaiResponse: OpenAIChatResponse = {
+                id: 'chatcmpl-r1',
+                object: 'chat.completion',
+                created: 1677652288,
+                model: 'deepseek-reasoner',
+                choices: [{
+                    index: 0,
+                    message: { role: 'assistant', content: 'The answer is 4.', reasoning_content: '2 + 2 = 4' },
+                    finish_reason: 'stop'
+                }],
+                usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 }
+            };
+
+            const result = convertResponseToAnthropic(openaiResponse, 'claude-4-opus');
+
+            expect(result.content).toHaveLength(2);
+            expect(result.content[0]).toEqual({
+                type: 'thinking',
+                thinking: '2 + 2 = 4',
+                signature: THINKING_SIGNATURE_PLACEHOLDER
+            });
+            expect(result.content[1]).toEqual({ type: 'text', text: 'The answer is 4.' });
+        });
+
+        it('should accept the reasoning field used by OpenRouter', () => {
+            const openaiResponse: OpenAIChatResponse = {
+                id: 'chatcmpl-or',
+                object: 'chat.completion',
+                created: 1677652288,
+                model: 'qwen/qwq-32b',
+                choices: [{
+                    index: 0,
+                    message: { role: 'assistant', content: 'Done.', reasoning: 'Thinking it through' },
+                    finish_reason: 'stop'
+                }],
+                usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 }
+            };
+
+            const result = convertResponseToAnthropic(openaiResponse, 'claude-4-opus');
+
+            expect(result.content[0].type).toBe('thinking');
+        });
+    });
+
+    describe('inline think tags', () => {
+        const createResponse = (content: string): OpenAIChatResponse => ({
+            id: 'chatcmpl-think',
+            object: 'chat.completion',
+            created: 1677652288,
+            model: 'deepseek-r1-distill-qwen-32b',
+            choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 10, completion_tokens: 20, total_tokens: 30 }
+        });
+
+        it('should convert <think> tags to a thinking block by default', () => {
+            const result = convertResponseToAnthropic(createResponse('<think>Reasoning</think>\n\nAnswer'), 'claude');
+
+            expect(result.content).toEqual([
+                { type: 'thinking', thinking: 'Reasoning', signature: THINKING_SIGNATURE_PLACEHOLDER },
+                { type: 'text', text: 'Answer' }
+            ]);
+        });
+
+        it('should remove <think> tags when hidden', () => {
+            const result = convertResponseToAnthropic(
+                createResponse('<think>Reasoning</think>Answer'), 'claude', { thinkTags: 'hide' }
+            );
+
+            expect(result.content).toEqual([{ type: 'text', text: 'Answer' }]);
+        });
+
+        it('should keep <think> tags as text when configured', () => {
+            const result = convertResponseToAnthropic(
+                createResponse('<think>Reasoning</think>Answer'), 'claude', { thinkTags: 'text' }
+            );
+
+            expect(result.content).toEqual([{ type: 'text', text: '<think>Reasoning</think>Answer' }]);
+        });
     });
 
     describe('createErrorResponse', () => {
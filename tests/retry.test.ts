@@ -0,0 +1,130 @@
+// Tests for upstream retry policy
+import {
+    withRetry,
+    resolveRetryPolicy,
+    isRetryableError,
+    getRetryDelay,
+    parseRetryAfter,
+    DEFAULT_RETRY_POLICY,
+    RetryPolicy
+} from '../src/utils/retry';
+
+function httpError(status: number, headers?: Record<string, string>) {
+    return Object.assign(new Error(`${status} error`), { status, headers });
+}
+
+const noJitter: RetryPolicy = { ...DEFAULT_RETRY_POLICY, jitter: 0 };
+
+describe('Retry', () => {
+    describe('resolveRetryPolicy', () => {
+        it('should return the defaults without config', () => {
+            expect(resolveRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+        });
+
+        it('should apply overrides and keep at least one attempt', () => {
+            const policy = resolveRetryPolicy({ maxAttempts: 0, retryOnStatus: [503] });
+
+            expect(policy.maxAttempts).toBe(1);
+            expect(policy.retryOnStatus).toEqual([503]);
+            expect(policy.initialDelayMs).toBe(DEFAULT_RETRY_POLICY.initialDelayMs);
+        });
+    });
+
+    describe('isRetryableError', () => {
+        it('should retry configured statuses only', () => {
+            expect(isRetryableError(httpError(503), DEFAULT_RETRY_POLICY)).toBe(true);
+            expect(isRetryableError(httpError(429), DEFAULT_RETRY_POLICY)).toBe(true);
+            expect(isRetryableError(httpError(400), DEFAULT_RETRY_POLICY)).toBe(false);
+            expect(isRetryableError(httpError(401), DEFAULT_RETRY_POLICY)).toBe(false);
+        });
+
+        it('should retry connection errors but not aborts', () => {
+            const abort = new Error('Request was aborted.');
+            abort.name = 'APIUserAbortError';
+
+            expect(isRetryableError(new Error('socket hang up'), DEFAULT_RETRY_POLICY)).toBe(true);
+            expect(isRetryableError(abort, DEFAULT_RETRY_POLICY)).toBe(false);
+        });
+    });
+
+    describe('getRetryDelay', () => {
+        it('should back off exponentially up to maxDelayMs', () => {
+            const error = httpError(503);
+
+            expect(getRetryDelay(error, 1, noJitter)).toBe(500);
+            expect(getRetryDelay(error, 2, noJitter)).toBe(1000);
+            expect(getRetryDelay(error, 3, noJitter)).toBe(2000);
+            expect(getRetryDelay(error, 10, noJitter)).toBe(8000);
+        });
+
+        it('should apply jitter within the configured fraction', () => {
+            const error = httpError(503);
+
+            expect(getRetryDelay(error, 1, DEFAULT_RETRY_POLICY, () => 0)).toBe(400);
+            expect(getRetryDelay(error, 1, DEFAULT_RETRY_POLICY, () => 1)).toBe(600);
+        });
+
+        it('should honour Retry-After from the upstream', () => {
+            expect(getRetryDelay(httpError(429, { 'retry-after': '2' }), 1, noJitter)).toBe(2000);
+            expect(getRetryDelay(httpError(429, { 'retry-after-ms': '150' }), 1, noJitter)).toBe(150);
+        });
+
+        it('should give up when Retry-After exceeds maxDelayMs', () => {
+            expect(getRetryDelay(httpError(429, { 'retry-after': '60' }), 1, noJitter)).toBeNull();
+        });
+    });
+
+    describe('parseRetryAfter', () => {
+        it('should return null without headers', () => {
+            expect(parseRetryAfter(undefined)).toBeNull();
+            expect(parseRetryAfter({})).toBeNull();
+        });
+
+        it('should parse HTTP dates', () => {
+            const inFiveSeconds = new Date(Date.now() + 5000).toUTCString();
+            const delay = parseRetryAfter({ 'retry-after': inFiveSeconds });
+
+            expect(delay).toBeGreaterThan(3000);
+            expect(delay).toBeLessThanOrEqual(5000);
+        });
+
+        it('should ignore malformed values', () => {
+            expect(parseRetryAfter({ 'retry-after': 'soon' })).toBeNull();
+        });
+    });
+
+    describe('withRetry', () => {
+        const sleep = jest.fn().mockResolvedValue(undefined);
+
+        beforeEach(() => {
+            sleep.mockClear();
+        });
+
+        it('should return the first successful result', async () => {
+            const operation = jest.fn()
+                .mockRejectedValueOnce(httpError(503))
+                .mockResolvedValueOnce('ok');
+            const onRetry = jest.fn();
+
+            await expect(withRetry(operation, noJitter, { sleep, onRetry })).resolves.toBe('ok');
+            expect(operation).toHaveBeenCalledTimes(2);
+            expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 1, 500);
+            expect(sleep).toHaveBeenCalledWith(500);
+        });
+
+        it('should stop after maxAttempts', async () => {
+            const operation = jest.fn().mockRejectedValue(httpError(503));
+
+            await expect(withRetry(operation, noJitter, { sleep })).rejects.toThrow('503 error');
+            expect(operation).toHaveBeenCalledTimes(3);
+        });
+
+        it('should not retry non-retryable errors', async () => {
+            const operation = jest.fn().mockRejectedValue(httpError(400));
+
+            await expect(withRetry(operation, noJitter, { sleep })).rejects.toThrow('400 error');
+            expect(operation).toHaveBeenCalledTimes(1);
+            expect(sleep).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -63,6 +63,57 @@ describe('Server', () => {
             expect(response.statusCode).toBe(400);
         });
 
+        it('should register count_tokens endpoint', async () => {
+            const server = createServer(testConfig);
+            const response = await server.app.inject({
+                method: 'POST',
+                url: '/v1/messages/count_tokens',
+                payload: {
+                    model: 'claude-3-opus-20240229',
+                    messages: [{ role: 'user', content: 'Hello, world' }],
+                },
+            });
+
+            expect(response.statusCode).toBe(200);
+            const body = JSON.parse(response.body);
+            expect(body.input_tokens).toBeGreaterThan(0);
+        });
+
+        it('should accept image bodies larger than 1 MiB', async () => {
+            const server = createServer(testConfig);
+            const response = await server.app.inject({
+                method: 'POST',
+                url: '/v1/messages',
+                payload: {
+                    model: 'claude-4-opus',
+                    max_tokens: 1024,
+                    messages: [{
+                        role: 'user',
+                        content: [{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'A'.repeat(8 * 1024 * 1024) } }],
+                    }],
+                },
+            });
+
+            // Rejected by image validation, not by the body limit
+            expect(response.statusCode).toBe(400);
+            const body = JSON.parse(response.body);
+            expect(body.error.type).toBe('invalid_request_error');
+            expect(body.error.message).toContain('maximum size of 5 MB');
+        });
+
+        it('should reject oversized bodies with an Anthropic error', async () => {
+            const server = createServer(testConfig);
+            const response = await server.app.inject({
+                method: 'POST',
+                url: '/v1/messages',
+                headers: { 'content-type': 'application/json' },
+                payload: JSON.stringify({ padding: 'A'.repeat(33 * 1024 * 1024) }),
+            });
+
+            expect(response.statusCode).toBe(413);
+            expect(JSON.parse(response.body).error.type).toBe('request_too_large');
+        });
+
         it('should handle OPTIONS for CORS', async () => {
             const server = createServer(testConfig);
             const response = await server.app.inject({
@@ -0,0 +1,482 @@
+// Tests for the shared Anthropic SSE writer
+import { EventEmitter } from 'events';
+
+// Mock file storage utilities to prevent tests from writing to real files
+jest.mock('../src/utils/tokenUsage', () => ({
+    recordUsage: jest.fn()
+}));
+
+jest.mock('../src/utils/errorLog', () => ({
+    recordError: jest.fn()
+}));
+
+import { AnthropicSseWriter, StreamBlockType } from '../src/converters/sse';
+import { streamOpenAIToAnthropic } from '../src/converters/streaming';
+import { streamXmlOpenAIToAnthropic } from '../src/converters/xmlStreaming';
+
+const USAGE = { inputTokens: 10, outputTokens: 5, cachedInputTokens: 0 };
+
+// Mock raw response; write() reports backpressure when `writable` is false
+class MockRawResponse extends EventEmitter {
+    public chunks: string[] = [];
+    public headers: Record<string, string> = {};
+    public writableEnded = false;
+    public destroyed = false;
+    public writable = true;
+
+    setHeader(name: string, value: string): void {
+        this.headers[name] = value;
+    }
+
+    write(data: string): boolean {
+        this.chunks.push(data);
+        return this.writable;
+    }
+
+    end(): void {
+        this.writableEnded = true;
+    }
+
+    getEvents(): any[] {
+        return this.chunks
+            .filter(chunk => chunk.startsWith('data: '))
+            .map(chunk => JSON.parse(chunk.slice(6)));
+    }
+}
+
+const DELTA_BLOCK_TYPES: Record<string, StreamBlockType> = {
+    text_delta: 'text',
+    thinking_delta: 'thinking',
+    signature_delta: 'thinking',
+    input_json_delta: 'tool_use',
+};
+
+/**
+ * Assert that events form a valid Anthropic message stream:
+ * message_start first, contiguous block indexes, one block open at a time, deltas only
+ * inside their block, every block stopped exactly once, and message_delta + message_stop
+ * (or an error) last.
+ */
+function assertValidEventGrammar(events: any[]): void {
+    expect(events[0]?.type).toBe('message_start');
+
+    const open = new Map<number, string>();
+    let started = 0;
+
+    events.forEach((event, position) => {
+        const context = `event ${position} (${JSON.stringify(event)})`;
+        const isLast = position === events.length - 1;
+
+        switch (event.type) {
+            case 'message_start':
+                expect({ context, position }).toEqual({ context, position: 0 });
+                break;
+            case 'content_block_start':
+                expect({ context, index: event.index }).toEqual({ context, index: started });
+                expect({ context, open: [...open.keys()] }).toEqual({ context, open: [] });
+                open.set(event.index, event.content_block.type);
+                started++;
+                break;
+            case 'content_block_delta':
+                expect({ context, type: open.get(event.index) }).toEqual({ context, type: DELTA_BLOCK_TYPES[event.delta.type] });
+                break;
+            case 'content_block_stop':
+                expect({ context, open: open.has(event.index) }).toEqual({ context, open: true });
+                open.delete(event.index);
+                break;
+            case 'message_delta':
+                expect({ context, open: [...open.keys()] }).toEqual({ context, open: [] });
+                expect({ context, next: events[position + 1]?.type, remaining: events.length - position }).toEqual({ context, next: 'message_stop', remaining: 2 });
+                break;
+            case 'message_stop':
+                expect({ context, previous: events[position - 1]?.type }).toEqual({ context, previous: 'message_delta' });
+                break;
+            case 'error':
+                expect({ context, isLast }).toEqual({ context, isLast: true });
+                break;
+            case 'ping':
+                break;
+            default:
+                throw new Error(`Unexpected ${context}`);
+        }
+    });
+
+    expect(['message_stop', 'error']).toContain(events[events.length - 1].type);
+}
+
+// Small seeded PRNG so failing cases can be reproduced from their seed
+function createRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+    return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Split text at random positions, so tags and tool calls straddle chunk boundaries
+ */
+function splitRandomly(random: () => number, text: string): string[] {
+    const pieces: string[] = [];
+    let rest = text;
+    while (rest.length > 0) {
+        const size = 1 + Math.floor(random() * 12);
+        pieces.push(rest.slice(0, size));
+        rest = rest.slice(size);
+    }
+    return pieces;
+}
+
+/**
+ * A random upstream chunk sequence mixing reasoning, text, think tags, XML and native tool calls
+ */
+function generateChunks(random: () => number): any[] {
+    const chunks: any[] = [];
+    const toolCallsSeen = new Set<number>();
+    const steps = 1 + Math.floor(random() * 12);
+
+    for (let step = 0; step < steps; step++) {
+        const kind = pick(random, ['reasoning', 'text', 'think', 'xml_tool', 'native_tool']);
+
+        if (kind === 'reasoning') {
+            chunks.push({ choices: [{ delta: { reasoning_content: 'Considering' }, finish_reason: null }] });
+        } else if (kind === 'text' || kind === 'think' || kind === 'xml_tool') {
+            const text = kind === 'text'
+                ? pick(random, ['Hello', ' world', '\n', 'Let me check.'])
+                : kind === 'think'
+                    ? '<think>reasoning</think>answer'
+                    : '<tool_code name="Read">{"file_path": "a.ts"}</tool_code>';
+            for (const piece of splitRandomly(random, text)) {
+                chunks.push({ choices: [{ delta: { content: piece }, finish_reason: null }] });
+            }
+        } else {
+            const index = Math.floor(random() * 3);
+            const first = !toolCallsSeen.has(index);
+            toolCallsSeen.add(index);
+            chunks.push({
+                choices: [{
+                    delta: {
+                        tool_calls: [{
+                            index,
+                            ...(first ? { id: `call_${index}`, function: { name: 'Read', arguments: '' } } : {}),
+                            ...(!first ? { function: { arguments: '{"a":1}' } } : {}),
+                        }]
+                    },
+                    finish_reason: null
+                }]
+            });
+        }
+    }
+
+    const ending = pick(random, ['finish', 'finish_then_usage', 'none', 'error']);
+    if (ending === 'finish' || ending === 'finish_then_usage') {
+        chunks.push({ choices: [{ delta: {}, finish_reason: toolCallsSeen.size ? 'tool_calls' : 'stop' }] });
+    }
+    if (ending === 'finish_then_usage') {
+        chunks.push({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 5 } });
+    }
+    if (ending === 'error') {
+        chunks.push(new Error('Upstream connection reset'));
+    }
+
+    return chunks;
+}
+
+async function* toStream(chunks: any[]): AsyncGenerator<any> {
+    for (const chunk of chunks) {
+        if (chunk instanceof Error) throw chunk;
+        yield chunk;
+    }
+}
+
+describe('AnthropicSseWriter', () => {
+    it('should set SSE headers and send message_start with the estimated input tokens', () => {
+        const raw = new MockRawResponse();
+        const writer = new AnthropicSseWriter(raw);
+
+        writer.start('msg_1', 'claude-4-opus', 120);
+
+        expect(raw.headers['Content-Type']).toBe('text/event-stream');
+        expect(raw.chunks[0]).toBe('event: message_start\n');
+        expect(raw.getEvents()[0].message).toMatchObject({
+            id: 'msg_1',
+            model: 'claude-4-opus',
+            content: [],
+            usage: { input_tokens: 120, output_tokens: 0 },
+        });
+    });
+
+    it('should allocate contiguous block indexes', () => {
+        const writer = new AnthropicSseWriter(new MockRawResponse());
+        writer.start('msg_1', 'model', 0);
+
+        expect(writer.startBlock('thinking')).toBe(0);
+        writer.stopBlock(0);
+        expect(writer.startBlock('tool_use', 'call_1', 'Read')).toBe(1);
+        writer.stopBlock(1);
+        expect(writer.startBlock('text')).toBe(2);
+    });
+
+    it('should stop the open block before message_delta', () => {
+        const raw = new MockRawResponse();
+        const writer = new AnthropicSseWriter(raw);
+        writer.start('msg_1', 'model', 0);
+        writer.startBlock('tool_use', 'call_1', 'Read');
+
+        writer.finish('tool_use', USAGE);
+
+        const events = raw.getEvents();
+        expect(events.map(e => e.type)).toEqual([
+            'message_start', 'content_block_start', 'content_block_stop', 'message_delta', 'message_stop'
+        ]);
+        expect(events[3].usage).toEqual({ input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 0 });
+        expect(raw.writableEnded).toBe(true);
+    });
+
+    it.each([
+        ['a block before message_start', (w: AnthropicSseWriter) => w.startBlock('text')],
+        ['a delta to a block that was never started', (w: AnthropicSseWriter) => {
+            w.start('msg_1', 'model', 0);
+            w.delta(0, { type: 'text_delta', text: 'Hi' });
+        }],
+        ['a delta of the wrong type', (w: AnthropicSseWriter) => {
+            w.start('msg_1', 'model', 0);
+            const index = w.startBlock('text');
+            w.delta(index, { type: 'input_json_delta', partial_json: '{}' });
+        }],
+        ['a block while another is still open', (w: AnthropicSseWriter) => {
+            w.start('msg_1', 'model', 0);
+            w.startBlock('tool_use', 'call_1', 'Read');
+            w.startBlock('tool_use', 'call_2', 'Write');
+        }],
+        ['stopping a block twice', (w: AnthropicSseWriter) => {
+            w.start('msg_1', 'model', 0);
+            const index = w.startBlock('text');
+            w.stopBlock(index);
+            w.stopBlock(index);
+        }],
+        ['a block after the message finished', (w: AnthropicSseWriter) => {
+            w.start('msg_1', 'model', 0);
+            w.finish('end_turn', USAGE);
+            w.startBlock('text');
+        }],
+        ['a second message_start', (w: AnthropicSseWriter) => {
+            w.start('msg_1', 'model', 0);
+            w.start('msg_1', 'model', 0);
+        }],
+    ])('should reject %s', (_name, operation) => {
+        const raw = new MockRawResponse();
+        const writer = new AnthropicSseWriter(raw);
+
+        expect(() => operation(writer)).toThrow();
+    });
+
+    it('should send an error event and end the response', () => {
+        const raw = new MockRawResponse();
+        const writer = new AnthropicSseWriter(raw);
+        writer.start('msg_1', 'model', 0);
+        writer.startBlock('text');
+
+        writer.error(Object.assign(new Error('Service overloaded'), { status: 529 }));
+
+        const events = raw.getEvents();
+        expect(events[events.length - 1]).toEqual({
+            type: 'error',
+            error: { type: 'overloaded_error', message: 'Service overloaded' }
+        });
+        expect(raw.writableEnded).toBe(true);
+    });
+
+    describe('backpressure', () => {
+        it('should wait for drain after a write reports a full buffer', async () => {
+            const raw = new MockRawResponse();
+            const writer = new AnthropicSseWriter(raw);
+            raw.writable = false;
+            writer.start('msg_1', 'model', 0);
+
+            let drained = false;
+            const waiting = writer.drain().then(() => { drained = true; });
+            await Promise.resolve();
+            expect(drained).toBe(false);
+
+            raw.emit('drain');
+            await waiting;
+            expect(drained).toBe(true);
+            expect(raw.listenerCount('drain')).toBe(0);
+            expect(raw.listenerCount('close')).toBe(0);
+        });
+
+        it('should stop waiting when the client goes away', async () => {
+            const raw = new MockRawResponse();
+            const writer = new AnthropicSseWriter(raw);
+            raw.writable = false;
+            writer.start('msg_1', 'model', 0);
+
+            const waiting = writer.drain();
+            raw.emit('close');
+
+            await expect(waiting).resolves.toBeUndefined();
+        });
+
+        it('should not wait when writes succeed', async () => {
+            const raw = new MockRawResponse();
+            const writer = new AnthropicSseWriter(raw);
+            writer.start('msg_1', 'model', 0);
+
+            await expect(writer.drain()).resolves.toBeUndefined();
+            expect(raw.listenerCount('drain')).toBe(0);
+        });
+
+        it('should stop reading the upstream until the client catches up', async () => {
+            const raw = new MockRawResponse();
+            raw.writable = false;
+            let chunksRead = 0;
+
+            async function* stream(): AsyncGenerator<any> {
+                for (const text of ['a', 'b', 'c']) {
+                    chunksRead++;
+                    yield { choices: [{ delta: { content: text }, finish_reason: null }] };
+                }
+            }
+
+            const done = streamOpenAIToAnthropic(stream() as any, { raw } as any, 'claude-4-opus', 'test', {
+                pingIntervalMs: 0
+            });
+            await new Promise(resolve => setImmediate(resolve));
+            expect(chunksRead).toBe(1);
+
+            raw.writable = true;
+            raw.emit('drain');
+            await done;
+            expect(chunksRead).toBe(3);
+        });
+    });
+
+    describe('pings', () => {
+        beforeEach(() => {
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it('should write a ping event every interval until stopped', () => {
+            const raw = new MockRawResponse();
+            const writer = new AnthropicSseWriter(raw);
+            writer.start('msg_1', 'model', 0);
+            const stop = writer.startPings(1000);
+
+            jest.advanceTimersByTime(2500);
+            stop();
+            jest.advanceTimersByTime(5000);
+
+            expect(raw.getEvents().filter(e => e.type === 'ping')).toHaveLength(2);
+        });
+
+        it('should not ping after the message has finished', () => {
+            const raw = new MockRawResponse();
+            const writer = new AnthropicSseWriter(raw);
+            writer.start('msg_1', 'model', 0);
+            const stop = writer.startPings(1000);
+
+            writer.finish('end_turn', USAGE);
+            jest.advanceTimersByTime(3000);
+            stop();
+
+            expect(raw.getEvents().filter(e => e.type === 'ping')).toHaveLength(0);
+        });
+
+        it('should be disabled by a zero interval', () => {
+            const raw = new MockRawResponse();
+            const writer = new AnthropicSseWriter(raw);
+            writer.start('msg_1', 'model', 0);
+            const stop = writer.startPings(0);
+
+            jest.advanceTimersByTime(60000);
+            stop();
+
+            expect(raw.getEvents().filter(e => e.type === 'ping')).toHaveLength(0);
+        });
+    });
+
+    describe('event grammar properties', () => {
+        const SEEDS = Array.from({ length: 200 }, (_, i) => i + 1);
+
+        it('should only ever emit a valid stream, whatever operations are attempted', () => {
+            for (const seed of SEEDS) {
+                const random = createRandom(seed);
+                const raw = new MockRawResponse();
+                const writer = new AnthropicSseWriter(raw);
+                writer.start(`msg_${seed}`, 'model', 0);
+
+                const operations = Math.floor(random() * 30);
+                for (let i = 0; i < operations; i++) {
+                    const before = raw.chunks.length;
+                    const index = Math.floor(random() * 6);
+                    try {
+                        switch (pick(random, ['start', 'delta', 'stop', 'ping'])) {
+                            case 'start': {
+                                const type = pick(random, ['text', 'thinking', 'tool_use'] as const);
+                                if (type === 'tool_use') writer.startBlock(type, `call_${i}`, 'Read');
+                                else writer.startBlock(type);
+                                break;
+                            }
+                            case 'delta':
+                                writer.delta(index, pick(random, [
+                                    { type: 'text_delta' as const, text: 'x' },
+                                    { type: 'thinking_delta' as const, thinking: 'x' },
+                                    { type: 'signature_delta' as const, signature: 'x' },
+                                    { type: 'input_json_delta' as const, partial_json: '{' },
+                                ]));
+                                break;
+                            case 'stop':
+                                writer.stopBlock(index);
+                                break;
+                            default:
+                                writer.ping();
+                        }
+                    } catch {
+                        // Rejected operations must not write anything
+                        expect({ seed, written: raw.chunks.length }).toEqual({ seed, written: before });
+                    }
+                }
+
+                if (random() < 0.2) {
+                    writer.error(new Error('Upstream failed'));
+                } else {
+                    writer.finish('end_turn', USAGE);
+                }
+
+                assertValidEventGrammar(raw.getEvents());
+            }
+        });
+
+        it.each([
+            ['native', streamOpenAIToAnthropic],
+            ['XML', streamXmlOpenAIToAnthropic],
+        ])('should convert random upstream streams into valid events (%s)', async (_name, convert) => {
+            for (const seed of SEEDS) {
+                const random = createRandom(seed);
+                const raw = new MockRawResponse();
+                const chunks = generateChunks(random);
+
+                await convert(toStream(chunks) as any, { raw } as any, 'claude-4-opus', 'test', {
+                    pingIntervalMs: 0
+                });
+
+                try {
+                    assertValidEventGrammar(raw.getEvents());
+                } catch (error) {
+                    throw new Error(`Seed ${seed} produced an invalid stream: ${(error as Error).message}`);
+                }
+            }
+        });
+    });
+});
@@ -0,0 +1,57 @@
+// Tests for stop sequence detection
+import {
+    detectStopSequence,
+    splitStopSequences,
+    StopSequenceScanner,
+} from '../src/converters/stopSequences';
+
+describe('Stop Sequences', () => {
+    describe('detectStopSequence', () => {
+        it('should use the matched stop reported by the provider', () => {
+            expect(detectStopSequence(['END', 'STOP'], { stop_reason: 'STOP' })).toBe('STOP');
+            expect(detectStopSequence(['END', 'STOP'], { matched_stop: 'END' })).toBe('END');
+        });
+
+        it('should ignore stop token IDs and strings that were not requested', () => {
+            expect(detectStopSequence(['END'], { stop_reason: 128009, matched_stop: '<|eot_id|>' })).toBeNull();
+        });
+
+        it('should report a natural end without a provider match', () => {
+            expect(detectStopSequence(['END'], {})).toBeNull();
+            expect(detectStopSequence(['END'], undefined)).toBeNull();
+            expect(detectStopSequence(undefined, { stop_reason: 'END' })).toBeNull();
+            expect(detectStopSequence([], { stop_reason: 'END' })).toBeNull();
+        });
+    });
+
+    describe('StopSequenceScanner', () => {
+        it('should hold back a possible sequence start until the next chunk decides it', () => {
+            const scanner = new StopSequenceScanner(['</answer>']);
+
+            expect(scanner.push('42</ans')).toEqual({ text: '42', matched: null });
+            expect(scanner.push('wer is')).toEqual({ text: '</answer is', matched: null });
+            expect(scanner.push(' 43</')).toEqual({ text: ' 43', matched: null });
+            expect(scanner.push('answer> more')).toEqual({ text: '', matched: '</answer>' });
+        });
+
+        it('should stop at the sequence completed first', () => {
+            const scanner = new StopSequenceScanner(['abc', 'b']);
+
+            expect(scanner.push('xa')).toEqual({ text: 'x', matched: null });
+            expect(scanner.push('bc')).toEqual({ text: 'a', matched: 'b' });
+        });
+
+        it('should release held text on flush', () => {
+            const scanner = new StopSequenceScanner(['STOP', '']);
+
+            expect(scanner.push('ALL ST')).toEqual({ text: 'ALL ', matched: null });
+            expect(scanner.flush()).toBe('ST');
+        });
+    });
+
+    it('should split stop sequences at the provider limit', () => {
+        expect(splitStopSequences(['a', 'b', 'c'], 2)).toEqual({ upstream: ['a', 'b'], local: ['c'] });
+        expect(splitStopSequences(['a'], 0)).toEqual({ upstream: [], local: ['a'] });
+        expect(splitStopSequences(undefined, 4)).toEqual({ upstream: [], local: [] });
+    });
+});
@@ -55,6 +55,7 @@ async function* createMockStream(chunks: any[]): AsyncGenerator<any> {
 
 // Import after mocks are set up
 import { streamOpenAIToAnthropic } from '../src/converters/streaming';
+import { ToolCallValidator } from '../src/converters/toolValidation';
 
 describe('Streaming Converter', () => {
     describe('streamOpenAIToAnthropic', () => {
@@ -199,6 +200,68 @@ describe('Streaming Converter', () => {
             expect(jsonDeltas.length).toBeGreaterThan(0);
         });
 
+        it('should re-query invalid tool calls and send only validated ones', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+            const validator = new ToolCallValidator([{
+                name: 'Read',
+                description: 'Read a file',
+                input_schema: { type: 'object', properties: { file_path: { type: 'string' }, limit: { type: 'integer' } }, required: ['file_path'] },
+            }]);
+            const requery = jest.fn().mockResolvedValue(createMockStream([
+                { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_fixed', function: { name: 'Read', arguments: '{"file_path": "a.ts", "limit": "20"}' } }] }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'tool_calls' }], usage: { prompt_tokens: 60, completion_tokens: 8 } },
+            ]));
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: 'Reading.' }, finish_reason: null }] },
+                { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_bad', function: { name: 'Read', arguments: '{"path": "a.ts"}' } }] }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'tool_calls' }], usage: { prompt_tokens: 50, completion_tokens: 5 } },
+            ]);
+
+            await streamOpenAIToAnthropic(stream as any, mockReply, 'claude-4-opus', '', { toolValidation: { validator, requery } });
+
+            const followUp = requery.mock.calls[0][0];
+            expect(followUp[0]).toMatchObject({ role: 'assistant', content: 'Reading.', tool_calls: [{ id: 'call_bad' }] });
+            expect(followUp[1]).toMatchObject({ role: 'tool', tool_call_id: 'call_bad' });
+            expect(followUp[1].content).toContain('input.file_path is required');
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            const toolBlocks = events.filter(e => e.content_block?.type === 'tool_use');
+            expect(toolBlocks.map(e => e.content_block.id)).toEqual(['call_fixed']);
+            const input = events.filter(e => e.delta?.type === 'input_json_delta').map(e => e.delta.partial_json).join('');
+            expect(JSON.parse(input)).toEqual({ file_path: 'a.ts', limit: 20 });
+
+            const messageDelta = events.find(e => e.type === 'message_delta');
+            expect(messageDelta.delta.stop_reason).toBe('tool_use');
+            expect(messageDelta.usage).toMatchObject({ input_tokens: 110, output_tokens: 13 });
+        });
+
+        it('should repair malformed tool call arguments as they stream', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_repair', function: { name: 'Bash', arguments: "{'command': 'ls'," } }] }, finish_reason: null }] },
+                { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: ' recursive: True' } }] }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'length' }] },
+            ]);
+
+            await streamOpenAIToAnthropic(stream as any, mockReply, 'claude-4-opus');
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            const input = events
+                .filter(e => e.delta?.type === 'input_json_delta')
+                .map(e => e.delta.partial_json)
+                .join('');
+            expect(JSON.parse(input)).toEqual({ command: 'ls', recursive: true });
+
+            // The closing brace arrives before the block stops
+            const stopIndex = events.findIndex(e => e.type === 'content_block_stop');
+            const lastDeltaIndex = events.map(e => e.delta?.type).lastIndexOf('input_json_delta');
+            expect(lastDeltaIndex).toBeLessThan(stopIndex);
+        });
+
         it('should send message_stop event at end', async () => {
             const mockRaw = new MockRawResponse();
             const mockReply = { raw: mockRaw } as any;
@@ -235,6 +298,73 @@ describe('Streaming Converter', () => {
             expect(messageDelta!.data.delta.stop_reason).toBe('end_turn');
         });
 
+        it('should report the stop sequence that ended the stream', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: 'The answer is 42' }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'stop', matched_stop: 'END' }] },
+            ]);
+
+            await streamOpenAIToAnthropic(stream as any, mockReply, 'claude-4-opus', '', { stopSequences: ['END'] });
+
+            const messageDelta = mockRaw.getEvents().find(e => e.data.type === 'message_delta');
+            expect(messageDelta!.data.delta).toEqual({ stop_reason: 'stop_sequence', stop_sequence: 'END' });
+        });
+
+        it('should send text held back by the stop sequence scanner before a tool call', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: 'Checking </ans' }, finish_reason: null }] },
+                { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_held', function: { name: 'Read', arguments: '{}' } }] }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+            ]);
+
+            await streamOpenAIToAnthropic(stream as any, mockReply, 'claude-4-opus', '', { localStopSequences: ['</answer>'] });
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            const text = events.filter(e => e.delta?.type === 'text_delta').map(e => e.delta.text).join('');
+            expect(text).toBe('Checking </ans');
+            expect(events.filter(e => e.type === 'content_block_start').map(e => e.content_block.type)).toEqual(['text', 'tool_use']);
+            expect(events.find(e => e.type === 'message_delta').delta.stop_reason).toBe('tool_use');
+        });
+
+        it('should cut the stream at a local stop sequence and stop reading the upstream', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+            let cancelled = true;
+
+            async function* upstream(): AsyncGenerator<any> {
+                yield { choices: [{ delta: { content: 'The answer' }, finish_reason: null }] };
+                yield { choices: [{ delta: { content: ' is 42</ans' }, finish_reason: null }] };
+                yield { choices: [{ delta: { content: 'wer> and more' }, finish_reason: null }] };
+                cancelled = false;
+                yield { choices: [{ delta: {}, finish_reason: 'stop' }] };
+            }
+
+            await streamOpenAIToAnthropic(upstream() as any, mockReply, 'claude-4-opus', '', {
+                localStopSequences: ['</answer>'],
+                inputTokens: 50,
+            });
+
+            const events = mockRaw.getEvents();
+            const text = events
+                .filter(e => e.data.delta?.type === 'text_delta')
+                .map(e => e.data.delta.text)
+                .join('');
+            const messageDelta = events.find(e => e.data.type === 'message_delta');
+
+            expect(cancelled).toBe(true);
+            expect(text).toBe('The answer is 42');
+            expect(messageDelta!.data.delta).toEqual({ stop_reason: 'stop_sequence', stop_sequence: '</answer>' });
+            expect(messageDelta!.data.usage.input_tokens).toBe(50);
+            expect(messageDelta!.data.usage.output_tokens).toBeGreaterThan(0);
+            expect(events[events.length - 1].data.type).toBe('message_stop');
+        });
+
         it('should set stop_reason to tool_use when tool calls are present', async () => {
             const mockRaw = new MockRawResponse();
             const mockReply = { raw: mockRaw } as any;
@@ -263,6 +393,24 @@ describe('Streaming Converter', () => {
             expect(messageDelta!.data.delta.stop_reason).toBe('tool_use');
         });
 
+        it.each([
+            ['length', 'max_tokens'],
+            ['content_filter', 'refusal'],
+        ])('should map finish_reason %s to %s', async (finishReason, expected) => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'Write', arguments: '{"path": "a' } }] }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: finishReason }] },
+            ]);
+
+            await streamOpenAIToAnthropic(stream as any, mockReply, 'claude-4-opus');
+
+            const messageDelta = mockRaw.getEvents().find(e => e.data.type === 'message_delta');
+            expect(messageDelta!.data.delta.stop_reason).toBe(expected);
+        });
+
         it('should handle usage information from chunks', async () => {
             const mockRaw = new MockRawResponse();
             const mockReply = { raw: mockRaw } as any;
@@ -302,7 +450,8 @@ describe('Streaming Converter', () => {
 
             // This should fail if the bug exists
             expect(messageDelta!.data.usage.output_tokens).toBe(10);
-            expect(messageDelta!.data.usage).not.toHaveProperty('input_tokens'); // input_tokens is not in message_delta usage, checking side effect
+            // message_start only carries the estimate, so the real prompt count is reported here
+            expect(messageDelta!.data.usage.input_tokens).toBe(20);
         });
 
         it('should include cached tokens in streaming usage events', async () => {
@@ -348,6 +497,119 @@ describe('Streaming Converter', () => {
             expect(mockRaw.ended).toBe(true);
         });
 
+        it('should translate upstream errors into Anthropic error types', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            async function* overloadedStream(): AsyncGenerator<any> {
+                yield { choices: [{ delta: { content: 'Start' }, finish_reason: null }] };
+                throw Object.assign(new Error('503 Service Unavailable'), { status: 503 });
+            }
+
+            await streamOpenAIToAnthropic(overloadedStream() as any, mockReply, 'claude-4-opus');
+
+            const errorEvent = mockRaw.getEvents().find(e => e.data.type === 'error');
+            expect(errorEvent!.data.error).toEqual({ type: 'overloaded_error', message: 'Service Unavailable' });
+        });
+
+        it('should stop and record aborted usage when the client disconnects', async () => {
+            const { recordUsage } = require('../src/utils/tokenUsage');
+            recordUsage.mockClear();
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+            const controller = new AbortController();
+
+            async function* abortingStream(): AsyncGenerator<any> {
+                yield { choices: [{ delta: { content: 'Hello there' }, finish_reason: null }] };
+                controller.abort();
+                yield { choices: [{ delta: { content: ' never sent' }, finish_reason: null }] };
+            }
+
+            await streamOpenAIToAnthropic(abortingStream() as any, mockReply, 'claude-4-opus', 'test', {
+                signal: controller.signal
+            });
+
+            const events = mockRaw.getEvents();
+            const deltas = events.filter(e => e.data.type === 'content_block_delta');
+            expect(deltas.map(e => e.data.delta.text).join('')).toBe('Hello there');
+            expect(events.find(e => e.data.type === 'message_stop')).toBeUndefined();
+            expect(events.find(e => e.data.type === 'error')).toBeUndefined();
+            expect(recordUsage).toHaveBeenCalledWith(expect.objectContaining({
+                aborted: true,
+                outputTokens: 3
+            }));
+        });
+
+        it('should not send an error event when the aborted upstream stream throws', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+            const controller = new AbortController();
+
+            async function* abortedStream(): AsyncGenerator<any> {
+                yield { choices: [{ delta: { content: 'Start' }, finish_reason: null }] };
+                controller.abort();
+                throw Object.assign(new Error('Request was aborted.'), { name: 'APIUserAbortError' });
+            }
+
+            await streamOpenAIToAnthropic(abortedStream() as any, mockReply, 'claude-4-opus', 'test', {
+                signal: controller.signal
+            });
+
+            expect(mockRaw.getEvents().find(e => e.data.type === 'error')).toBeUndefined();
+        });
+
+        it('should send message_start before the first upstream chunk', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+            let eventsBeforeFirstChunk: Array<{ event: string; data: any }> = [];
+
+            async function* slowStream(): AsyncGenerator<any> {
+                eventsBeforeFirstChunk = mockRaw.getEvents();
+                yield { choices: [{ delta: { content: 'Hi' }, finish_reason: 'stop' }] };
+            }
+
+            await streamOpenAIToAnthropic(slowStream() as any, mockReply, 'claude-4-opus', 'test', {
+                inputTokens: 42
+            });
+
+            expect(eventsBeforeFirstChunk).toHaveLength(1);
+            expect(eventsBeforeFirstChunk[0].data.type).toBe('message_start');
+            expect(eventsBeforeFirstChunk[0].data.message.usage.input_tokens).toBe(42);
+        });
+
+        it('should send ping events while waiting for the upstream', async () => {
+            jest.useFakeTimers();
+            try {
+                const mockRaw = new MockRawResponse();
+                const mockReply = { raw: mockRaw } as any;
+                let releaseChunk: () => void = () => {};
+                const chunkReady = new Promise<void>(resolve => { releaseChunk = resolve; });
+
+                async function* slowStream(): AsyncGenerator<any> {
+                    await chunkReady;
+                    yield { choices: [{ delta: { content: 'Done' }, finish_reason: 'stop' }] };
+                }
+
+                const done = streamOpenAIToAnthropic(slowStream() as any, mockReply, 'claude-4-opus', 'test', {
+                    pingIntervalMs: 1000
+                });
+
+                jest.advanceTimersByTime(3500);
+                releaseChunk();
+                await done;
+
+                // No pings once the stream has finished
+                jest.advanceTimersByTime(5000);
+
+                const types = mockRaw.getEvents().map(e => e.data.type);
+                expect(types.slice(0, 4)).toEqual(['message_start', 'ping', 'ping', 'ping']);
+                expect(types.filter(t => t === 'ping')).toHaveLength(3);
+                expect(types[types.length - 1]).toBe('message_stop');
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
         it('should handle empty stream with only stop signal', async () => {
             const mockRaw = new MockRawResponse();
             const mockReply = { raw: mockRaw } as any;
@@ -396,14 +658,15 @@ describe('Streaming Converter', () => {
 
             await streamOpenAIToAnthropic(stream as any, mockReply, 'claude-4-opus');
 
-            const events = mockRaw.getEvents();
+            const events = mockRaw.getEvents().map(e => e.data);
 
-            // Should have two tool_use content blocks started
-            const toolBlockStarts = events.filter(e =>
-                e.data.type === 'content_block_start' &&
-                e.data.content_block?.type === 'tool_use'
-            );
-            expect(toolBlockStarts.length).toBeGreaterThanOrEqual(1);
+            // Each block is stopped before the next one starts
+            expect(events.filter(e => e.type.startsWith('content_block')).map(e => `${e.type}:${e.index}`)).toEqual([
+                'content_block_start:0', 'content_block_delta:0', 'content_block_stop:0',
+                'content_block_start:1', 'content_block_delta:1', 'content_block_stop:1',
+            ]);
+            expect(events.filter(e => e.type === 'content_block_start').map(e => e.content_block.id)).toEqual(['call_first', 'call_second']);
+            expect(events.filter(e => e.type === 'content_block_delta').map(e => e.delta.partial_json)).toEqual(['{"x":1}', '{"y":2}']);
         });
 
         it('should handle stream with text followed by tool call', async () => {
@@ -531,5 +794,113 @@ describe('Streaming Converter', () => {
                 model: 'gpt-4-0613'
             }));
         });
+        it('should stream reasoning_content as a thinking block before text', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { reasoning_content: 'Let me ' }, finish_reason: null }] },
+                { choices: [{ delta: { reasoning_content: 'think.' }, finish_reason: null }] },
+                { choices: [{ delta: { content: 'Answer' }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'stop' }] },
+            ]);
+
+            await streamOpenAIToAnthropic(stream as any, mockReply, 'claude-4-opus');
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            const blockEvents = events.filter(e => e.type.startsWith('content_block'));
+
+            expect(blockEvents[0]).toEqual({
+                type: 'content_block_start',
+                index: 0,
+                content_block: { type: 'thinking', thinking: '' }
+            });
+            expect(blockEvents[1].delta).toEqual({ type: 'thinking_delta', thinking: 'Let me ' });
+            expect(blockEvents[2].delta).toEqual({ type: 'thinking_delta', thinking: 'think.' });
+            expect(blockEvents[3].delta.type).toBe('signature_delta');
+            expect(blockEvents[4]).toEqual({ type: 'content_block_stop', index: 0 });
+            expect(blockEvents[5].content_block.type).toBe('text');
+            expect(blockEvents[5].index).toBe(1);
+        });
+
+        it('should close the thinking block before a tool call', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { reasoning: 'Need the weather' }, finish_reason: null }] },
+                {
+                    choices: [{
+                        delta: { tool_calls: [{ index: 0, id: 'call_w', function: { name: 'weather', arguments: '{}' } }] },
+                        finish_reason: null
+                    }]
+                },
+                { choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+            ]);
+
+            await streamOpenAIToAnthropic(stream as any, mockReply, 'claude-4-opus');
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            const starts = events.filter(e => e.type === 'content_block_start');
+            const stops = events.filter(e => e.type === 'content_block_stop');
+
+            expect(starts.map(e => [e.index, e.content_block.type])).toEqual([[0, 'thinking'], [1, 'tool_use']]);
+            expect(stops.map(e => e.index)).toEqual([0, 1]);
+        });
+        it('should convert inline <think> tags into a thinking block', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: '<think>Working' }, finish_reason: null }] },
+                { choices: [{ delta: { content: ' it out</think>\n\nHi' }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'stop' }] },
+            ]);
+
+            await streamOpenAIToAnthropic(stream as any, mockReply, 'claude-4-opus');
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            const thinking = events.filter(e => e.delta?.type === 'thinking_delta').map(e => e.delta.thinking).join('');
+            const text = events.filter(e => e.delta?.type === 'text_delta').map(e => e.delta.text).join('');
+
+            expect(thinking).toBe('Working it out');
+            expect(text).toBe('Hi');
+        });
+
+        it('should treat output before a closing-only </think> as thinking when configured', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: 'Working' }, finish_reason: null }] },
+                { choices: [{ delta: { content: ' it out</think>\n\nHi' }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'stop' }] },
+            ]);
+
+            await streamOpenAIToAnthropic(stream as any, mockReply, 'claude-4-opus', '', { implicitThinkOpen: true });
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            const thinking = events.filter(e => e.delta?.type === 'thinking_delta').map(e => e.delta.thinking).join('');
+            const text = events.filter(e => e.delta?.type === 'text_delta').map(e => e.delta.text).join('');
+
+            expect(thinking).toBe('Working it out');
+            expect(text).toBe('Hi');
+        });
+
+        it('should pass <think> tags through as text when configured', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: '<think>x</think>Hi' }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'stop' }] },
+            ]);
+
+            await streamOpenAIToAnthropic(stream as any, mockReply, 'claude-4-opus', '', { thinkTags: 'text' });
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            expect(events.some(e => e.delta?.type === 'thinking_delta')).toBe(false);
+            expect(events.find(e => e.delta?.type === 'text_delta').delta.text).toBe('<think>x</think>Hi');
+        });
     });
 });
@@ -0,0 +1,87 @@
+// Tests for inline <think> tag extraction
+import { ThinkTagParser, extractThinkTags, ThinkTagSegment } from '../src/converters/thinkTags';
+
+function parseChunks(chunks: string[], implicitOpen = false): ThinkTagSegment[] {
+    const parser = new ThinkTagParser({ implicitOpen });
+    const segments: ThinkTagSegment[] = [];
+    for (const chunk of chunks) {
+        segments.push(...parser.push(chunk));
+    }
+    segments.push(...parser.flush());
+    return segments;
+}
+
+describe('Think Tags', () => {
+    describe('ThinkTagParser', () => {
+        it('should pass through text without tags', () => {
+            expect(parseChunks(['Hello ', 'world'])).toEqual([
+                { type: 'text', text: 'Hello ' },
+                { type: 'text', text: 'world' },
+            ]);
+        });
+
+        it('should split a complete think block from the answer', () => {
+            expect(parseChunks(['<think>plan</think>\n\nAnswer'])).toEqual([
+                { type: 'thinking', text: 'plan' },
+                { type: 'text', text: 'Answer' },
+            ]);
+        });
+
+        it('should handle tags split across chunks', () => {
+            const segments = parseChunks(['<thi', 'nk>step 1', ' step 2</th', 'ink>Done']);
+
+            expect(segments.filter(s => s.type === 'thinking').map(s => s.text).join('')).toBe('step 1 step 2');
+            expect(segments.filter(s => s.type === 'text').map(s => s.text).join('')).toBe('Done');
+        });
+
+        it('should hold back a partial tag until it is resolved', () => {
+            const parser = new ThinkTagParser();
+
+            expect(parser.push('a <')).toEqual([{ type: 'text', text: 'a ' }]);
+            expect(parser.push('b')).toEqual([{ type: 'text', text: '<b' }]);
+        });
+
+        it('should treat an unterminated think block as thinking', () => {
+            expect(parseChunks(['<think>still reasoning when cut off'])).toEqual([
+                { type: 'thinking', text: 'still reasoning when cut off' },
+            ]);
+        });
+
+        it('should drop stray closing tags', () => {
+            expect(parseChunks(['before</think>after'])).toEqual([
+                { type: 'text', text: 'beforeafter' },
+            ]);
+        });
+
+        it('should stream reasoning before a closing-only tag as thinking with implicitOpen', () => {
+            expect(parseChunks(['reasoning with', 'out opener</th', 'ink>\n\nAnswer'], true)).toEqual([
+                { type: 'thinking', text: 'reasoning with' },
+                { type: 'thinking', text: 'out opener' },
+                { type: 'text', text: 'Answer' },
+            ]);
+        });
+
+        it('should accept an explicit opening tag with implicitOpen', () => {
+            expect(parseChunks(['\n<th', 'ink>plan</think>Answer'], true)).toEqual([
+                { type: 'thinking', text: 'plan' },
+                { type: 'text', text: 'Answer' },
+            ]);
+        });
+    });
+
+    describe('extractThinkTags', () => {
+        it('should extract thinking and trimmed text', () => {
+            expect(extractThinkTags('<think>\nreason\n</think>\n\nThe answer')).toEqual({
+                thinking: 'reason',
+                text: 'The answer',
+            });
+        });
+
+        it('should treat text before a stray closing tag as a leading think block', () => {
+            expect(extractThinkTags('reasoning without opener</think>\nAnswer')).toEqual({
+                thinking: 'reasoning without opener',
+                text: 'Answer',
+            });
+        });
+    });
+});
@@ -0,0 +1,71 @@
+// Tests for local token count estimation
+import { estimateTextTokens, estimateRequestTokens } from '../src/utils/tokenCounter';
+import { OpenAIChatRequest } from '../src/types/openai';
+
+describe('Token Counter', () => {
+    describe('estimateTextTokens', () => {
+        it('should return 0 for empty text', () => {
+            expect(estimateTextTokens('')).toBe(0);
+        });
+
+        it('should count about four ASCII characters per token', () => {
+            expect(estimateTextTokens('abcdefgh')).toBe(2);
+            expect(estimateTextTokens('abcde')).toBe(2);
+        });
+
+        it('should count non-ASCII characters as one token each', () => {
+            expect(estimateTextTokens('你好世界')).toBe(4);
+        });
+    });
+
+    describe('estimateRequestTokens', () => {
+        const baseRequest: OpenAIChatRequest = {
+            model: 'gpt-4',
+            messages: [],
+        };
+
+        it('should include per-request and per-message overhead', () => {
+            const empty = estimateRequestTokens(baseRequest);
+            const withMessage = estimateRequestTokens({
+                ...baseRequest,
+                messages: [{ role: 'user', content: '' }],
+            });
+
+            expect(empty).toBe(3);
+            expect(withMessage).toBe(7);
+        });
+
+        it('should count text and image content parts', () => {
+            const tokens = estimateRequestTokens({
+                ...baseRequest,
+                messages: [{
+                    role: 'user',
+                    content: [
+                        { type: 'text', text: 'abcd' },
+                        { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+                    ],
+                }],
+            });
+
+            expect(tokens).toBe(3 + 4 + 1 + 1600);
+        });
+
+        it('should count tools and assistant tool calls', () => {
+            const withoutTools = estimateRequestTokens({
+                ...baseRequest,
+                messages: [{ role: 'assistant', content: null }],
+            });
+            const withTools = estimateRequestTokens({
+                ...baseRequest,
+                messages: [{
+                    role: 'assistant',
+                    content: null,
+                    tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'read', arguments: '{"path":"a"}' } }],
+                }],
+                tools: [{ type: 'function', function: { name: 'read', description: 'Read a file', parameters: { type: 'object', properties: {} } } }],
+            });
+
+            expect(withTools).toBeGreaterThan(withoutTools);
+        });
+    });
+});
@@ -0,0 +1,113 @@
+// Tests for XML mode tool call dialects
+import { getToolDialect, DEFAULT_TOOL_DIALECT } from '../src/converters/toolDialects';
+import { XmlToolEvent } from '../src/converters/xmlToolParser';
+import { ToolDialectName } from '../src/types/config';
+
+const ALL_DIALECTS: ToolDialectName[] = ['tool_code', 'hermes', 'qwen', 'mistral', 'llama3', 'json_fence'];
+
+function parseAll(dialect: string, chunks: string[]): XmlToolEvent[] {
+    const parser = getToolDialect(dialect).createParser();
+    const events = [...chunks.flatMap(chunk => parser.push(chunk)), ...parser.flush()];
+
+    // Merge consecutive text and input events so results don't depend on chunking
+    const merged: XmlToolEvent[] = [];
+    for (const event of events) {
+        const last = merged[merged.length - 1];
+        if (event.type === 'text' && last?.type === 'text') {
+            last.text += event.text;
+        } else if (event.type === 'tool_input' && last?.type === 'tool_input') {
+            last.json += event.json;
+        } else {
+            merged.push({ ...event });
+        }
+    }
+    return merged;
+}
+
+function toolCalls(events: XmlToolEvent[]): { name: string; input: unknown }[] {
+    const calls: { name: string; input: unknown }[] = [];
+    let json = '';
+    for (const event of events) {
+        if (event.type === 'tool_start') {
+            calls.push({ name: event.name, input: undefined });
+            json = '';
+        } else if (event.type === 'tool_input') {
+            json += event.json;
+        } else if (event.type === 'tool_end') {
+            calls[calls.length - 1].input = JSON.parse(json);
+        }
+    }
+    return calls;
+}
+
+describe('Tool Dialects', () => {
+    it('should default to tool_code', () => {
+        expect(DEFAULT_TOOL_DIALECT).toBe('tool_code');
+        expect(getToolDialect().name).toBe('tool_code');
+    });
+
+    it('should reject an unknown dialect', () => {
+        expect(() => getToolDialect('smoke_signals')).toThrow('Unknown tool dialect "smoke_signals"');
+    });
+
+    it('should parse Hermes <tool_call> blocks', () => {
+        const events = parseAll('hermes', ['I will read it.\n<tool_call>\n{"name": "Read", "arguments": {"file_path": "a.ts"}}\n</tool_call>']);
+
+        expect(events[0]).toEqual({ type: 'text', text: 'I will read it.' });
+        expect(toolCalls(events)).toEqual([{ name: 'Read', input: { file_path: 'a.ts' } }]);
+    });
+
+    it('should parse Mistral [TOOL_CALLS] lists and the name[ARGS] form', () => {
+        const list = parseAll('mistral', ['[TOOL_CALLS][{"name": "A", "arguments": {"x": 1}}, {"name": "B", "arguments": "{\\"y\\": 2}"}]']);
+        expect(toolCalls(list)).toEqual([
+            { name: 'A', input: { x: 1 } },
+            { name: 'B', input: { y: 2 } },
+        ]);
+
+        const named = parseAll('mistral', ['[TOOL_CALLS]Read[ARGS]{"file_path": "a.ts"}']);
+        expect(toolCalls(named)).toEqual([{ name: 'Read', input: { file_path: 'a.ts' } }]);
+    });
+
+    it('should parse Llama 3 <|python_tag|> calls with "parameters"', () => {
+        const events = parseAll('llama3', ['<|python_tag|>{"name": "Bash", "parameters": {"command": "ls"}}']);
+
+        expect(toolCalls(events)).toEqual([{ name: 'Bash', input: { command: 'ls' } }]);
+    });
+
+    it('should only treat fenced JSON as a tool call when it has the call shape', () => {
+        const call = parseAll('json_fence', ['Running:\n```json\n{"name": "Bash", "arguments": {"command": "ls"}}\n```']);
+        expect(toolCalls(call)).toEqual([{ name: 'Bash', input: { command: 'ls' } }]);
+
+        const example = 'Example config:\n```json\n{"port": 3000}\n```';
+        expect(parseAll('json_fence', [example])).toEqual([{ type: 'text', text: example }]);
+    });
+
+    it('should keep a malformed call as text', () => {
+        const text = '<tool_call>\n{"name": "Read", "arguments": \n</tool_call>';
+
+        expect(parseAll('hermes', [text])).toEqual([{ type: 'text', text }]);
+    });
+
+    it.each(ALL_DIALECTS)('should parse its own serialised history (%s)', name => {
+        const dialect = getToolDialect(name);
+        const history = dialect.formatToolCalls([
+            { name: 'Read', arguments: '{"file_path":"a.ts"}' },
+            { name: 'Grep', arguments: '{"pattern":"x < y"}' },
+        ]);
+
+        expect(toolCalls(parseAll(name, [history]))).toEqual([
+            { name: 'Read', input: { file_path: 'a.ts' } },
+            { name: 'Grep', input: { pattern: 'x < y' } },
+        ]);
+
+        // Character by character, as a slow stream would deliver it
+        expect(toolCalls(parseAll(name, [...history]))).toEqual(toolCalls(parseAll(name, [history])));
+    });
+
+    it.each(ALL_DIALECTS)('should include every tool result (%s)', name => {
+        const results = getToolDialect(name).formatToolResults(['first output', 'second output']);
+
+        expect(results).toContain('first output');
+        expect(results).toContain('second output');
+    });
+});
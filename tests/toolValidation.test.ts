@@ -0,0 +1,193 @@
+// Tests for tool call validation against input_schema
+import {
+    buildDialectFollowUp,
+    buildNativeFollowUp,
+    coerceToSchema,
+    formatValidationFailure,
+    ToolCallValidator,
+    validateResponseToolCalls,
+} from '../src/converters/toolValidation';
+import { getToolDialect } from '../src/converters/toolDialects';
+import { AnthropicMessageResponse, AnthropicToolDefinition } from '../src/types/anthropic';
+
+const readTool: AnthropicToolDefinition = {
+    name: 'Read',
+    description: 'Read a file',
+    input_schema: {
+        type: 'object',
+        properties: {
+            file_path: { type: 'string' },
+            limit: { type: 'integer' },
+            verbose: { type: 'boolean' },
+        },
+        required: ['file_path'],
+    },
+};
+
+function createResponse(content: AnthropicMessageResponse['content']): AnthropicMessageResponse {
+    return {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        content,
+        model: 'claude-sonnet',
+        stop_reason: content.some(block => block.type === 'tool_use') ? 'tool_use' : 'end_turn',
+        stop_sequence: null,
+        usage: { input_tokens: 100, output_tokens: 10 },
+    };
+}
+
+describe('Tool Validation', () => {
+    describe('coerceToSchema', () => {
+        it('should coerce trivially fixable values', () => {
+            const schema = {
+                type: 'object',
+                properties: {
+                    flag: { type: 'boolean' },
+                    count: { type: 'integer' },
+                    ratio: { type: 'number' },
+                    label: { type: 'string' },
+                    tags: { type: 'array', items: { type: 'string' } },
+                },
+            };
+
+            const result = coerceToSchema(schema, { flag: 'True', count: '3', ratio: ' 0.5 ', label: 42, tags: '["a", 1]' });
+
+            expect(result).toEqual({
+                value: { flag: true, count: 3, ratio: 0.5, label: '42', tags: ['a', '1'] },
+                errors: [],
+            });
+        });
+
+        it('should report missing, mistyped and unexpected values with their paths', () => {
+            const schema = {
+                type: 'object',
+                properties: {
+                    edits: {
+                        type: 'array',
+                        items: { type: 'object', properties: { old: { type: 'string' } }, required: ['old'] },
+                    },
+                    mode: { type: 'string', enum: ['fast', 'slow'] },
+                    count: { type: 'integer' },
+                },
+                required: ['edits'],
+                additionalProperties: false,
+            };
+
+            const { errors } = coerceToSchema(schema, { edits: [{}, { old: 'x' }], mode: 'medium', count: '1.5', extra: true });
+
+            expect(errors).toEqual([
+                'input.edits[0].old is required',
+                'input.mode must be one of "fast", "slow"',
+                'input.count must be integer, got string',
+                'input.extra is not an allowed property',
+            ]);
+        });
+
+        it('should accept a value matching any anyOf branch', () => {
+            const schema = { anyOf: [{ type: 'integer' }, { type: 'string', enum: ['all'] }] };
+
+            expect(coerceToSchema(schema, '5')).toEqual({ value: 5, errors: [] });
+            expect(coerceToSchema(schema, 'all')).toEqual({ value: 'all', errors: [] });
+            expect(coerceToSchema(schema, 'some').errors).toEqual(['input does not match any of the allowed schemas']);
+        });
+    });
+
+    describe('ToolCallValidator', () => {
+        it('should check raw arguments, repairing them first', () => {
+            const validator = new ToolCallValidator([readTool]);
+
+            const check = validator.check('call_1', 'Read', "{'file_path': 'a.ts', limit: '10',}");
+
+            expect(check.errors).toEqual([]);
+            expect(check.input).toEqual({ file_path: 'a.ts', limit: 10 });
+        });
+
+        it('should reject unknown tools and non-object arguments', () => {
+            const validator = new ToolCallValidator([readTool]);
+
+            expect(validator.check('call_1', 'Write', '{}').errors).toEqual(['There is no tool named "Write". Available tools: Read']);
+            expect(validator.check('call_2', 'Read', '[1]').errors).toEqual(['The arguments must be a JSON object']);
+        });
+
+        it('should allow re-queries only within the budget', () => {
+            const requery = new ToolCallValidator([readTool], { maxRequeries: 2 });
+            const message = new ToolCallValidator([readTool], { onFailure: 'message' });
+
+            expect([requery.takeRequery(), requery.takeRequery(), requery.takeRequery()]).toEqual([true, true, false]);
+            expect(message.takeRequery()).toBe(false);
+        });
+    });
+
+    describe('follow-up messages', () => {
+        const validator = new ToolCallValidator([readTool]);
+        const checks = [
+            validator.check('call_1', 'Read', '{"file_path": "a.ts"}'),
+            validator.check('call_2', 'Read', '{"limit": 5}'),
+        ];
+
+        it('should replay native tool calls with their results', () => {
+            const [assistant, accepted, rejected] = buildNativeFollowUp('Reading both.', checks);
+
+            expect(assistant).toEqual({
+                role: 'assistant',
+                content: 'Reading both.',
+                tool_calls: [
+                    { id: 'call_1', type: 'function', function: { name: 'Read', arguments: '{"file_path":"a.ts"}' } },
+                    { id: 'call_2', type: 'function', function: { name: 'Read', arguments: '{"limit":5}' } },
+                ],
+            });
+            expect(accepted).toEqual({ role: 'tool', tool_call_id: 'call_1', content: expect.stringContaining('Accepted') });
+            expect(rejected.content).toContain('- input.file_path is required');
+            expect(rejected.content).toContain('Call Read again with corrected arguments.');
+        });
+
+        it('should replay tool calls in the dialect format for XML mode', () => {
+            const [assistant, user] = buildDialectFollowUp('', checks, getToolDialect('hermes'));
+
+            expect(assistant.content).toBe(
+                '<tool_call>\n{"name":"Read","arguments":{"file_path":"a.ts"}}\n</tool_call>\n' +
+                '<tool_call>\n{"name":"Read","arguments":{"limit":5}}\n</tool_call>'
+            );
+            expect(user.role).toBe('user');
+            expect(user.content).toContain('<tool_response>\nError: the arguments for Read do not match its input schema');
+        });
+    });
+
+    describe('validateResponseToolCalls', () => {
+        it('should re-query invalid calls and append the corrected ones', async () => {
+            const validator = new ToolCallValidator([readTool]);
+            const requery = jest.fn().mockResolvedValue(createResponse([
+                { type: 'tool_use', id: 'call_2', name: 'Read', input: { file_path: 'b.ts', verbose: 'false' } },
+            ]));
+
+            const result = await validateResponseToolCalls(createResponse([
+                { type: 'text', text: 'Reading.' },
+                { type: 'tool_use', id: 'call_1', name: 'Read', input: { path: 'b.ts' } },
+            ]), validator, requery);
+
+            expect(requery).toHaveBeenCalledTimes(1);
+            expect(requery.mock.calls[0][0]).toHaveLength(2);
+            expect(result.content).toEqual([
+                { type: 'text', text: 'Reading.' },
+                { type: 'tool_use', id: 'call_2', name: 'Read', input: { file_path: 'b.ts', verbose: false } },
+            ]);
+            expect(result.stop_reason).toBe('tool_use');
+            expect(result.usage).toEqual({ input_tokens: 200, output_tokens: 20 });
+        });
+
+        it('should replace calls that stay invalid with a message', async () => {
+            const validator = new ToolCallValidator([readTool], { onFailure: 'message' });
+            const requery = jest.fn();
+            const invalid = validator.check('call_1', 'Read', '{}');
+
+            const result = await validateResponseToolCalls(createResponse([
+                { type: 'tool_use', id: 'call_1', name: 'Read', input: {} },
+            ]), validator, requery);
+
+            expect(requery).not.toHaveBeenCalled();
+            expect(result.content).toEqual([{ type: 'text', text: formatValidationFailure([invalid]) }]);
+            expect(result.stop_reason).toBe('end_turn');
+        });
+    });
+});
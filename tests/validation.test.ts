@@ -45,6 +45,16 @@ describe('Request Validation', () => {
             expect(result.errors.some(e => e.field === 'max_tokens')).toBe(true);
         });
 
+        it('should allow missing max_tokens when not required', () => {
+            const request = {
+                model: 'claude-4-opus',
+                messages: [{ role: 'user', content: 'Hello' }]
+            };
+
+            const result = validateAnthropicRequest(request, { requireMaxTokens: false });
+            expect(result.valid).toBe(true);
+        });
+
         it('should reject negative max_tokens', () => {
             const request = {
                 model: 'claude-4-opus',
@@ -194,6 +204,96 @@ describe('Request Validation', () => {
             expect(result.errors.some(e => e.field.includes('content['))).toBe(true);
         });
 
+        it('should accept valid base64 and url image blocks', () => {
+            const request = {
+                model: 'claude-4-opus',
+                max_tokens: 1024,
+                messages: [{
+                    role: 'user',
+                    content: [
+                        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+                        { type: 'image', source: { type: 'url', url: 'https://example.com/a.png' } }
+                    ]
+                }]
+            };
+
+            expect(validateAnthropicRequest(request).valid).toBe(true);
+        });
+
+        it('should reject images with unsupported media types', () => {
+            const request = {
+                model: 'claude-4-opus',
+                max_tokens: 1024,
+                messages: [{
+                    role: 'user',
+                    content: [{ type: 'image', source: { type: 'base64', media_type: 'image/bmp', data: 'Qk0=' } }]
+                }]
+            };
+
+            const result = validateAnthropicRequest(request);
+            expect(result.valid).toBe(false);
+            expect(result.errors[0].field).toBe('messages[0].content[0].source.media_type');
+        });
+
+        it('should reject images larger than 5 MB', () => {
+            const request = {
+                model: 'claude-4-opus',
+                max_tokens: 1024,
+                messages: [{
+                    role: 'user',
+                    content: [{
+                        type: 'image',
+                        source: { type: 'base64', media_type: 'image/png', data: 'A'.repeat(7 * 1024 * 1024) }
+                    }]
+                }]
+            };
+
+            const result = validateAnthropicRequest(request);
+            expect(result.valid).toBe(false);
+            expect(result.errors[0].message).toContain('maximum size');
+        });
+
+        it('should reject images with missing or invalid sources', () => {
+            const request = {
+                model: 'claude-4-opus',
+                max_tokens: 1024,
+                messages: [{
+                    role: 'user',
+                    content: [
+                        { type: 'image' },
+                        { type: 'image', source: { type: 'url', url: 'file:///etc/passwd' } },
+                        { type: 'image', source: { type: 'file', file_id: 'abc' } }
+                    ]
+                }]
+            };
+
+            const result = validateAnthropicRequest(request);
+            expect(result.errors.map(e => e.field)).toEqual([
+                'messages[0].content[0].source',
+                'messages[0].content[1].source.url',
+                'messages[0].content[2].source.type'
+            ]);
+        });
+
+        it('should validate images nested in tool_result content', () => {
+            const request = {
+                model: 'claude-4-opus',
+                max_tokens: 1024,
+                messages: [{
+                    role: 'user',
+                    content: [{
+                        type: 'tool_result',
+                        tool_use_id: 'call_1',
+                        content: [{ type: 'image', source: { type: 'base64', media_type: 'image/tiff', data: 'AAAA' } }]
+                    }]
+                }]
+            };
+
+            const result = validateAnthropicRequest(request);
+            expect(result.valid).toBe(false);
+            expect(result.errors[0].field).toBe('messages[0].content[0].content[0].source.media_type');
+        });
+
         it('should validate optional temperature range', () => {
             const invalidRequest = {
                 model: 'claude-4-opus',
@@ -220,6 +320,45 @@ describe('Request Validation', () => {
             expect(result.errors.some(e => e.field === 'top_p')).toBe(true);
         });
 
+        it('should validate optional top_k', () => {
+            const invalidRequest = {
+                model: 'claude-4-opus',
+                max_tokens: 1024,
+                top_k: 0.5,
+                messages: [{ role: 'user', content: 'Hello' }]
+            };
+
+            const result = validateAnthropicRequest(invalidRequest);
+            expect(result.valid).toBe(false);
+            expect(result.errors.some(e => e.field === 'top_k')).toBe(true);
+        });
+
+        it('should validate the thinking parameter', () => {
+            const base = {
+                model: 'claude-4-opus',
+                max_tokens: 16000,
+                messages: [{ role: 'user', content: 'Hello' }]
+            };
+
+            expect(validateAnthropicRequest({ ...base, thinking: { type: 'enabled', budget_tokens: 4000 } }).valid).toBe(true);
+            expect(validateAnthropicRequest({ ...base, thinking: { type: 'disabled' } }).valid).toBe(true);
+            expect(validateAnthropicRequest({ ...base, thinking: { type: 'adaptive' } }).valid).toBe(true);
+
+            const invalid = [
+                { thinking: 'yes', message: 'thinking must be an object' },
+                { thinking: { budget_tokens: 4000 }, message: 'thinking type must be a string' },
+                { thinking: { type: 'enabled' }, message: 'budget_tokens is required and must be an integer' },
+                { thinking: { type: 'enabled', budget_tokens: 512 }, message: 'budget_tokens must be at least 1024' },
+                { thinking: { type: 'enabled', budget_tokens: 16000 }, message: 'budget_tokens must be less than max_tokens' },
+            ];
+
+            for (const { thinking, message } of invalid) {
+                const result = validateAnthropicRequest({ ...base, thinking });
+                expect(result.valid).toBe(false);
+                expect(result.errors[0].message).toBe(message);
+            }
+        });
+
         it('should validate stream must be boolean', () => {
             const invalidRequest = {
                 model: 'claude-4-opus',
@@ -1,5 +1,12 @@
 // Tests for XML Prompt Generator
-import { generateXmlToolInstructions, hasXmlToolInstructions } from '../src/converters/xmlPrompt';
+import {
+    generateXmlToolInstructions,
+    generateHermesToolInstructions,
+    generateMistralToolInstructions,
+    generateLlamaToolInstructions,
+    generateJsonFenceToolInstructions,
+    hasXmlToolInstructions,
+} from '../src/converters/xmlPrompt';
 import { AnthropicToolDefinition } from '../src/types/anthropic';
 
 describe('XML Prompt Generator', () => {
@@ -124,4 +131,26 @@ You have tools available. To call a tool, you MUST use this EXACT format:
             expect(hasXmlToolInstructions(prompt)).toBe(false);
         });
     });
+
+    describe('dialect templates', () => {
+        const tools: AnthropicToolDefinition[] = [{
+            name: 'get_weather',
+            description: 'Get the current weather',
+            input_schema: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+        }];
+
+        it.each([
+            ['hermes', generateHermesToolInstructions, '<tool_call>'],
+            ['mistral', generateMistralToolInstructions, '[TOOL_CALLS]'],
+            ['llama3', generateLlamaToolInstructions, '<|python_tag|>'],
+            ['json_fence', generateJsonFenceToolInstructions, '```json'],
+        ])('should describe the tools and the %s call format', (_name, generate, marker) => {
+            const result = generate(tools);
+
+            expect(result).toContain('"name":"get_weather"');
+            expect(result).toContain('"required":["city"]');
+            expect(result).toContain(marker);
+            expect(generate([])).toBe('');
+        });
+    });
 });
@@ -54,6 +54,7 @@ async function* createMockStream(chunks: any[]): AsyncGenerator<any> {
 
 // Import after mocks are set up
 import { streamXmlOpenAIToAnthropic } from '../src/converters/xmlStreaming';
+import { ToolCallValidator } from '../src/converters/toolValidation';
 
 describe('XML Streaming Converter', () => {
     describe('streamXmlOpenAIToAnthropic', () => {
@@ -72,6 +73,60 @@ describe('XML Streaming Converter', () => {
             expect(mockRaw.headers['Cache-Control']).toBe('no-cache');
         });
 
+        it('should send message_start immediately and pings while the upstream is silent', async () => {
+            jest.useFakeTimers();
+            try {
+                const mockRaw = new MockRawResponse();
+                const mockReply = { raw: mockRaw } as any;
+                let releaseChunk: () => void = () => {};
+                const chunkReady = new Promise<void>(resolve => { releaseChunk = resolve; });
+
+                async function* slowStream(): AsyncGenerator<any> {
+                    await chunkReady;
+                    yield { choices: [{ delta: { content: 'Hello' }, finish_reason: 'stop' }] };
+                }
+
+                const done = streamXmlOpenAIToAnthropic(slowStream() as any, mockReply, 'test-model', 'test', {
+                    inputTokens: 7,
+                    pingIntervalMs: 1000
+                });
+
+                jest.advanceTimersByTime(2500);
+                releaseChunk();
+                await done;
+
+                const events = mockRaw.getEvents();
+                expect(events[0].data.type).toBe('message_start');
+                expect(events[0].data.message.usage.input_tokens).toBe(7);
+                expect(events.filter(e => e.data.type === 'ping')).toHaveLength(2);
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        it('should stop without final events when the client disconnects', async () => {
+            const { recordUsage } = require('../src/utils/tokenUsage');
+            recordUsage.mockClear();
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+            const controller = new AbortController();
+
+            async function* abortingStream(): AsyncGenerator<any> {
+                yield { choices: [{ delta: { content: 'Working on it' }, finish_reason: null }] };
+                controller.abort();
+                yield { choices: [{ delta: { content: '<tool_code name="Read">{}</tool_code>' }, finish_reason: null }] };
+            }
+
+            await streamXmlOpenAIToAnthropic(abortingStream() as any, mockReply, 'claude-4-opus', 'test', {
+                signal: controller.signal
+            });
+
+            const events = mockRaw.getEvents();
+            expect(events.find(e => e.data.type === 'message_stop')).toBeUndefined();
+            expect(events.find(e => e.data.content_block?.type === 'tool_use')).toBeUndefined();
+            expect(recordUsage).toHaveBeenCalledWith(expect.objectContaining({ aborted: true }));
+        });
+
         it('should stream plain text without tool calls', async () => {
             const mockRaw = new MockRawResponse();
             const mockReply = { raw: mockRaw } as any;
@@ -95,6 +150,59 @@ describe('XML Streaming Converter', () => {
             expect(textDelta!.data.delta.text).toBe('Hello world');
         });
 
+        it('should report the stop sequence the provider matched', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: 'Hello world' }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'stop', stop_reason: '\n\nUser:' }] },
+            ]);
+
+            await streamXmlOpenAIToAnthropic(stream as any, mockReply, 'test-model', '', { stopSequences: ['\n\nUser:'] });
+
+            const messageDelta = mockRaw.getEvents().find(e => e.data.type === 'message_delta');
+            expect(messageDelta!.data.delta).toEqual({ stop_reason: 'stop_sequence', stop_sequence: '\n\nUser:' });
+        });
+
+        it('should report a natural end for text that only ends like a stop sequence', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: 'Hello world\n\nUser:' }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'stop' }] },
+            ]);
+
+            await streamXmlOpenAIToAnthropic(stream as any, mockReply, 'test-model', '', { stopSequences: ['\n\nUser:'] });
+
+            const messageDelta = mockRaw.getEvents().find(e => e.data.type === 'message_delta');
+            expect(messageDelta!.data.delta).toEqual({ stop_reason: 'end_turn', stop_sequence: null });
+        });
+
+        it('should cut the text at a local stop sequence', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: 'Hello wor' }, finish_reason: null }] },
+                { choices: [{ delta: { content: 'ld###<tool_code name="Read">{}</tool_code>' }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'stop' }] },
+            ]);
+
+            await streamXmlOpenAIToAnthropic(stream as any, mockReply, 'test-model', '', { localStopSequences: ['###'] });
+
+            const events = mockRaw.getEvents();
+            const text = events
+                .filter(e => e.data.delta?.type === 'text_delta')
+                .map(e => e.data.delta.text)
+                .join('');
+
+            expect(text).toBe('Hello world');
+            expect(events.some(e => e.data.content_block?.type === 'tool_use')).toBe(false);
+            expect(events.find(e => e.data.type === 'message_delta')!.data.delta.stop_reason).toBe('stop_sequence');
+        });
+
         it('should detect XML tool call and emit tool_use events', async () => {
             const mockRaw = new MockRawResponse();
             const mockReply = { raw: mockRaw } as any;
@@ -181,6 +289,190 @@ describe('XML Streaming Converter', () => {
             expect(jsonDeltas.length).toBeGreaterThan(0);
         });
 
+        it('should stream text and tool input before the tool call is complete', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+            let eventsBeforeClose: any[] = [];
+
+            async function* slowToolStream(): AsyncGenerator<any> {
+                yield { choices: [{ delta: { content: 'Writing the file. <tool_code name="Write">' }, finish_reason: null }] };
+                yield { choices: [{ delta: { content: '{"file_path": "a.ts", ' }, finish_reason: null }] };
+                yield { choices: [{ delta: { content: '"content": "x"}' }, finish_reason: null }] };
+                eventsBeforeClose = mockRaw.getEvents().map(e => e.data);
+                yield { choices: [{ delta: { content: '</tool_code>' }, finish_reason: 'stop' }] };
+            }
+
+            await streamXmlOpenAIToAnthropic(slowToolStream() as any, mockReply, 'test-model');
+
+            expect(eventsBeforeClose.find(e => e.delta?.type === 'text_delta').delta.text).toBe('Writing the file.');
+            expect(eventsBeforeClose.find(e => e.content_block?.type === 'tool_use').content_block.name).toBe('Write');
+            const inputDeltas = eventsBeforeClose.filter(e => e.delta?.type === 'input_json_delta');
+            expect(inputDeltas).toHaveLength(2);
+            expect(inputDeltas.map(e => e.delta.partial_json).join('')).toBe('{"file_path": "a.ts", "content": "x"}');
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            expect(events.filter(e => e.type === 'content_block_stop').map(e => e.index)).toEqual([0, 1]);
+            expect(events.find(e => e.type === 'message_delta').delta.stop_reason).toBe('tool_use');
+        });
+
+        it('should parse tool calls in the configured dialect', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: 'Checking.\n<tool_call>\n{"name": "Read", ' }, finish_reason: null }] },
+                { choices: [{ delta: { content: '"arguments": {"file_path": "a.ts"}}\n</tool_call>' }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'stop' }] },
+            ]);
+
+            await streamXmlOpenAIToAnthropic(stream as any, mockReply, 'test-model', 'unknown', { toolDialect: 'hermes' });
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            expect(events.find(e => e.delta?.type === 'text_delta').delta.text).toBe('Checking.');
+            expect(events.find(e => e.content_block?.type === 'tool_use').content_block.name).toBe('Read');
+            const input = events.filter(e => e.delta?.type === 'input_json_delta').map(e => e.delta.partial_json).join('');
+            expect(JSON.parse(input)).toEqual({ file_path: 'a.ts' });
+            expect(events.find(e => e.type === 'message_delta').delta.stop_reason).toBe('tool_use');
+        });
+
+        it('should repair malformed tool input', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: '<tool_code name="Write">{file_path: "a.py", "content": "def f():\n    return None",}</tool_code>' }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'stop' }] },
+            ]);
+
+            await streamXmlOpenAIToAnthropic(stream as any, mockReply, 'test-model');
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            const input = events.filter(e => e.delta?.type === 'input_json_delta').map(e => e.delta.partial_json).join('');
+            expect(JSON.parse(input)).toEqual({ file_path: 'a.py', content: 'def f():\n    return None' });
+        });
+
+        it('should report tool calls that fail validation as text', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+            const validator = new ToolCallValidator([
+                { name: 'Bash', description: 'Run a command', input_schema: { type: 'object', properties: { command: { type: 'string' } }, required: ['command'] } },
+                { name: 'LS', description: 'List files', input_schema: { type: 'object', properties: { recursive: { type: 'boolean' } } } },
+            ], { onFailure: 'message' });
+            const requery = jest.fn();
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: '<tool_code name="LS">{"recursive": "yes"}</tool_code><tool_code name="Bash">{"command": "ls"}</tool_code>' }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'stop' }] },
+            ]);
+
+            await streamXmlOpenAIToAnthropic(stream as any, mockReply, 'test-model', '', { toolValidation: { validator, requery } });
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            expect(requery).not.toHaveBeenCalled();
+            expect(events.filter(e => e.content_block?.type === 'tool_use').map(e => e.content_block.name)).toEqual(['Bash']);
+            expect(events.find(e => e.delta?.type === 'text_delta').delta.text).toContain('Tool call LS was not run');
+            expect(events.find(e => e.type === 'message_delta').delta.stop_reason).toBe('tool_use');
+        });
+
+        it('should close reasoning before sending a validated tool call', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+            const validator = new ToolCallValidator([
+                { name: 'Bash', description: 'Run a command', input_schema: { type: 'object', properties: { command: { type: 'string' } }, required: ['command'] } },
+            ]);
+
+            const stream = createMockStream([
+                { choices: [{ delta: { reasoning_content: 'List first' }, finish_reason: null }] },
+                { choices: [{ delta: { content: '<tool_code name="Bash">{"command":' }, finish_reason: null }] },
+                { choices: [{ delta: { reasoning_content: ', then read' }, finish_reason: null }] },
+                { choices: [{ delta: { content: ' "ls"}</tool_code>' }, finish_reason: 'stop' }] },
+            ]);
+
+            await streamXmlOpenAIToAnthropic(stream as any, mockReply, 'test-model', '', { toolValidation: { validator, requery: jest.fn() } });
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            expect(events.filter(e => e.type === 'content_block_start' || e.type === 'content_block_stop').map(e => `${e.type}:${e.index}`)).toEqual([
+                'content_block_start:0', 'content_block_stop:0',
+                'content_block_start:1', 'content_block_stop:1',
+                'content_block_start:2', 'content_block_stop:2',
+            ]);
+            expect(events.filter(e => e.type === 'content_block_start').map(e => e.content_block.type)).toEqual(['thinking', 'tool_use', 'thinking']);
+            expect(events.filter(e => e.delta?.type === 'thinking_delta').map(e => e.delta.thinking)).toEqual(['List first', ', then read']);
+        });
+
+        it('should re-query invalid tool calls in the dialect format', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+            const validator = new ToolCallValidator([
+                { name: 'Bash', description: 'Run a command', input_schema: { type: 'object', properties: { command: { type: 'string' } }, required: ['command'] } },
+            ]);
+            const requery = jest.fn().mockResolvedValue(createMockStream([
+                { choices: [{ delta: { content: '<tool_code name="Bash">{"command": "ls"}</tool_code>' }, finish_reason: 'stop' }] },
+            ]));
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: 'Listing. <tool_code name="Bash">{"cmd": "ls"}</tool_code>' }, finish_reason: 'stop' }] },
+            ]);
+
+            await streamXmlOpenAIToAnthropic(stream as any, mockReply, 'test-model', '', { toolValidation: { validator, requery } });
+
+            const [assistant, user] = requery.mock.calls[0][0];
+            expect(assistant).toEqual({ role: 'assistant', content: 'Listing.\n\n<tool_code name="Bash">\n{"cmd":"ls"}\n</tool_code>' });
+            expect(user.content).toContain('<tool_output>\nError: the arguments for Bash do not match its input schema');
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            const toolBlocks = events.filter(e => e.content_block?.type === 'tool_use');
+            expect(toolBlocks).toHaveLength(1);
+            expect(events.find(e => e.delta?.type === 'input_json_delta').delta.partial_json).toBe('{"command":"ls"}');
+        });
+
+        it('should continue a tool call cut off by max_tokens', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+            const requery = jest.fn().mockResolvedValue(createMockStream([
+                { choices: [{ delta: { content: 'tent": "x"}</tool_code>' }, finish_reason: 'stop' }] },
+                { choices: [], usage: { prompt_tokens: 120, completion_tokens: 6 } },
+            ]));
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: 'Writing. <tool_code name="Write">{"path": "a.ts", "con' }, finish_reason: 'length' }] },
+                { choices: [], usage: { prompt_tokens: 100, completion_tokens: 20 } },
+            ]);
+
+            await streamXmlOpenAIToAnthropic(stream as any, mockReply, 'test-model', '', {
+                continuation: { maxContinuations: 1, requery },
+            });
+
+            const [assistant, user] = requery.mock.calls[0][0];
+            expect(assistant).toEqual({ role: 'assistant', content: 'Writing. <tool_code name="Write">{"path": "a.ts", "con' });
+            expect(user.content).toContain('cut off by the output token limit');
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            const input = events
+                .filter(e => e.delta?.type === 'input_json_delta')
+                .map(e => e.delta.partial_json)
+                .join('');
+            const messageDelta = events.find(e => e.type === 'message_delta');
+            expect(events.filter(e => e.content_block?.type === 'tool_use')).toHaveLength(1);
+            expect(JSON.parse(input)).toEqual({ path: 'a.ts', content: 'x' });
+            expect(messageDelta.delta.stop_reason).toBe('tool_use');
+            expect(messageDelta.usage).toMatchObject({ input_tokens: 220, output_tokens: 26 });
+        });
+
+        it('should report max_tokens for a truncated tool call without continuations', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: '<tool_code name="Write">{"path": "a.ts", "con' }, finish_reason: 'length' }] },
+            ]);
+
+            await streamXmlOpenAIToAnthropic(stream as any, mockReply, 'test-model');
+
+            const messageDelta = mockRaw.getEvents().find(e => e.data.type === 'message_delta');
+            expect(messageDelta!.data.delta.stop_reason).toBe('max_tokens');
+        });
+
         it('should send message_stop at end', async () => {
             const mockRaw = new MockRawResponse();
             const mockReply = { raw: mockRaw } as any;
@@ -217,5 +509,77 @@ describe('XML Streaming Converter', () => {
             expect(errorEvent!.data.error.message).toBe('Connection lost');
             expect(mockRaw.ended).toBe(true);
         });
+        it('should stream reasoning as a thinking block before buffered text', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { reasoning_content: 'Plan first' }, finish_reason: null }] },
+                { choices: [{ delta: { content: 'Hello' }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'stop' }] },
+            ]);
+
+            await streamXmlOpenAIToAnthropic(stream as any, mockReply, 'test-model');
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            const starts = events.filter(e => e.type === 'content_block_start');
+
+            expect(starts.map(e => [e.index, e.content_block.type])).toEqual([[0, 'thinking'], [1, 'text']]);
+            expect(events.some(e => e.delta?.type === 'thinking_delta' && e.delta.thinking === 'Plan first')).toBe(true);
+            expect(events.some(e => e.delta?.type === 'signature_delta')).toBe(true);
+        });
+        it('should emit inline <think> blocks as thinking before a tool call', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: '<think>Read the file' }, finish_reason: null }] },
+                { choices: [{ delta: { content: '</think>\n<tool_code name="Read">{"file_path": "a.ts"}</tool_code>' }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'stop' }] },
+            ]);
+
+            await streamXmlOpenAIToAnthropic(stream as any, mockReply, 'test-model');
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            const starts = events.filter(e => e.type === 'content_block_start');
+
+            expect(starts.map(e => e.content_block.type)).toEqual(['thinking', 'tool_use']);
+            expect(events.find(e => e.delta?.type === 'thinking_delta').delta.thinking).toBe('Read the file');
+        });
+
+        it('should treat output before a closing-only </think> as thinking when configured', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: 'Read the file' }, finish_reason: null }] },
+                { choices: [{ delta: { content: '</think>\n<tool_code name="Read">{"file_path": "a.ts"}</tool_code>' }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'stop' }] },
+            ]);
+
+            await streamXmlOpenAIToAnthropic(stream as any, mockReply, 'test-model', '', { implicitThinkOpen: true });
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            const starts = events.filter(e => e.type === 'content_block_start');
+
+            expect(starts.map(e => e.content_block.type)).toEqual(['thinking', 'tool_use']);
+            expect(events.find(e => e.delta?.type === 'thinking_delta').delta.thinking).toBe('Read the file');
+        });
+
+        it('should drop <think> blocks when hidden', async () => {
+            const mockRaw = new MockRawResponse();
+            const mockReply = { raw: mockRaw } as any;
+
+            const stream = createMockStream([
+                { choices: [{ delta: { content: '<think>secret</think>Visible' }, finish_reason: null }] },
+                { choices: [{ delta: {}, finish_reason: 'stop' }] },
+            ]);
+
+            await streamXmlOpenAIToAnthropic(stream as any, mockReply, 'test-model', '', { thinkTags: 'hide' });
+
+            const events = mockRaw.getEvents().map(e => e.data);
+            expect(events.some(e => e.delta?.type === 'thinking_delta')).toBe(false);
+            expect(events.find(e => e.delta?.type === 'text_delta').delta.text).toBe('Visible');
+        });
     });
 });
@@ -0,0 +1,130 @@
+// Tests for the incremental XML tool call parser
+import { XmlToolCallParser, XmlToolEvent } from '../src/converters/xmlToolParser';
+
+function parseAll(chunks: string[]): XmlToolEvent[] {
+    const parser = new XmlToolCallParser();
+    const events = [...chunks.flatMap(chunk => parser.push(chunk)), ...parser.flush()];
+    return mergeEvents(events);
+}
+
+/**
+ * Merge consecutive text and input events so results can be compared regardless of chunking
+ */
+function mergeEvents(events: XmlToolEvent[]): XmlToolEvent[] {
+    const merged: XmlToolEvent[] = [];
+    for (const event of events) {
+        const last = merged[merged.length - 1];
+        if (event.type === 'text' && last?.type === 'text') {
+            last.text += event.text;
+        } else if (event.type === 'tool_input' && last?.type === 'tool_input') {
+            last.json += event.json;
+        } else {
+            merged.push({ ...event });
+        }
+    }
+    return merged;
+}
+
+describe('XmlToolCallParser', () => {
+    it('should release plain text immediately', () => {
+        const parser = new XmlToolCallParser();
+
+        expect(parser.push('Hello')).toEqual([{ type: 'text', text: 'Hello' }]);
+        expect(parser.push(' world')).toEqual([{ type: 'text', text: ' world' }]);
+    });
+
+    it('should hold back a possible tag start until it is decided', () => {
+        const parser = new XmlToolCallParser();
+
+        expect(parser.push('a <tool_co')).toEqual([{ type: 'text', text: 'a' }]);
+        expect(parser.push('de name="Read">')).toEqual([{ type: 'tool_start', name: 'Read' }]);
+    });
+
+    it('should release a "<" that turns out not to be a tag', () => {
+        const parser = new XmlToolCallParser();
+
+        expect(parser.push('if a <')).toEqual([{ type: 'text', text: 'if a' }]);
+        expect(parser.push(' b')).toEqual([{ type: 'text', text: ' < b' }]);
+    });
+
+    it('should start the tool call as soon as the opening tag is complete and stream its input', () => {
+        const parser = new XmlToolCallParser();
+
+        expect(parser.push('<tool_code name="Write">')).toEqual([{ type: 'tool_start', name: 'Write' }]);
+        expect(parser.push('{"content": "line 1\\n')).toEqual([{ type: 'tool_input', json: '{"content": "line 1\\n' }]);
+        expect(parser.push('line 2"}')).toEqual([{ type: 'tool_input', json: 'line 2"}' }]);
+        expect(parser.push('</tool_code>')).toEqual([{ type: 'tool_end' }]);
+    });
+
+    it('should not leak a partial closing tag into the input', () => {
+        const parser = new XmlToolCallParser();
+        parser.push('<tool_code name="Read">');
+
+        expect(parser.push('{"a": 1}</tool_')).toEqual([{ type: 'tool_input', json: '{"a": 1}' }]);
+        expect(parser.push('code>')).toEqual([{ type: 'tool_end' }]);
+    });
+
+    it('should trim whitespace around tool calls', () => {
+        expect(parseAll(['Let me help. <tool_code name="helper">\n{"a":1}\n</tool_code>\n\nDone.\n'])).toEqual([
+            { type: 'text', text: 'Let me help.' },
+            { type: 'tool_start', name: 'helper' },
+            { type: 'tool_input', json: '{"a":1}' },
+            { type: 'tool_end' },
+            { type: 'text', text: 'Done.' },
+        ]);
+    });
+
+    it('should strip nested <tool> wrappers and a leading tool name line', () => {
+        expect(parseAll(['<tool_code name="Read"><tool name="Read">{"file_path": "a.ts"}</tool></tool_code>'])).toEqual([
+            { type: 'tool_start', name: 'Read' },
+            { type: 'tool_input', json: '{"file_path": "a.ts"}' },
+            { type: 'tool_end' },
+        ]);
+        expect(parseAll(['<tool_code name="Read">Read\n{"file_path": "a.ts"}</tool_code>'])).toEqual([
+            { type: 'tool_start', name: 'Read' },
+            { type: 'tool_input', json: '{"file_path": "a.ts"}' },
+            { type: 'tool_end' },
+        ]);
+    });
+
+    it('should keep tags that appear inside the input', () => {
+        expect(parseAll(['<tool_code name="Write">{"content": "<tool>x</tool> <div>"}</tool_code>'])).toEqual([
+            { type: 'tool_start', name: 'Write' },
+            { type: 'tool_input', json: '{"content": "<tool>x</tool> <div>"}' },
+            { type: 'tool_end' },
+        ]);
+    });
+
+    it('should treat a <tool_code> tag without a name as text', () => {
+        expect(parseAll(['<tool_code>{}</tool_code>'])).toEqual([
+            { type: 'text', text: '<tool_code>{}</tool_code>' },
+        ]);
+    });
+
+    it('should close an unterminated tool call at the end of the stream', () => {
+        expect(parseAll(['<tool_code name="Read">{"file_path": "a.ts"}</tool_co'])).toEqual([
+            { type: 'tool_start', name: 'Read' },
+            { type: 'tool_input', json: '{"file_path": "a.ts"}' },
+            { type: 'tool_end' },
+        ]);
+    });
+
+    it('should parse multiple tool calls in sequence', () => {
+        const events = parseAll(['<tool_code name="A">{}</tool_code><tool_code name="B">{"x":1}</tool_code>']);
+
+        expect(events.filter(e => e.type === 'tool_start')).toEqual([
+            { type: 'tool_start', name: 'A' },
+            { type: 'tool_start', name: 'B' },
+        ]);
+    });
+
+    it('should produce the same result however the text is split', () => {
+        const text = 'Checking. <tool_code name="Edit">\n<tool name="Edit">{"old": "a < b", "new": "</b>"}</tool>\n</tool_code> Then <tool_code name="Read">{}</tool_code>';
+        const expected = parseAll([text]);
+
+        for (let split = 1; split < text.length; split++) {
+            expect(parseAll([text.slice(0, split), text.slice(split)])).toEqual(expected);
+        }
+        expect(parseAll([...text])).toEqual(expected);
+    });
+});
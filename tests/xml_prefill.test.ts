@@ -50,4 +50,23 @@ describe('XML Prefill Handling', () => {
         expect(result.messages).toHaveLength(2);
         expect(result.messages[1].role).toBe('assistant');
     });
+
+    it.each([
+        ['hermes', '<tool_call>\n{"name": "foo"', '<tool_call>{"name": "foo"}</tool_call>'],
+        ['mistral', '[TOOL_CALLS][', null],
+        ['json_fence', '```json\n{"name": "foo"', '```json\n{"name": "foo"}\n```'],
+    ] as const)('should strip the opening marker of the %s dialect', (toolDialect, prefill, complete) => {
+        const stripped = convertRequestToOpenAI(createRequest(prefill), 'gpt-4', 'xml', { toolDialect });
+        expect(stripped.messages.filter(m => m.role === 'assistant')).toHaveLength(0);
+
+        if (complete) {
+            const kept = convertRequestToOpenAI(createRequest(complete), 'gpt-4', 'xml', { toolDialect });
+            expect(kept.messages.filter(m => m.role === 'assistant')).toHaveLength(1);
+        }
+    });
+
+    it('should keep text that only opens a call in another dialect', () => {
+        const result = convertRequestToOpenAI(createRequest('<tool_code name="foo">'), 'gpt-4', 'xml', { toolDialect: 'hermes' });
+        expect(result.messages.filter(m => m.role === 'assistant')).toHaveLength(1);
+    });
 });